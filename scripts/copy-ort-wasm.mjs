@@ -0,0 +1,14 @@
+// Copies onnxruntime-web's WebAssembly binaries into public/ort so the classifier can load them
+// from the app's own origin; field stations often have no route to a CDN.
+import { copyFile, mkdir, readdir } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const root = path.dirname(path.dirname(fileURLToPath(import.meta.url)));
+const source = path.join(root, 'node_modules', 'onnxruntime-web', 'dist');
+const target = path.join(root, 'public', 'ort');
+
+const files = (await readdir(source)).filter(file => /^ort-wasm.*\.(wasm|mjs)$/.test(file));
+await mkdir(target, { recursive: true });
+await Promise.all(files.map(file => copyFile(path.join(source, file), path.join(target, file))));
+console.log(`Copied ${files.length} onnxruntime-web files to public/ort`);
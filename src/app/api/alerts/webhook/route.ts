@@ -0,0 +1,35 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import type { ApiError, WebhookRelayResult } from '@/lib/api/types';
+import { isWebhookRelayRequest } from '@/lib/server/validation';
+import { BlockedWebhookError, relayWebhook } from '@/lib/server/webhook';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Answers 200 with the endpoint's own status whenever it replied, 403 for local and private addresses,
+// and 502/504 when it could not be reached
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ApiError>({ error: 'Body must be JSON' }, { status: 400 });
+  }
+
+  if (!isWebhookRelayRequest(body)) {
+    return NextResponse.json<ApiError>({ error: 'Expected { url: http(s) URL, payload: object }' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json<WebhookRelayResult>(await relayWebhook(body));
+  } catch (error) {
+    if (error instanceof BlockedWebhookError) {
+      return NextResponse.json<ApiError>({ error: error.message }, { status: 403 });
+    }
+    const timedOut = (error as Error).name === 'AbortError';
+    return NextResponse.json<ApiError>(
+      { error: timedOut ? 'Webhook timed out' : `Webhook unreachable: ${(error as Error).message}` },
+      { status: timedOut ? 504 : 502 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import type { ApiError, IngestResult } from '@/lib/api/types';
+import { insertDetections, queryDetections } from '@/lib/server/repository';
+import { isStoredDetection, parseDetectionFilter } from '@/lib/server/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ApiError>({ error: 'Body must be JSON' }, { status: 400 });
+  }
+
+  const detections = (body as { detections?: unknown })?.detections;
+  if (!Array.isArray(detections) || !detections.every(isStoredDetection)) {
+    return NextResponse.json<ApiError>({ error: 'Expected { detections: StoredDetection[] }' }, { status: 400 });
+  }
+
+  const inserted = await insertDetections(detections);
+  return NextResponse.json<IngestResult>(
+    { received: inserted, duplicates: detections.length - inserted },
+    { status: 201 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const filter = parseDetectionFilter(request.nextUrl.searchParams);
+    return NextResponse.json(await queryDetections(filter));
+  } catch (error) {
+    return NextResponse.json<ApiError>({ error: (error as Error).message }, { status: 400 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import type { ApiError } from '@/lib/api/types';
+import { readMediaFile } from '@/lib/server/repository';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const file = await readMediaFile(id);
+  if (!file) {
+    return NextResponse.json<ApiError>({ error: 'Media not found' }, { status: 404 });
+  }
+
+  return new NextResponse(new Uint8Array(file.data), {
+    headers: {
+      'Content-Type': file.media.mimeType,
+      'Content-Length': String(file.data.length),
+      'Content-Disposition': `inline; filename="${file.media.fileName}"`
+    }
+  });
+}
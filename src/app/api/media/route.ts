@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import type { ApiError } from '@/lib/api/types';
+import { insertMedia, queryMedia } from '@/lib/server/repository';
+import { isMediaMetadata, parseDetectionFilter } from '@/lib/server/validation';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// multipart/form-data with a `file` blob and a `metadata` JSON string
+export async function POST(request: NextRequest) {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json<ApiError>({ error: 'Body must be multipart/form-data' }, { status: 400 });
+  }
+
+  const file = form.get('file');
+  const rawMetadata = form.get('metadata');
+  if (!(file instanceof Blob) || typeof rawMetadata !== 'string') {
+    return NextResponse.json<ApiError>({ error: 'Expected `file` and `metadata` fields' }, { status: 400 });
+  }
+
+  let metadata: unknown;
+  try {
+    metadata = JSON.parse(rawMetadata);
+  } catch {
+    return NextResponse.json<ApiError>({ error: '`metadata` must be JSON' }, { status: 400 });
+  }
+  if (!isMediaMetadata(metadata)) {
+    return NextResponse.json<ApiError>({ error: 'Invalid media metadata' }, { status: 400 });
+  }
+
+  const { media, created } = await insertMedia(metadata, file);
+  return NextResponse.json(media, { status: created ? 201 : 200 });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const filter = parseDetectionFilter(request.nextUrl.searchParams);
+    return NextResponse.json(await queryMedia(filter));
+  } catch (error) {
+    return NextResponse.json<ApiError>({ error: (error as Error).message }, { status: 400 });
+  }
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import React from 'react';
+import { Bell, Plus } from 'lucide-react';
+import {
+  createAlertRule,
+  requestNotificationPermission,
+  type AlertActionKind,
+  type AlertEvent,
+  type AlertRule,
+  type AlertTimeWindow
+} from '@/lib/alerts';
+import type { DetectionType } from '@/lib/detection';
+
+interface AlertPanelProps {
+  rules: AlertRule[];
+  // Newest first
+  history: AlertEvent[];
+  cameraIds: string[];
+  onRulesChange: (rules: AlertRule[]) => void;
+  onTest: (rule: AlertRule) => void;
+  onClearHistory: () => void;
+}
+
+const DETECTION_TYPES: DetectionType[] = ['LARGE_ANIMAL', 'MEDIUM_ANIMAL', 'SMALL_ANIMAL', 'AMBIENT_MOTION'];
+
+const ACTIONS: [AlertActionKind, string][] = [
+  ['notification', 'Notification'],
+  ['sound', 'Sound'],
+  ['webhook', 'Webhook']
+];
+
+const toTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const fromTime = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toggle = <T,>(items: T[], item: T) =>
+  (items.includes(item) ? items.filter(other => other !== item) : [...items, item]);
+
+const AlertPanel = ({ rules, history, cameraIds, onRulesChange, onTest, onClearHistory }: AlertPanelProps) => {
+  const updateRule = (id: string, changes: Partial<AlertRule>) => {
+    onRulesChange(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const updateWindow = (rule: AlertRule, changes: Partial<AlertTimeWindow>) => {
+    if (rule.timeWindow) updateRule(rule.id, { timeWindow: { ...rule.timeWindow, ...changes } });
+  };
+
+  const toggleAction = (rule: AlertRule, action: AlertActionKind) => {
+    // The permission prompt needs the user gesture of ticking the box
+    if (action === 'notification' && !rule.actions.includes(action)) {
+      requestNotificationPermission();
+    }
+    updateRule(rule.id, { actions: toggle(rule.actions, action) });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="bg-white rounded-lg shadow-lg p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-800">Alert Rules</h2>
+          <button
+            onClick={() => onRulesChange([...rules, createAlertRule(`Alert ${rules.length + 1}`)])}
+            className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-medium bg-blue-500 text-white hover:bg-blue-600"
+          >
+            <Plus className="w-4 h-4" />
+            Add rule
+          </button>
+        </div>
+
+        {rules.length === 0 && (
+          <p className="text-sm text-gray-500">No alert rules yet. Detections only show up in the Live tab.</p>
+        )}
+
+        <ul className="space-y-4">
+          {rules.map(rule => (
+            <li key={rule.id} className="p-3 rounded-lg bg-gray-50 space-y-3 text-sm">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(event) => updateRule(rule.id, { enabled: event.target.checked })}
+                  aria-label={`Enable ${rule.name}`}
+                />
+                <input
+                  value={rule.name}
+                  onChange={(event) => updateRule(rule.id, { name: event.target.value })}
+                  className="flex-1 min-w-0 px-2 py-1 rounded border border-gray-300"
+                />
+                <button
+                  onClick={() => onTest(rule)}
+                  className="px-2 py-1 rounded text-blue-600 hover:bg-blue-50"
+                >
+                  Test
+                </button>
+                <button
+                  onClick={() => onRulesChange(rules.filter(other => other.id !== rule.id))}
+                  className="px-2 py-1 rounded text-red-600 hover:bg-red-50"
+                >
+                  Delete
+                </button>
+              </div>
+
+              <div className="flex flex-wrap gap-3 text-gray-700">
+                {DETECTION_TYPES.map(type => (
+                  <label key={type} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={rule.types.includes(type)}
+                      onChange={() => updateRule(rule.id, { types: toggle(rule.types, type) })}
+                    />
+                    {type.replace('_', ' ')}
+                  </label>
+                ))}
+                {rule.types.length === 0 && <span className="text-gray-400">Any type</span>}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="flex flex-col gap-1 text-gray-600">
+                  Confidence above
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={rule.minConfidence}
+                    onChange={(event) => updateRule(rule.id, { minConfidence: Number(event.target.value) })}
+                    className="px-2 py-1 rounded border border-gray-300"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-600">
+                  At most once per (min)
+                  <input
+                    type="number"
+                    min={0}
+                    max={1440}
+                    value={rule.cooldownMinutes}
+                    onChange={(event) => updateRule(rule.id, { cooldownMinutes: Number(event.target.value) })}
+                    className="px-2 py-1 rounded border border-gray-300"
+                  />
+                </label>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 text-gray-600">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={rule.timeWindow !== null}
+                    onChange={(event) => updateRule(rule.id, {
+                      timeWindow: event.target.checked ? { start: 20 * 60, end: 5 * 60 } : null
+                    })}
+                  />
+                  Only between
+                </label>
+                {rule.timeWindow && (
+                  <>
+                    <input
+                      type="time"
+                      value={toTime(rule.timeWindow.start)}
+                      onChange={(event) => event.target.value && updateWindow(rule, { start: fromTime(event.target.value) })}
+                      className="px-2 py-1 rounded border border-gray-300"
+                    />
+                    and
+                    <input
+                      type="time"
+                      value={toTime(rule.timeWindow.end)}
+                      onChange={(event) => event.target.value && updateWindow(rule, { end: fromTime(event.target.value) })}
+                      className="px-2 py-1 rounded border border-gray-300"
+                    />
+                  </>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-3 text-gray-700">
+                <span className="text-gray-600">Cameras:</span>
+                {cameraIds.map(id => (
+                  <label key={id} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={rule.cameraIds.includes(id)}
+                      onChange={() => updateRule(rule.id, { cameraIds: toggle(rule.cameraIds, id) })}
+                    />
+                    {id}
+                  </label>
+                ))}
+                {rule.cameraIds.length === 0 && <span className="text-gray-400">Any camera</span>}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3 text-gray-700">
+                <span className="text-gray-600">Actions:</span>
+                {ACTIONS.map(([action, label]) => (
+                  <label key={action} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={rule.actions.includes(action)}
+                      onChange={() => toggleAction(rule, action)}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              {rule.actions.includes('webhook') && (
+                <input
+                  type="url"
+                  value={rule.webhookUrl}
+                  placeholder="https://example.org/hooks/wildlife"
+                  onChange={(event) => updateRule(rule.id, { webhookUrl: event.target.value.trim() })}
+                  className="w-full px-2 py-1 rounded border border-gray-300"
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-800">Alert History</h2>
+          {history.length > 0 && (
+            <button onClick={onClearHistory} className="px-2 py-1 rounded text-sm text-red-600 hover:bg-red-50">
+              Clear
+            </button>
+          )}
+        </div>
+        {history.length > 0 ? (
+          <ul className="space-y-2 max-h-[40rem] overflow-y-auto">
+            {history.map(event => (
+              <li key={event.id} className="flex items-start gap-3 p-2 rounded-lg bg-gray-50 text-sm">
+                <Bell className="w-4 h-4 mt-0.5 text-orange-500 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-medium text-gray-800 truncate">{event.ruleName}</span>
+                    <span className="text-gray-500 shrink-0">{new Date(event.firedAt).toLocaleString()}</span>
+                  </div>
+                  <p className="text-gray-600">
+                    {event.label.replace('_', ' ')} ({Math.round(event.confidence * 100)}%) on {event.cameraId}
+                  </p>
+                  <div className="flex flex-wrap gap-2 mt-1">
+                    {event.results.map(result => (
+                      <span
+                        key={result.action}
+                        title={result.error}
+                        className={`px-2 py-0.5 rounded text-xs ${
+                          result.ok ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                        }`}
+                      >
+                        {result.action}{result.ok ? '' : ' failed'}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No alerts have fired yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertPanel;
@@ -0,0 +1,43 @@
+'use client';
+
+import React from 'react';
+import { ANALYSIS_WIDTHS, type AnalysisSettings, type AnalysisStats } from '@/lib/analysis';
+
+interface AnalysisStatsPanelProps {
+  settings: AnalysisSettings;
+  stats: AnalysisStats | null;
+  onChange: (settings: AnalysisSettings) => void;
+}
+
+const AnalysisStatsPanel = ({ settings, stats, onChange }: AnalysisStatsPanelProps) => {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+      <label className="flex items-center gap-2 text-gray-600">
+        Analysis resolution
+        <select
+          value={settings.analysisWidth}
+          onChange={(event) => onChange({ ...settings, analysisWidth: Number(event.target.value) })}
+          className="px-2 py-1 rounded border border-gray-300"
+        >
+          {ANALYSIS_WIDTHS.map(width => (
+            <option key={width} value={width}>{width}px wide</option>
+          ))}
+        </select>
+      </label>
+      {stats ? (
+        <div className="flex gap-4 text-gray-600">
+          <span>{stats.fps.toFixed(1)} fps</span>
+          <span>{Math.round(stats.latency)} ms/frame</span>
+          <span className={stats.dropped > 0 ? 'text-yellow-700' : undefined}>{stats.dropped} dropped</span>
+          <span className="text-gray-400">
+            {stats.width}×{stats.height} · {stats.backend === 'worker' ? 'worker' : 'main thread'}
+          </span>
+        </div>
+      ) : (
+        <span className="text-gray-400">Waiting for frames…</span>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisStatsPanel;
@@ -0,0 +1,147 @@
+'use client';
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import type { AnalyticsData } from '@/lib/analytics';
+import type { Track } from '@/lib/detection';
+import { formatDuration } from '@/lib/format';
+
+interface AnalysisViewProps {
+  // Chart points; `time` is the x-axis label
+  detections: { time: string; intensity: number; confidence: number }[];
+  analytics: AnalyticsData;
+  // What analytics counts, for the headline total and the hourly grid
+  totalLabel?: string;
+  unit?: string;
+  tracks: Track[];
+  zoneName?: (id: string) => string;
+  // Labels the First Seen column; wall-clock time by default
+  formatTime?: (timestamp: number) => string;
+  onTrackSelect?: (track: Track) => void;
+}
+
+const AnalysisView = ({
+  detections,
+  analytics,
+  totalLabel = 'Tracked Animals',
+  unit = 'animals',
+  tracks,
+  zoneName = id => id,
+  formatTime = timestamp => new Date(timestamp).toLocaleTimeString(),
+  onTrackSelect
+}: AnalysisViewProps) => {
+  return (
+    <div className="grid grid-cols-1 gap-4">
+      {/* Activity Graph */}
+      <div className="bg-white rounded-lg shadow-lg p-4">
+        <h2 className="text-xl font-bold text-gray-800 mb-4">Motion Activity</h2>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={detections}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="time" />
+              <YAxis />
+              <Tooltip />
+              <Line 
+                type="monotone" 
+                dataKey="intensity" 
+                stroke="#2563eb" 
+                dot={false}
+                name="Motion Intensity"
+              />
+              <Line 
+                type="monotone" 
+                dataKey="confidence" 
+                stroke="#059669" 
+                dot={false}
+                name="Detection Confidence"
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* Stats Grid */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow-lg p-4">
+          <h3 className="text-lg font-semibold text-gray-800">{totalLabel}</h3>
+          <p className="text-3xl font-bold text-blue-600">{analytics.totalDetections}</p>
+        </div>
+
+        {Object.entries(analytics.detectionsByType).map(([label, count]) => (
+          <div key={label} className="bg-white rounded-lg shadow-lg p-4">
+            <h3 className="text-lg font-semibold text-gray-800">{label.replace('_', ' ')}</h3>
+            <p className="text-3xl font-bold text-green-600">{count}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Tracks */}
+      <div className="bg-white rounded-lg shadow-lg p-4">
+        <h2 className="text-xl font-bold text-gray-800 mb-4">Tracks</h2>
+        {tracks.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-gray-500 border-b">
+                <tr>
+                  <th className="py-2 pr-4">Track</th>
+                  <th className="py-2 pr-4">Label</th>
+                  <th className="py-2 pr-4">First Seen</th>
+                  <th className="py-2 pr-4">Entry → Exit</th>
+                  <th className="py-2 pr-4">Zones</th>
+                  <th className="py-2 pr-4">Dwell</th>
+                  <th className="py-2 pr-4">Speed</th>
+                  <th className="py-2 pr-4">Peak Confidence</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tracks.map(track => (
+                  <tr
+                    key={`${track.firstSeen}-${track.id}`}
+                    className={`border-b last:border-0 ${onTrackSelect ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                    onClick={onTrackSelect ? () => onTrackSelect(track) : undefined}
+                  >
+                    <td className="py-2 pr-4 font-medium">
+                      #{track.id}
+                      {track.exitEdge === null && (
+                        <span className="ml-2 px-2 py-0.5 rounded bg-green-100 text-green-700 text-xs">active</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">{track.label.replace('_', ' ')}</td>
+                    <td className="py-2 pr-4">{formatTime(track.firstSeen)}</td>
+                    <td className="py-2 pr-4">{track.entryEdge} → {track.exitEdge ?? '…'}</td>
+                    <td className="py-2 pr-4">{track.zoneIds.map(zoneName).join(', ') || '—'}</td>
+                    <td className="py-2 pr-4">{formatDuration(track.dwellTime)}</td>
+                    <td className="py-2 pr-4">{Math.round(track.speed)} px/s</td>
+                    <td className="py-2 pr-4">{Math.round(track.peakConfidence * 100)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-gray-500">No tracks yet.</p>
+        )}
+      </div>
+
+      {/* Hourly Activity */}
+      <div className="bg-white rounded-lg shadow-lg p-4">
+        <h2 className="text-xl font-bold text-gray-800 mb-4">Hourly Activity</h2>
+        <div className="grid grid-cols-12 gap-1">
+          {analytics.hourlyActivity.map((count, hour) => (
+            <div 
+              key={hour}
+              className="aspect-square rounded"
+              style={{
+                backgroundColor: `rgba(37, 99, 235, ${Math.min(count / 10, 1)})`,
+              }}
+              title={`${hour}:00 - ${count} ${unit}`}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisView;
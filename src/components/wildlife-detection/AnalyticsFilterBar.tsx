@@ -0,0 +1,151 @@
+'use client';
+
+import React from 'react';
+import { RefreshCw } from 'lucide-react';
+import { addDays, lastDays, type AnalyticsFilter, type DateRange, type Granularity } from '@/lib/analytics';
+import type { Deployment } from '@/lib/deployments';
+
+interface AnalyticsFilterBarProps {
+  range: DateRange;
+  granularity: Granularity;
+  filter: AnalyticsFilter;
+  cameraIds: string[];
+  deployments: Deployment[];
+  loading: boolean;
+  onRangeChange: (range: DateRange) => void;
+  onGranularityChange: (granularity: Granularity) => void;
+  onFilterChange: (filter: AnalyticsFilter) => void;
+  onRefresh: () => void;
+}
+
+const PRESETS = [7, 30, 90, 365];
+
+const toDateInput = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+const AnalyticsFilterBar = ({
+  range,
+  granularity,
+  filter,
+  cameraIds,
+  deployments,
+  loading,
+  onRangeChange,
+  onGranularityChange,
+  onFilterChange,
+  onRefresh
+}: AnalyticsFilterBarProps) => {
+  // The picker shows the last day of the range; the range itself ends at the start of the next
+  const lastDay = addDays(range.to, -1);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 flex flex-wrap items-end gap-4 text-sm">
+      <label className="flex flex-col gap-1 text-gray-600">
+        From
+        <input
+          type="date"
+          value={toDateInput(range.from)}
+          max={toDateInput(lastDay)}
+          onChange={(event) => event.target.value && onRangeChange({ ...range, from: fromDateInput(event.target.value) })}
+          className="px-2 py-1 rounded border border-gray-300"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-600">
+        To
+        <input
+          type="date"
+          value={toDateInput(lastDay)}
+          min={toDateInput(range.from)}
+          onChange={(event) => event.target.value && onRangeChange({
+            ...range,
+            to: addDays(fromDateInput(event.target.value), 1)
+          })}
+          className="px-2 py-1 rounded border border-gray-300"
+        />
+      </label>
+      <div className="flex gap-1">
+        {PRESETS.map(days => (
+          <button
+            key={days}
+            onClick={() => onRangeChange(lastDays(days))}
+            className="px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300"
+          >
+            {days}d
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-1">
+        {(['day', 'week'] as Granularity[]).map(option => (
+          <button
+            key={option}
+            onClick={() => onGranularityChange(option)}
+            className={`px-3 py-1 rounded-lg capitalize ${
+              granularity === option ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            Per {option}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex flex-col gap-1 text-gray-600">
+        Camera
+        <select
+          value={filter.cameraId ?? ''}
+          onChange={(event) => onFilterChange({ ...filter, cameraId: event.target.value || null })}
+          className="px-2 py-1 rounded border border-gray-300"
+        >
+          <option value="">All cameras</option>
+          {cameraIds.map(id => (
+            <option key={id} value={id}>{id}</option>
+          ))}
+        </select>
+      </label>
+      {deployments.length > 0 && (
+        <label className="flex flex-col gap-1 text-gray-600">
+          Deployment
+          <select
+            value={filter.deploymentId ?? ''}
+            onChange={(event) => onFilterChange({ ...filter, deploymentId: event.target.value || null })}
+            className="px-2 py-1 rounded border border-gray-300"
+          >
+            <option value="">All deployments</option>
+            {deployments.map(deployment => (
+              <option key={deployment.id} value={deployment.id}>{deployment.name}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      <label className="flex flex-col gap-1 text-gray-600">
+        Min confidence: {Math.round(filter.minConfidence * 100)}%
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={filter.minConfidence}
+          onChange={(event) => onFilterChange({ ...filter, minConfidence: Number(event.target.value) })}
+        />
+      </label>
+
+      <button
+        onClick={onRefresh}
+        disabled={loading}
+        title="Reload from storage"
+        className="ml-auto p-1.5 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+      >
+        <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+      </button>
+    </div>
+  );
+};
+
+export default AnalyticsFilterBar;
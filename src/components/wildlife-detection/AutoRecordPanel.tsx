@@ -0,0 +1,74 @@
+'use client';
+
+import React from 'react';
+import type { AutoRecordSettings } from '@/lib/recording';
+
+interface AutoRecordPanelProps {
+  settings: AutoRecordSettings;
+  capturing: boolean;
+  onChange: (settings: AutoRecordSettings) => void;
+}
+
+const AutoRecordPanel = ({ settings, capturing, onChange }: AutoRecordPanelProps) => {
+  const update = (changes: Partial<AutoRecordSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 font-semibold text-gray-800">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(event) => update({ enabled: event.target.checked })}
+          />
+          Auto Record
+        </label>
+        {settings.enabled && (
+          <span className={`px-2 py-0.5 rounded text-xs ${
+            capturing ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-600'
+          }`}>
+            {capturing ? 'Capturing clip' : 'Armed'}
+          </span>
+        )}
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        <label className="flex flex-col gap-1 text-gray-600">
+          Min confidence
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.confidenceThreshold}
+            onChange={(event) => update({ confidenceThreshold: Number(event.target.value) })}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-600">
+          Pre-roll (s)
+          <input
+            type="number"
+            min={0}
+            max={60}
+            value={settings.preRollSeconds}
+            onChange={(event) => update({ preRollSeconds: Number(event.target.value) })}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-600">
+          Post-roll (s)
+          <input
+            type="number"
+            min={1}
+            max={300}
+            value={settings.postRollSeconds}
+            onChange={(event) => update({ postRollSeconds: Number(event.target.value) })}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default AutoRecordPanel;
@@ -0,0 +1,71 @@
+'use client';
+
+import React from 'react';
+import type { CameraAnalytics } from '@/lib/analytics';
+
+interface CameraComparisonProps {
+  // Over the chosen date range and confidence filter
+  analytics: CameraAnalytics;
+  // Running totals since the first detection, kept even after retention removes the events
+  totals: CameraAnalytics;
+  // Cameras to list even before they have seen anything
+  cameraIds: string[];
+  // Null shows all cameras combined
+  selected: string | null;
+  onSelect: (cameraId: string | null) => void;
+}
+
+const topEntry = (counts: Record<string, number>) =>
+  Object.entries(counts).sort((a, b) => b[1] - a[1])[0] ?? null;
+
+const CameraComparison = ({ analytics, totals, cameraIds, selected, onSelect }: CameraComparisonProps) => {
+  const ids = Array.from(new Set([...cameraIds, ...Object.keys(analytics), ...Object.keys(totals)])).sort();
+  const most = Math.max(1, ...ids.map(id => analytics[id]?.totalDetections ?? 0));
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <h2 className="text-xl font-bold text-gray-800 mb-4">Cameras</h2>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="py-2 pr-4">Camera</th>
+            <th className="py-2 pr-4">Events</th>
+            <th className="py-2 pr-4">All time</th>
+            <th className="py-2 pr-4">Most seen</th>
+            <th className="py-2 pr-4">Busiest hour</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ids.map(id => {
+            const data = analytics[id];
+            const total = data?.totalDetections ?? 0;
+            const label = data ? topEntry(data.detectionsByType) : null;
+            const hour = data && total > 0 ? data.hourlyActivity.indexOf(Math.max(...data.hourlyActivity)) : null;
+            return (
+              <tr
+                key={id}
+                onClick={() => onSelect(selected === id ? null : id)}
+                className={`border-b last:border-0 cursor-pointer ${selected === id ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+              >
+                <td className="py-2 pr-4 font-medium text-gray-800">{id}</td>
+                <td className="py-2 pr-4">
+                  <div className="flex items-center gap-2">
+                    <div className="w-24 h-2 bg-gray-100 rounded">
+                      <div className="h-2 bg-blue-500 rounded" style={{ width: `${(total / most) * 100}%` }} />
+                    </div>
+                    {total}
+                  </div>
+                </td>
+                <td className="py-2 pr-4 text-gray-500">{totals[id]?.totalDetections ?? 0}</td>
+                <td className="py-2 pr-4">{label ? `${label[0].replace('_', ' ')} (${label[1]})` : '—'}</td>
+                <td className="py-2 pr-4">{hour === null ? '—' : `${hour}:00`}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default CameraComparison;
@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createFrameAnalyzer, type AnalysisStats, type FrameAnalyzer } from '@/lib/analysis';
+import type { Classifier, ClassifierSettings } from '@/lib/classification';
+import { createTracker, type Detection, type MotionActivity, type Track, type Tracker } from '@/lib/detection';
+import { POWER_PROFILES, applyPowerMode, type PowerMode } from '@/lib/power';
+import { activeProfileSettings } from '@/lib/settings';
+import { openVideoSource, setFrameRate, type VideoSource, type VideoSourceSpec } from '@/lib/sources';
+import { loadProfiles, loadZones } from '@/lib/storage';
+import DetectionOverlay from './DetectionOverlay';
+
+interface CameraTileProps {
+  source: VideoSourceSpec;
+  // False while the system is switched off
+  active: boolean;
+  powerMode: PowerMode;
+  classifier: Classifier | null;
+  classifierSettings: ClassifierSettings;
+  // Only detections that passed the camera's confidence threshold are reported, with the video they came from
+  onDetection: (detection: Detection, cameraId: string, video: HTMLVideoElement | null) => void;
+  onTrackFinished: (track: Track, cameraId: string) => void;
+  // Active motion cells of each analysed frame, for the camera's heatmap
+  onActivity: (activity: MotionActivity, timestamp: number, cameraId: string) => void;
+}
+
+// One camera of the multi-view grid with its own source, analyzer, tracker and overlay. Zones and
+// settings come from the camera's saved configuration, so they are edited in the single view.
+const CameraTile = ({
+  source,
+  active,
+  powerMode,
+  classifier,
+  classifierSettings,
+  onDetection,
+  onTrackFinished,
+  onActivity
+}: CameraTileProps) => {
+  const [settings] = useState(() => activeProfileSettings(loadProfiles(source.id)));
+  const [zones] = useState(() => loadZones(source.id));
+  const [overlayDetection, setOverlayDetection] = useState<Detection | null>(null);
+  const [latest, setLatest] = useState<Detection | null>(null);
+  const [tracks, setTracks] = useState<Track[]>([]);
+  const [stats, setStats] = useState<AnalysisStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [connected, setConnected] = useState(false);
+
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const sourceRef = useRef<VideoSource | null>(null);
+  const analyzerRef = useRef<FrameAnalyzer | null>(null);
+  const trackerRef = useRef<Tracker>(createTracker());
+  // The analyzer outlives renders, so it reaches the current callbacks through these
+  const resultRef = useRef<(detection: Detection | null, timestamp: number) => void>(() => undefined);
+  const trackFinishedRef = useRef(onTrackFinished);
+  const activityRef = useRef(onActivity);
+
+  resultRef.current = (detection, timestamp) => {
+    const outlined = detection && detection.confidence > settings.overlayThreshold ? detection : null;
+    setOverlayDetection(prev => (prev === null && outlined === null ? prev : outlined));
+
+    const confident = detection && detection.confidence > settings.confidenceThreshold ? detection : null;
+    if (confident) {
+      setLatest(confident);
+      onDetection(confident, source.id, videoRef.current);
+    }
+
+    const { active: current, finished } = trackerRef.current.update(confident, timestamp);
+    setTracks(prev => (prev.length === 0 && current.length === 0 ? prev : current));
+    finished.forEach(track => onTrackFinished(track, source.id));
+  };
+  trackFinishedRef.current = onTrackFinished;
+  activityRef.current = onActivity;
+  const powered = applyPowerMode(settings, powerMode);
+
+  useEffect(() => {
+    if (!active) return;
+    let cancelled = false;
+    let opened: VideoSource | null = null;
+    const analyzer = createFrameAnalyzer({
+      settings: powered.analysis,
+      onResult: (detection, timestamp) => resultRef.current(detection, timestamp),
+      onStats: setStats,
+      onActivity: (activity, timestamp) => activityRef.current(activity, timestamp, source.id)
+    });
+    analyzer.configure(powered.detector, zones);
+    analyzerRef.current = analyzer;
+    setError(null);
+
+    openVideoSource(source)
+      .then(videoSource => {
+        if (cancelled) {
+          videoSource.close();
+          return;
+        }
+        opened = videoSource;
+        sourceRef.current = videoSource;
+        setFrameRate(videoSource, POWER_PROFILES[powerMode].frameRate);
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = videoSource.stream;
+        video.onloadedmetadata = () => {
+          analyzer.start(video);
+          setConnected(true);
+        };
+      })
+      .catch(openError => {
+        console.error(`Video source ${source.id} failed:`, openError);
+        if (!cancelled) setError((openError as Error).message);
+      });
+
+    return () => {
+      cancelled = true;
+      analyzer.dispose();
+      analyzerRef.current = null;
+      opened?.close();
+      sourceRef.current = null;
+      trackerRef.current.flush().forEach(track => trackFinishedRef.current(track, source.id));
+      setConnected(false);
+      setOverlayDetection(null);
+      setTracks([]);
+    };
+  }, [active, source.id]);
+
+  // The tile opened with the mode current at the time; later switches are applied in place
+  useEffect(() => {
+    analyzerRef.current?.configure(powered.detector, zones);
+    analyzerRef.current?.updateSettings(powered.analysis);
+    if (sourceRef.current) setFrameRate(sourceRef.current, POWER_PROFILES[powerMode].frameRate);
+  }, [powerMode]);
+
+  useEffect(() => {
+    analyzerRef.current?.setClassifier(classifier, classifierSettings);
+  }, [classifier, classifierSettings, active, source.id]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-3 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-semibold text-gray-800 truncate" title={source.label}>{source.label}</span>
+        <span className="text-gray-400">{source.id}</span>
+      </div>
+      <div className="relative aspect-video bg-gray-900 rounded-lg overflow-hidden">
+        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+        <DetectionOverlay detection={overlayDetection} tracks={tracks} />
+        {!connected && (
+          <div className="absolute inset-0 flex items-center justify-center text-white text-sm p-4 text-center">
+            {error ?? (active ? 'Connecting...' : 'System inactive')}
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <span>
+          {tracks.length > 0
+            ? tracks.map(track => `#${track.id} ${track.label.replace('_', ' ')}`).join(' · ')
+            : latest
+              ? `Last: ${latest.label.replace('_', ' ')} at ${new Date(latest.timestamp).toLocaleTimeString()}`
+              : 'No animals yet'}
+        </span>
+        {stats && <span className="text-gray-400">{stats.fps.toFixed(1)} fps</span>}
+      </div>
+    </div>
+  );
+};
+
+export default CameraTile;
@@ -0,0 +1,108 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  createOnnxClassifier,
+  parseLabelMap,
+  type Classifier,
+  type ClassifierSettings
+} from '@/lib/classification';
+
+interface ClassifierPanelProps {
+  classifier: Classifier | null;
+  settings: ClassifierSettings;
+  onLoad: (classifier: Classifier | null) => void;
+  onSettingsChange: (settings: ClassifierSettings) => void;
+}
+
+const ClassifierPanel = ({ classifier, settings, onLoad, onSettingsChange }: ClassifierPanelProps) => {
+  const [modelFile, setModelFile] = useState<File | null>(null);
+  const [labelFile, setLabelFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadModel = async () => {
+    if (!modelFile || !labelFile) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const labels = parseLabelMap(await labelFile.text());
+      if (labels.length === 0) throw new Error('The label map is empty');
+      onLoad(await createOnnxClassifier({
+        model: await modelFile.arrayBuffer(),
+        labels,
+        name: modelFile.name
+      }));
+    } catch (loadError) {
+      console.error('Failed to load classifier:', loadError);
+      setError((loadError as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-800">Species Classifier</h3>
+        <span className={`px-2 py-0.5 rounded text-xs ${
+          classifier ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+        }`}>
+          {classifier ? classifier.name : 'Motion heuristic'}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1 text-gray-600">
+          ONNX model
+          <input
+            type="file"
+            accept=".onnx"
+            onChange={(event) => setModelFile(event.target.files?.[0] ?? null)}
+            className="text-xs"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-600">
+          Label map (.json or .txt)
+          <input
+            type="file"
+            accept=".json,.txt"
+            onChange={(event) => setLabelFile(event.target.files?.[0] ?? null)}
+            className="text-xs"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-600">
+          Min label score
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.minScore}
+            onChange={(event) => onSettingsChange({ ...settings, minScore: Number(event.target.value) })}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+        <div className="flex items-end gap-2">
+          <button
+            onClick={loadModel}
+            disabled={!modelFile || !labelFile || loading}
+            className="px-3 py-1 rounded-lg font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+          >
+            {loading ? 'Loading…' : 'Load Model'}
+          </button>
+          {classifier && (
+            <button
+              onClick={() => onLoad(null)}
+              className="px-3 py-1 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+            >
+              Use Heuristic
+            </button>
+          )}
+        </div>
+      </div>
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ClassifierPanel;
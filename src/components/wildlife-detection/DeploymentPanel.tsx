@@ -0,0 +1,253 @@
+'use client';
+
+import React from 'react';
+import { MapPin, Plus } from 'lucide-react';
+import {
+  createDeployment,
+  isDeploymentOpen,
+  type Deployment,
+  type DeploymentSettings
+} from '@/lib/deployments';
+import type { VideoSourceSpec } from '@/lib/sources';
+
+interface DeploymentPanelProps {
+  settings: DeploymentSettings;
+  sources: VideoSourceSpec[];
+  // The source the live view is showing
+  activeSourceId: string | null;
+  onChange: (settings: DeploymentSettings) => void;
+}
+
+const toDateTimeInput = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// datetime-local values have no zone, which Date reads as local time
+const fromDateTimeInput = (value: string) => new Date(value).getTime();
+
+// Empty number fields are stored as unknown rather than zero
+const toNumber = (value: string) => (value === '' ? null : Number(value));
+
+const DeploymentPanel = ({ settings, sources, activeSourceId, onChange }: DeploymentPanelProps) => {
+  const { deployments, assignments } = settings;
+
+  const updateDeployment = (id: string, changes: Partial<Deployment>) => {
+    onChange({ ...settings, deployments: deployments.map(item => (item.id === id ? { ...item, ...changes } : item)) });
+  };
+
+  const assign = (sourceId: string, deploymentId: string) => {
+    const next = { ...assignments };
+    if (deploymentId) next[sourceId] = deploymentId;
+    else delete next[sourceId];
+    onChange({ ...settings, assignments: next });
+  };
+
+  // Records already stamped keep the id; only new ones stop carrying it
+  const remove = (id: string) => {
+    onChange({
+      deployments: deployments.filter(item => item.id !== id),
+      assignments: Object.keys(assignments).reduce<Record<string, string>>((kept, sourceId) => (
+        assignments[sourceId] === id ? kept : { ...kept, [sourceId]: assignments[sourceId] }
+      ), {})
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 items-start">
+      <div className="bg-white rounded-lg shadow-lg p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-800">Deployments</h2>
+          <button
+            onClick={() => onChange({
+              ...settings,
+              deployments: [...deployments, createDeployment(`Site ${deployments.length + 1}`)]
+            })}
+            className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-medium bg-blue-500 text-white hover:bg-blue-600"
+          >
+            <Plus className="w-4 h-4" />
+            Add deployment
+          </button>
+        </div>
+
+        {deployments.length === 0 && (
+          <p className="text-sm text-gray-500">
+            No deployments yet. Add one for each place a camera is set up, then assign the camera to it.
+          </p>
+        )}
+
+        <ul className="space-y-4">
+          {deployments.map(deployment => (
+            <li key={deployment.id} className="p-3 rounded-lg bg-gray-50 space-y-3 text-sm">
+              <div className="flex items-center gap-2">
+                <MapPin className="w-4 h-4 text-gray-500" />
+                <input
+                  value={deployment.name}
+                  onChange={(event) => updateDeployment(deployment.id, { name: event.target.value })}
+                  className="flex-1 px-2 py-1 rounded border border-gray-300 font-medium"
+                />
+                <span className={`px-2 py-0.5 rounded text-xs ${
+                  isDeploymentOpen(deployment, Date.now()) ? 'bg-green-100 text-green-700' : 'bg-gray-200 text-gray-600'
+                }`}>
+                  {isDeploymentOpen(deployment, Date.now()) ? 'In the field' : 'Not running'}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="flex flex-col gap-1 text-gray-600">
+                  Latitude
+                  <input
+                    type="number"
+                    min={-90}
+                    max={90}
+                    step={0.00001}
+                    value={deployment.latitude ?? ''}
+                    onChange={(event) => updateDeployment(deployment.id, { latitude: toNumber(event.target.value) })}
+                    className="px-2 py-1 rounded border border-gray-300"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-600">
+                  Longitude
+                  <input
+                    type="number"
+                    min={-180}
+                    max={180}
+                    step={0.00001}
+                    value={deployment.longitude ?? ''}
+                    onChange={(event) => updateDeployment(deployment.id, { longitude: toNumber(event.target.value) })}
+                    className="px-2 py-1 rounded border border-gray-300"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-600">
+                  Camera height (m)
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.05}
+                    value={deployment.cameraHeight ?? ''}
+                    onChange={(event) => updateDeployment(deployment.id, { cameraHeight: toNumber(event.target.value) })}
+                    className="px-2 py-1 rounded border border-gray-300"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-600">
+                  Facing (° from north)
+                  <input
+                    type="number"
+                    min={0}
+                    max={359}
+                    value={deployment.cameraHeading ?? ''}
+                    onChange={(event) => updateDeployment(deployment.id, { cameraHeading: toNumber(event.target.value) })}
+                    className="px-2 py-1 rounded border border-gray-300"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-600">
+                  Start
+                  <input
+                    type="datetime-local"
+                    value={toDateTimeInput(deployment.start)}
+                    onChange={(event) => event.target.value &&
+                      updateDeployment(deployment.id, { start: fromDateTimeInput(event.target.value) })}
+                    className="px-2 py-1 rounded border border-gray-300"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-600">
+                  End (empty while in the field)
+                  <input
+                    type="datetime-local"
+                    value={deployment.end === null ? '' : toDateTimeInput(deployment.end)}
+                    min={toDateTimeInput(deployment.start)}
+                    onChange={(event) => updateDeployment(deployment.id, {
+                      end: event.target.value ? fromDateTimeInput(event.target.value) : null
+                    })}
+                    className="px-2 py-1 rounded border border-gray-300"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-600">
+                  Habitat
+                  <input
+                    value={deployment.habitat}
+                    placeholder="e.g. broadleaf woodland edge"
+                    onChange={(event) => updateDeployment(deployment.id, { habitat: event.target.value })}
+                    className="px-2 py-1 rounded border border-gray-300"
+                  />
+                </label>
+                <label className="flex items-center gap-2 self-end pb-1 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={deployment.baitUse}
+                    onChange={(event) => updateDeployment(deployment.id, { baitUse: event.target.checked })}
+                  />
+                  Baited
+                </label>
+              </div>
+
+              <label className="flex flex-col gap-1 text-gray-600">
+                Notes
+                <textarea
+                  value={deployment.notes}
+                  rows={2}
+                  onChange={(event) => updateDeployment(deployment.id, { notes: event.target.value })}
+                  className="px-2 py-1 rounded border border-gray-300"
+                />
+              </label>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={() => remove(deployment.id)}
+                  className="px-2 py-1 rounded text-red-600 hover:bg-red-50"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-4 space-y-4">
+        <h2 className="text-xl font-bold text-gray-800">Cameras</h2>
+        <p className="text-sm text-gray-500">
+          Detections, events, clips and snapshots are stamped with their camera&apos;s deployment as they are recorded,
+          as long as they fall between its start and end.
+        </p>
+        {sources.length > 0 ? (
+          <ul className="space-y-2 text-sm">
+            {sources.map(source => {
+              const assigned = deployments.find(item => item.id === assignments[source.id]) ?? null;
+              return (
+                <li
+                  key={source.id}
+                  className={`flex items-center gap-3 p-2 rounded-lg ${source.id === activeSourceId ? 'bg-blue-50' : ''}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-800 truncate">{source.label}</p>
+                    <p className="text-gray-500">
+                      {source.id === activeSourceId ? 'Live view' : source.kind}
+                      {assigned && !isDeploymentOpen(assigned, Date.now()) && ' · deployment is outside its dates'}
+                    </p>
+                  </div>
+                  <select
+                    value={assigned?.id ?? ''}
+                    onChange={(event) => assign(source.id, event.target.value)}
+                    className="px-2 py-1 rounded border border-gray-300"
+                  >
+                    <option value="">No deployment</option>
+                    {deployments.map(deployment => (
+                      <option key={deployment.id} value={deployment.id}>{deployment.name}</option>
+                    ))}
+                  </select>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No cameras found.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeploymentPanel;
@@ -0,0 +1,74 @@
+'use client';
+
+import React from 'react';
+import type { DeploymentSummary } from '@/lib/deployments';
+
+interface DeploymentSummaryPanelProps {
+  // Over the chosen date range, camera and confidence filter
+  summaries: DeploymentSummary[];
+  // Events in the same selection recorded under no deployment
+  unassigned: number;
+  // Null shows all deployments combined
+  selected: string | null;
+  onSelect: (deploymentId: string | null) => void;
+}
+
+const formatCoordinates = ({ latitude, longitude }: DeploymentSummary['deployment']) =>
+  (latitude === null || longitude === null ? '—' : `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`);
+
+const DeploymentSummaryPanel = ({ summaries, unassigned, selected, onSelect }: DeploymentSummaryPanelProps) => (
+  <div className="bg-white rounded-lg shadow-lg p-4">
+    <h2 className="text-xl font-bold text-gray-800 mb-4">Deployments</h2>
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-500 border-b">
+          <th className="py-2 pr-4">Deployment</th>
+          <th className="py-2 pr-4">Location</th>
+          <th className="py-2 pr-4">Camera days</th>
+          <th className="py-2 pr-4">Events</th>
+          <th className="py-2 pr-4">Per 100 days</th>
+          <th className="py-2 pr-4">Detected</th>
+          <th className="py-2 pr-4">Last event</th>
+        </tr>
+      </thead>
+      <tbody>
+        {summaries.map(({ deployment, cameraDays, events, eventRate, labels, lastEvent }) => (
+          <tr
+            key={deployment.id}
+            onClick={() => onSelect(selected === deployment.id ? null : deployment.id)}
+            className={`border-b last:border-0 cursor-pointer ${
+              selected === deployment.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+            }`}
+          >
+            <td className="py-2 pr-4">
+              <p className="font-medium text-gray-800">{deployment.name}</p>
+              <p className="text-gray-500">
+                {[deployment.habitat, deployment.baitUse ? 'baited' : null].filter(Boolean).join(' · ') || '—'}
+              </p>
+            </td>
+            <td className="py-2 pr-4 text-gray-600">{formatCoordinates(deployment)}</td>
+            <td className="py-2 pr-4">{cameraDays.toFixed(1)}</td>
+            <td className="py-2 pr-4">{events}</td>
+            <td className="py-2 pr-4">{eventRate === null ? '—' : eventRate.toFixed(1)}</td>
+            <td className="py-2 pr-4">
+              {Object.keys(labels).length > 0
+                ? Object.entries(labels)
+                  .sort((a, b) => b[1] - a[1])
+                  .map(([label, count]) => `${label.replace('_', ' ')} (${count})`)
+                  .join(', ')
+                : '—'}
+            </td>
+            <td className="py-2 pr-4 text-gray-500">{lastEvent === null ? '—' : new Date(lastEvent).toLocaleString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    {unassigned > 0 && (
+      <p className="mt-3 text-sm text-gray-500">
+        {unassigned} {unassigned === 1 ? 'event was' : 'events were'} recorded without a deployment.
+      </p>
+    )}
+  </div>
+);
+
+export default DeploymentSummaryPanel;
@@ -0,0 +1,75 @@
+'use client';
+
+import React from 'react';
+import type { Detection, Track } from '@/lib/detection';
+
+interface DetectionOverlayProps {
+  detection: Detection | null;
+  tracks: Track[];
+  // Outlines the detection in grey, for motion found but below the overlay threshold
+  dimmed?: boolean;
+}
+
+const DetectionOverlay = ({ detection, tracks, dimmed = false }: DetectionOverlayProps) => {
+  const frame = detection
+    ? { width: detection.frameWidth, height: detection.frameHeight }
+    : tracks.length > 0
+      ? { width: tracks[0].frameWidth, height: tracks[0].frameHeight }
+      : null;
+  if (!frame) return null;
+
+  const boxColor = dimmed ? '#9ca3af' : '#ef4444';
+
+  return (
+    // Same aspect handling as the video's object-cover so boxes stay aligned with the picture
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${frame.width} ${frame.height}`}
+      preserveAspectRatio="xMidYMid slice"
+    >
+      {tracks.map(track => (
+        <g key={track.id}>
+          <polyline
+            points={track.path.map(point => `${point.x},${point.y}`).join(' ')}
+            fill="none"
+            stroke="#facc15"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+          <text
+            x={track.box.x}
+            y={Math.max(track.box.y - 6, 16)}
+            fill="#facc15"
+            fontSize={Math.max(14, frame.width / 60)}
+            fontWeight="bold"
+          >
+            #{track.id}
+          </text>
+        </g>
+      ))}
+      {detection?.boxes.map((box, index) => (
+        <g key={index}>
+          <rect
+            x={box.x}
+            y={box.y}
+            width={box.width}
+            height={box.height}
+            fill="none"
+            stroke={boxColor}
+            strokeWidth={3}
+            strokeDasharray={dimmed ? '6 4' : undefined}
+            vectorEffect="non-scaling-stroke"
+          />
+          <circle
+            cx={box.centroid.x}
+            cy={box.centroid.y}
+            r={Math.max(3, frame.width / 240)}
+            fill={boxColor}
+          />
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default DetectionOverlay;
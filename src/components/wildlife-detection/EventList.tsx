@@ -0,0 +1,61 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { DetectionEvent } from '@/lib/events';
+import { formatDuration } from '@/lib/format';
+
+interface EventListProps {
+  // Newest first
+  events: DetectionEvent[];
+}
+
+const EventList = ({ events }: EventListProps) => {
+  // Object URLs of the thumbnails on screen, by event id
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const urls = events.reduce<Record<string, string>>(
+      (byId, event) => (event.thumbnail ? { ...byId, [event.id]: URL.createObjectURL(event.thumbnail) } : byId),
+      {}
+    );
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [events.map(event => event.id).join()]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <h2 className="text-xl font-bold text-gray-800 mb-4">Events</h2>
+      {events.length > 0 ? (
+        <ul className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+          {events.map(event => (
+            <li key={event.id} className="flex gap-3 p-2 rounded-lg bg-gray-50 text-sm">
+              <div className="w-28 aspect-video shrink-0 rounded bg-gray-200 overflow-hidden">
+                {thumbnails[event.id] && (
+                  <img
+                    src={thumbnails[event.id]}
+                    alt={`Best frame of ${event.label}`}
+                    className="w-full h-full object-cover"
+                  />
+                )}
+              </div>
+              <div className="min-w-0">
+                <p className="font-medium text-gray-800 truncate">{event.label.replace('_', ' ')}</p>
+                <p className="text-gray-500">
+                  {new Date(event.start).toLocaleString()} · {formatDuration(event.end - event.start)}
+                </p>
+                <p className="text-gray-500">
+                  Peak {Math.round(event.peakConfidence * 100)}% · mean {Math.round(event.meanConfidence * 100)}%
+                  {' '}· {event.frames} frames · {event.cameraId}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-500">No events yet.</p>
+      )}
+    </div>
+  );
+};
+
+export default EventList;
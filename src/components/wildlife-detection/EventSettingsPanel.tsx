@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import type { EventSettings } from '@/lib/events';
+
+interface EventSettingsPanelProps {
+  settings: EventSettings;
+  onChange: (settings: EventSettings) => void;
+}
+
+const EventSettingsPanel = ({ settings, onChange }: EventSettingsPanelProps) => (
+  <div className="space-y-3 text-sm">
+    <h3 className="font-semibold text-gray-800">Events</h3>
+    <div className="grid grid-cols-2 gap-3">
+      <label className="flex flex-col gap-1 text-gray-600">
+        Merge detections within (s)
+        <input
+          type="number"
+          min={0}
+          max={600}
+          step={0.5}
+          value={settings.gapTolerance / 1000}
+          onChange={(event) => onChange({ ...settings, gapTolerance: Math.max(0, Number(event.target.value)) * 1000 })}
+          className="px-2 py-1 rounded border border-gray-300"
+        />
+      </label>
+      <label className="flex flex-col gap-1 text-gray-600">
+        Drop events shorter than (s)
+        <input
+          type="number"
+          min={0}
+          max={600}
+          step={0.5}
+          value={settings.minDuration / 1000}
+          onChange={(event) => onChange({ ...settings, minDuration: Math.max(0, Number(event.target.value)) * 1000 })}
+          className="px-2 py-1 rounded border border-gray-300"
+        />
+      </label>
+    </div>
+    <p className="text-gray-500">
+      Consecutive detections on a camera count as one event until it has been quiet for the merge time.
+    </p>
+  </div>
+);
+
+export default EventSettingsPanel;
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  buildCamtrapPackage,
+  detectionsToCsv,
+  detectionsToJson,
+  downloadBlob,
+  loadExportData,
+  type ExportFormat,
+  type ExportQuery
+} from '@/lib/export';
+import type { DetectionStore } from '@/lib/storage';
+
+interface ExportPanelProps {
+  store: DetectionStore | null;
+  cameraIds: string[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const toDateInput = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Date inputs are local calendar days; the range covers the whole of both end days
+const parseDateInput = (value: string, endOfDay: boolean) => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime()
+    : new Date(year, month - 1, day).getTime();
+};
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'camtrap-dp', label: 'Camtrap DP (.zip)' },
+  { format: 'csv', label: 'Detections CSV' },
+  { format: 'json', label: 'Detections JSON' }
+];
+
+const ExportPanel = ({ store, cameraIds }: ExportPanelProps) => {
+  const [from, setFrom] = useState(() => toDateInput(Date.now() - 7 * DAY));
+  const [to, setTo] = useState(() => toDateInput(Date.now()));
+  const [cameraId, setCameraId] = useState('');
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const runExport = async (format: ExportFormat) => {
+    if (!store) return;
+    setExporting(format);
+    setMessage(null);
+
+    try {
+      const query: ExportQuery = {
+        from: parseDateInput(from, false),
+        to: parseDateInput(to, true),
+        cameraId: cameraId || undefined
+      };
+      const data = await loadExportData(store, query);
+      const suffix = `${cameraId || 'all-cameras'}-${from || 'start'}-to-${to || 'now'}`;
+
+      if (format === 'camtrap-dp') {
+        downloadBlob(await buildCamtrapPackage(data, query), `camtrap-dp-${suffix}.zip`);
+        setMessage(`Exported ${data.tracks.length} events and ${data.media.length} media files.`);
+      } else {
+        const blob = format === 'csv'
+          ? new Blob([detectionsToCsv(data.detections)], { type: 'text/csv' })
+          : new Blob([detectionsToJson(data.detections)], { type: 'application/json' });
+        downloadBlob(blob, `detections-${suffix}.${format}`);
+        setMessage(`Exported ${data.detections.length} detections.`);
+      }
+    } catch (error) {
+      console.error('Export failed:', error);
+      setMessage(`Export failed: ${(error as Error).message}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <h2 className="text-xl font-bold text-gray-800 mb-4">Export</h2>
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <label className="flex flex-col gap-1 text-gray-600">
+          From
+          <input
+            type="date"
+            value={from}
+            onChange={(event) => setFrom(event.target.value)}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-600">
+          To
+          <input
+            type="date"
+            value={to}
+            onChange={(event) => setTo(event.target.value)}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-600">
+          Camera
+          <input
+            type="text"
+            list="export-cameras"
+            placeholder="All cameras"
+            value={cameraId}
+            onChange={(event) => setCameraId(event.target.value)}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+          <datalist id="export-cameras">
+            {cameraIds.map(id => <option key={id} value={id} />)}
+          </datalist>
+        </label>
+        {FORMATS.map(({ format, label }) => (
+          <button
+            key={format}
+            onClick={() => runExport(format)}
+            disabled={!store || exporting !== null}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            {exporting === format ? 'Exporting…' : label}
+          </button>
+        ))}
+      </div>
+      {!store && <p className="mt-3 text-sm text-gray-500">Local storage unavailable; there is nothing to export.</p>}
+      {message && <p className="mt-3 text-sm text-gray-600">{message}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
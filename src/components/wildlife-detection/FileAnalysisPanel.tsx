@@ -0,0 +1,266 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, X, Play } from 'lucide-react';
+import type { DetectorConfig } from '@/lib/detection';
+import { formatOffset } from '@/lib/format';
+import { analyzeVideoFile, type FileAnalysisResult, type FileTrack } from '@/lib/offline';
+import AnalysisView from './AnalysisView';
+
+type JobStatus = 'queued' | 'running' | 'done' | 'cancelled' | 'failed';
+
+interface FileJob {
+  id: string;
+  file: File;
+  // Object URL for the results player
+  url: string;
+  status: JobStatus;
+  progress: number;
+  result: FileAnalysisResult | null;
+  error: string | null;
+}
+
+interface FileAnalysisPanelProps {
+  config: DetectorConfig;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-600',
+  running: 'bg-blue-100 text-blue-700',
+  done: 'bg-green-100 text-green-700',
+  cancelled: 'bg-yellow-100 text-yellow-700',
+  failed: 'bg-red-100 text-red-700'
+};
+
+const FileAnalysisPanel = ({ config }: FileAnalysisPanelProps) => {
+  const [jobs, setJobs] = useState<FileJob[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const playerRef = useRef<HTMLVideoElement | null>(null);
+  const controllerRef = useRef<{ id: string; controller: AbortController } | null>(null);
+  const jobsRef = useRef<FileJob[]>([]);
+  jobsRef.current = jobs;
+
+  const updateJob = (id: string, changes: Partial<FileJob>) => {
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...changes } : job)));
+  };
+
+  // Files are analysed one at a time; the next queued file starts when the current one settles
+  useEffect(() => {
+    if (controllerRef.current) return;
+    const next = jobs.find(job => job.status === 'queued');
+    if (!next) return;
+
+    const controller = new AbortController();
+    controllerRef.current = { id: next.id, controller };
+    updateJob(next.id, { status: 'running', progress: 0 });
+
+    analyzeVideoFile(next.file, {
+      config,
+      signal: controller.signal,
+      onProgress: progress => updateJob(next.id, { progress })
+    })
+      .then(result => {
+        updateJob(next.id, { status: 'done', progress: 1, result });
+        setSelectedId(current => current ?? next.id);
+      })
+      .catch(error => {
+        if ((error as Error).name === 'AbortError') {
+          updateJob(next.id, { status: 'cancelled' });
+          return;
+        }
+        console.error('File analysis failed:', error);
+        updateJob(next.id, { status: 'failed', error: (error as Error).message });
+      })
+      .finally(() => {
+        controllerRef.current = null;
+        // Re-run the effect so the queue moves on
+        setJobs(prev => [...prev]);
+      });
+  }, [jobs, config]);
+
+  // Stop any running analysis and release the player URLs when the tab goes away
+  useEffect(() => () => {
+    controllerRef.current?.controller.abort();
+    jobsRef.current.forEach(job => URL.revokeObjectURL(job.url));
+  }, []);
+
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+    const added = Array.from(files)
+      .filter(file => file.type.startsWith('video/'))
+      .map((file): FileJob => ({
+        id: `${file.name}-${file.lastModified}-${Math.random().toString(36).slice(2, 8)}`,
+        file,
+        url: URL.createObjectURL(file),
+        status: 'queued',
+        progress: 0,
+        result: null,
+        error: null
+      }));
+    setJobs(prev => [...prev, ...added]);
+  };
+
+  const cancelJob = (job: FileJob) => {
+    if (controllerRef.current?.id === job.id) {
+      controllerRef.current.controller.abort();
+    } else if (job.status === 'queued') {
+      updateJob(job.id, { status: 'cancelled' });
+    }
+  };
+
+  const removeJob = (job: FileJob) => {
+    cancelJob(job);
+    URL.revokeObjectURL(job.url);
+    setJobs(prev => prev.filter(item => item.id !== job.id));
+    setSelectedId(current => (current === job.id ? null : current));
+  };
+
+  const seekTo = (offset: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.currentTime = offset;
+    player.play().catch(() => undefined);
+  };
+
+  const selected = jobs.find(job => job.id === selectedId && job.result);
+  const result = selected?.result ?? null;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow-lg p-4">
+        <h2 className="text-xl font-bold text-gray-800 mb-4">Analyze Video Files</h2>
+        <label
+          onDragOver={(event) => {
+            event.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(event) => {
+            event.preventDefault();
+            setDragging(false);
+            addFiles(event.dataTransfer.files);
+          }}
+          className={`flex flex-col items-center justify-center gap-2 p-8 rounded-lg border-2 border-dashed cursor-pointer ${
+            dragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+          }`}
+        >
+          <Upload className="w-8 h-8 text-gray-400" />
+          <span className="text-gray-600">Drop MP4 or WebM files here, or click to choose</span>
+          <input
+            type="file"
+            accept="video/mp4,video/webm"
+            multiple
+            className="hidden"
+            onChange={(event) => {
+              addFiles(event.target.files);
+              event.target.value = '';
+            }}
+          />
+        </label>
+
+        {jobs.length > 0 && (
+          <ul className="mt-4 divide-y text-sm">
+            {jobs.map(job => (
+              <li key={job.id} className="py-2 flex items-center gap-3">
+                <button
+                  onClick={() => setSelectedId(job.id)}
+                  disabled={!job.result}
+                  className={`flex-1 text-left truncate ${
+                    job.id === selectedId ? 'font-semibold text-blue-600' : 'text-gray-800'
+                  } disabled:cursor-default`}
+                >
+                  {job.file.name}
+                </button>
+                {job.status === 'running' && (
+                  <div className="w-32 h-2 bg-gray-200 rounded">
+                    <div className="h-2 bg-blue-500 rounded" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+                  </div>
+                )}
+                {job.result && (
+                  <span className="text-gray-500">
+                    {job.result.tracks.length} animals · {formatOffset(job.result.duration)}
+                  </span>
+                )}
+                <span className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[job.status]}`} title={job.error ?? undefined}>
+                  {job.status === 'running' ? `${Math.round(job.progress * 100)}%` : job.status}
+                </span>
+                {(job.status === 'running' || job.status === 'queued') ? (
+                  <button onClick={() => cancelJob(job)} className="text-gray-500 hover:text-gray-700">
+                    Cancel
+                  </button>
+                ) : (
+                  <button onClick={() => removeJob(job)} className="text-gray-400 hover:text-gray-600" title="Remove">
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {selected && result && (
+        <>
+          <div className="bg-white rounded-lg shadow-lg p-4">
+            <h2 className="text-xl font-bold text-gray-800 mb-4">{result.fileName}</h2>
+            <video ref={playerRef} src={selected.url} controls className="w-full rounded-lg bg-gray-900 aspect-video" />
+
+            {/* Detection timeline */}
+            <div className="relative h-6 mt-3 bg-gray-100 rounded">
+              {result.tracks.map(track => (
+                <button
+                  key={`${track.firstSeen}-${track.id}`}
+                  onClick={() => seekTo(track.startOffset)}
+                  className="absolute top-0 h-6 min-w-[4px] rounded bg-green-500 hover:bg-green-600"
+                  style={{
+                    left: `${(track.startOffset / Math.max(result.duration, 0.001)) * 100}%`,
+                    width: `${((track.endOffset - track.startOffset) / Math.max(result.duration, 0.001)) * 100}%`
+                  }}
+                  title={`${track.label.replace('_', ' ')} at ${formatOffset(track.startOffset)}`}
+                />
+              ))}
+            </div>
+
+            <div className="flex gap-3 mt-4 overflow-x-auto pb-2">
+              {result.tracks.length === 0 && (
+                <p className="text-gray-500 text-sm">No animals detected in this file.</p>
+              )}
+              {result.tracks.map((track: FileTrack) => (
+                <button
+                  key={`${track.firstSeen}-${track.id}`}
+                  onClick={() => seekTo(track.startOffset)}
+                  className="flex-shrink-0 w-40 text-left text-xs text-gray-600 hover:text-blue-600"
+                >
+                  {track.thumbnail ? (
+                    <img src={track.thumbnail} alt={`Track ${track.id}`} className="w-40 rounded" />
+                  ) : (
+                    <div className="w-40 aspect-video rounded bg-gray-200" />
+                  )}
+                  <span className="flex items-center gap-1 mt-1">
+                    <Play className="w-3 h-3" />
+                    {formatOffset(track.startOffset)} · {track.label.replace('_', ' ')} · {Math.round(track.peakConfidence * 100)}%
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <AnalysisView
+            detections={result.detections.map(detection => ({
+              time: formatOffset(detection.offset),
+              intensity: detection.intensity,
+              confidence: detection.confidence
+            }))}
+            analytics={result.analytics}
+            tracks={result.tracks}
+            formatTime={timestamp => formatOffset((timestamp - result.startedAt) / 1000)}
+            onTrackSelect={track => seekTo((track.firstSeen - result.startedAt) / 1000)}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FileAnalysisPanel;
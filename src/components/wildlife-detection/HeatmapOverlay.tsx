@@ -0,0 +1,31 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { drawHeatmap, type HeatmapGrid } from '@/lib/heatmap';
+
+interface HeatmapOverlayProps {
+  grid: HeatmapGrid | null;
+  opacity?: number;
+}
+
+// Pixels per heatmap cell on the overlay canvas; the browser scales it to the video from there
+const CELL_PIXELS = 8;
+
+const HeatmapOverlay = ({ grid, opacity = 0.6 }: HeatmapOverlayProps) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !grid) return;
+    canvas.width = grid.cols * CELL_PIXELS;
+    canvas.height = grid.rows * CELL_PIXELS;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    drawHeatmap(context, grid, canvas.width, canvas.height, opacity);
+  }, [grid, opacity]);
+
+  if (!grid) return null;
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
+
+export default HeatmapOverlay;
@@ -0,0 +1,106 @@
+'use client';
+
+import React, { useRef } from 'react';
+import { Camera, Download } from 'lucide-react';
+import { downloadBlob } from '@/lib/export';
+import { HEATMAP_WINDOWS, heatmapToJson, renderHeatmapPng, type HeatmapGrid } from '@/lib/heatmap';
+import HeatmapOverlay from './HeatmapOverlay';
+
+interface HeatmapPanelProps {
+  cameraId: string;
+  grid: HeatmapGrid | null;
+  windowDuration: number;
+  // Object URL of a still from the camera to lay the heatmap over
+  reference: string | null;
+  // False while the camera is not streaming
+  canCapture: boolean;
+  onWindowChange: (duration: number) => void;
+  onCaptureReference: () => void;
+}
+
+const HeatmapPanel = ({
+  cameraId,
+  grid,
+  windowDuration,
+  reference,
+  canCapture,
+  onWindowChange,
+  onCaptureReference
+}: HeatmapPanelProps) => {
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const stamp = grid ? new Date(grid.to).toISOString().slice(0, 16).replace(':', '-') : '';
+
+  const exportPng = async () => {
+    if (!grid) return;
+    const blob = await renderHeatmapPng(grid, reference ? imageRef.current : null);
+    if (blob) downloadBlob(blob, `heatmap-${cameraId}-${stamp}.png`);
+  };
+
+  const exportJson = () => {
+    if (!grid) return;
+    const json = JSON.stringify(heatmapToJson(grid, cameraId));
+    downloadBlob(new Blob([json], { type: 'application/json' }), `heatmap-${cameraId}-${stamp}.json`);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-xl font-bold text-gray-800">Motion Heatmap</h2>
+        <div className="flex items-center gap-2 text-sm">
+          <select
+            value={windowDuration}
+            onChange={(event) => onWindowChange(Number(event.target.value))}
+            className="px-2 py-1 rounded border border-gray-300"
+          >
+            {HEATMAP_WINDOWS.map(option => (
+              <option key={option.duration} value={option.duration}>Last {option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={onCaptureReference}
+            disabled={!canCapture}
+            title="Take a new reference still from the camera"
+            className="p-1.5 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+          >
+            <Camera className="w-4 h-4" />
+          </button>
+          <button
+            onClick={exportPng}
+            disabled={!grid}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            PNG
+          </button>
+          <button
+            onClick={exportJson}
+            disabled={!grid}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="relative aspect-video bg-gray-900 rounded-lg overflow-hidden">
+        {reference && (
+          <img ref={imageRef} src={reference} alt={`Reference still from ${cameraId}`} className="w-full h-full object-cover" />
+        )}
+        <HeatmapOverlay grid={grid} />
+        {!reference && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">
+            {canCapture ? 'Capturing a reference still...' : 'Open this camera in the Live tab to capture a reference still'}
+          </div>
+        )}
+      </div>
+      <p className="text-sm text-gray-500">
+        {grid && grid.frames > 0
+          ? `${cameraId}: ${grid.frames} analysed frames since ${new Date(grid.from).toLocaleString()}. Brighter cells moved more often.`
+          : `No motion analysed on ${cameraId} in this window since the page was opened.`}
+      </p>
+    </div>
+  );
+};
+
+export default HeatmapPanel;
@@ -0,0 +1,177 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { FolderOpen, Images } from 'lucide-react';
+import type { DetectorConfig } from '@/lib/detection';
+import { importImageBatch, type ImageImportResult, type ImageStatus } from '@/lib/offline';
+
+interface ImageImportPanelProps {
+  config: DetectorConfig;
+  cameraId: string;
+  onImport: (result: ImageImportResult, cameraId: string) => void;
+}
+
+const STATUS_STYLES: Record<ImageStatus, string> = {
+  animal: 'bg-green-500 text-white',
+  empty: 'bg-gray-500 text-white',
+  unknown: 'bg-yellow-500 text-white'
+};
+
+const ImageImportPanel = ({ config, cameraId, onImport }: ImageImportPanelProps) => {
+  const [importCameraId, setImportCameraId] = useState(cameraId);
+  const [burstGapSeconds, setBurstGapSeconds] = useState(10);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<ImageImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showEmpty, setShowEmpty] = useState(false);
+  const [previews, setPreviews] = useState<Map<File, string>>(new Map());
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Preview URLs belong to one import; release them when it is replaced or the tab goes away
+  useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const runImport = async (files: FileList | null) => {
+    if (!files || files.length === 0 || controllerRef.current) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setProgress(0);
+
+    try {
+      const imported = await importImageBatch(Array.from(files), {
+        config,
+        burstGap: burstGapSeconds * 1000,
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+      setPreviews(new Map(imported.bursts.flatMap(burst => burst.images).map(image => [image.file, URL.createObjectURL(image.file)])));
+      setResult(imported);
+      onImport(imported, importCameraId);
+    } catch (importError) {
+      if ((importError as Error).name !== 'AbortError') {
+        console.error('Image import failed:', importError);
+        setError((importError as Error).message);
+      }
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const images = result?.bursts.flatMap(burst => burst.images) ?? [];
+  const countOf = (status: ImageStatus) => images.filter(image => image.status === status).length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 space-y-4">
+      <h2 className="text-xl font-bold text-gray-800">Import Camera-Trap Images</h2>
+
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <label className="flex flex-col gap-1 text-gray-600">
+          Camera ID
+          <input
+            type="text"
+            value={importCameraId}
+            onChange={(event) => setImportCameraId(event.target.value)}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-600">
+          Burst gap (s)
+          <input
+            type="number"
+            min={1}
+            value={burstGapSeconds}
+            onChange={(event) => setBurstGapSeconds(Math.max(1, Number(event.target.value)))}
+            className="w-24 px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+        <label className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-500 text-white hover:bg-blue-600 cursor-pointer">
+          <FolderOpen className="w-4 h-4" />
+          Choose Folder
+          <input
+            type="file"
+            // webkitdirectory is not in React's attribute types
+            ref={input => input?.setAttribute('webkitdirectory', '')}
+            className="hidden"
+            onChange={(event) => {
+              runImport(event.target.files);
+              event.target.value = '';
+            }}
+          />
+        </label>
+        <label className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 cursor-pointer">
+          <Images className="w-4 h-4" />
+          Choose Images
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(event) => {
+              runImport(event.target.files);
+              event.target.value = '';
+            }}
+          />
+        </label>
+        {progress !== null && (
+          <>
+            <div className="w-40 h-2 bg-gray-200 rounded">
+              <div className="h-2 bg-blue-500 rounded" style={{ width: `${Math.round(progress * 100)}%` }} />
+            </div>
+            <button onClick={() => controllerRef.current?.abort()} className="text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+            <span>{images.length} images in {result.bursts.length} bursts</span>
+            <span className="text-green-700">{countOf('animal')} with animals</span>
+            <span>{countOf('empty')} empty</span>
+            {countOf('unknown') > 0 && <span className="text-yellow-700">{countOf('unknown')} unchecked (single images)</span>}
+            <span>{images.filter(image => image.timeSource !== 'exif').length} without EXIF time</span>
+            <label className="flex items-center gap-2 ml-auto">
+              <input type="checkbox" checked={showEmpty} onChange={(event) => setShowEmpty(event.target.checked)} />
+              Show empty bursts
+            </label>
+          </div>
+
+          <div className="space-y-4">
+            {result.bursts
+              .filter(burst => showEmpty || burst.images.some(image => image.status !== 'empty'))
+              .map(burst => (
+                <div key={`${burst.startedAt}-${burst.images[0].file.name}`}>
+                  <p className="text-sm font-semibold text-gray-700 mb-2">
+                    {new Date(burst.startedAt).toLocaleString()} · {burst.images.length} images
+                  </p>
+                  <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                    {burst.images.map(image => (
+                      <div key={image.file.webkitRelativePath || image.file.name} className="relative">
+                        <img
+                          src={previews.get(image.file)}
+                          alt={image.file.name}
+                          className="w-full aspect-video object-cover rounded"
+                        />
+                        <span className={`absolute top-1 left-1 px-1.5 py-0.5 rounded text-xs ${STATUS_STYLES[image.status]}`}>
+                          {image.detection ? image.detection.label.replace('_', ' ') : image.status}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImageImportPanel;
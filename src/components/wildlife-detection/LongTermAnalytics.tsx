@@ -0,0 +1,173 @@
+'use client';
+
+import React from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import {
+  activityLabel,
+  addDays,
+  bucketActivity,
+  dailyActivity,
+  dielActivity,
+  startOfWeek,
+  type ActivityRecord,
+  type DateRange,
+  type Granularity
+} from '@/lib/analytics';
+import type { DetectionType } from '@/lib/detection';
+
+interface LongTermAnalyticsProps {
+  // Already narrowed to the range and filters
+  records: ActivityRecord[];
+  range: DateRange;
+  granularity: Granularity;
+}
+
+const TYPE_COLORS: Record<DetectionType, string> = {
+  LARGE_ANIMAL: '#dc2626',
+  MEDIUM_ANIMAL: '#ea580c',
+  SMALL_ANIMAL: '#2563eb',
+  AMBIENT_MOTION: '#9ca3af'
+};
+
+// Classifier labels take these in order of how often they occur
+const LABEL_PALETTE = ['#16a34a', '#9333ea', '#0891b2', '#ca8a04', '#db2777', '#4f46e5', '#65a30d', '#0d9488'];
+
+const labelColor = (label: string, index: number) =>
+  TYPE_COLORS[label as DetectionType] ?? LABEL_PALETTE[index % LABEL_PALETTE.length];
+
+const WEEKDAYS = ['Mon', '', 'Wed', '', 'Fri', '', 'Sun'];
+
+const formatDay = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// GitHub-style grid: one column per week, Monday at the top
+const CalendarHeatmap = ({ records, range }: { records: ActivityRecord[]; range: DateRange }) => {
+  const counts = dailyActivity(records);
+  const busiest = Math.max(1, ...Object.values(counts));
+  const weeks: number[] = [];
+  for (let week = startOfWeek(range.from); week < range.to; week = addDays(week, 7)) {
+    weeks.push(week);
+  }
+
+  return (
+    <div className="flex gap-1 overflow-x-auto">
+      <div className="flex flex-col gap-1 text-xs text-gray-400 pr-1">
+        {WEEKDAYS.map((day, index) => (
+          <div key={index} className="h-3 leading-3">{day}</div>
+        ))}
+      </div>
+      {weeks.map(week => (
+        <div key={week} className="flex flex-col gap-1">
+          {WEEKDAYS.map((_, index) => {
+            const day = addDays(week, index);
+            const inRange = day >= range.from && day < range.to;
+            const count = counts[day] ?? 0;
+            return (
+              <div
+                key={index}
+                className={`w-3 h-3 rounded-sm ${inRange ? '' : 'invisible'}`}
+                style={{
+                  backgroundColor: count > 0 ? `rgba(37, 99, 235, ${0.15 + 0.85 * (count / busiest)})` : '#f3f4f6'
+                }}
+                title={`${formatDay(day)}: ${count} events`}
+              />
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const LongTermAnalytics = ({ records, range, granularity }: LongTermAnalyticsProps) => {
+  // Only labels that occur, most frequent first so the stacks and legends keep a steady order
+  const counts = records.reduce<Record<string, number>>((byLabel, record) => {
+    const label = activityLabel(record);
+    return { ...byLabel, [label]: (byLabel[label] || 0) + 1 };
+  }, {});
+  const labels = Object.keys(counts).sort((a, b) => counts[b] - counts[a]);
+  // Keyed by label under `series` so a label cannot clash with the axis field
+  const activity = bucketActivity(records, range, granularity).map(bucket => ({
+    period: granularity === 'day' ? formatDay(bucket.start) : `Week of ${formatDay(bucket.start)}`,
+    series: bucket.byLabel
+  }));
+  // Zeros rather than gaps, so quiet hours pull the curves down
+  const diel = dielActivity(records).map(point => ({
+    hour: `${point.hour}:00`,
+    series: labels.reduce<Record<string, number>>((row, label) => ({ ...row, [label]: point.byLabel[label] ?? 0 }), {})
+  }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <div className="bg-white rounded-lg shadow-lg p-4 lg:col-span-2">
+        <div className="flex items-baseline justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-800">Activity per {granularity}</h2>
+          <span className="text-sm text-gray-500">{records.length} events</span>
+        </div>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={activity}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="period" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              {labels.map((label, index) => (
+                <Bar
+                  key={label}
+                  dataKey={(row: { series: Record<string, number> }) => row.series[label] ?? 0}
+                  stackId="labels"
+                  fill={labelColor(label, index)}
+                  name={label.replace('_', ' ')}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-4">
+        <h2 className="text-xl font-bold text-gray-800 mb-4">Diel Activity</h2>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={diel}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="hour" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              {labels.map((label, index) => (
+                <Line
+                  key={label}
+                  type="monotone"
+                  dataKey={(row: { series: Record<string, number> }) => row.series[label]}
+                  stroke={labelColor(label, index)}
+                  dot={false}
+                  name={label.replace('_', ' ')}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-4">
+        <h2 className="text-xl font-bold text-gray-800 mb-4">Calendar</h2>
+        <CalendarHeatmap records={records} range={range} />
+      </div>
+    </div>
+  );
+};
+
+export default LongTermAnalytics;
@@ -0,0 +1,102 @@
+'use client';
+
+import React from 'react';
+import type { Classifier, ClassifierSettings } from '@/lib/classification';
+import type { Detection, MotionActivity, Track } from '@/lib/detection';
+import type { PowerMode } from '@/lib/power';
+import type { VideoSourceSpec } from '@/lib/sources';
+import CameraTile from './CameraTile';
+
+// Each tile runs its own worker and decoder; more than this overloads a field laptop
+const MAX_GRID_SOURCES = 4;
+
+interface MultiCameraViewProps {
+  sources: VideoSourceSpec[];
+  selectedIds: string[];
+  active: boolean;
+  powerMode: PowerMode;
+  classifier: Classifier | null;
+  classifierSettings: ClassifierSettings;
+  onSelectionChange: (ids: string[]) => void;
+  onDetection: (detection: Detection, cameraId: string, video: HTMLVideoElement | null) => void;
+  onTrackFinished: (track: Track, cameraId: string) => void;
+  onActivity: (activity: MotionActivity, timestamp: number, cameraId: string) => void;
+}
+
+const MultiCameraView = ({
+  sources,
+  selectedIds,
+  active,
+  powerMode,
+  classifier,
+  classifierSettings,
+  onSelectionChange,
+  onDetection,
+  onTrackFinished,
+  onActivity
+}: MultiCameraViewProps) => {
+  const shown = sources.filter(source => selectedIds.includes(source.id));
+
+  const toggle = (id: string) => {
+    onSelectionChange(selectedIds.includes(id)
+      ? selectedIds.filter(item => item !== id)
+      : [...selectedIds, id]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-lg shadow-lg p-4">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-gray-800">Cameras</h2>
+          <span className="text-sm text-gray-500">{selectedIds.length} of up to {MAX_GRID_SOURCES}</span>
+        </div>
+        {sources.length > 0 ? (
+          <div className="flex flex-wrap gap-4 text-sm">
+            {sources.map(source => {
+              const checked = selectedIds.includes(source.id);
+              return (
+                <label key={source.id} className={`flex items-center gap-2 ${
+                  !checked && selectedIds.length >= MAX_GRID_SOURCES ? 'opacity-50' : 'text-gray-700'
+                }`}>
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    disabled={!checked && selectedIds.length >= MAX_GRID_SOURCES}
+                    onChange={() => toggle(source.id)}
+                  />
+                  {source.label}
+                </label>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No video sources found. Add cameras in the Live tab.</p>
+        )}
+      </div>
+
+      {shown.length > 0 ? (
+        <div className={`grid grid-cols-1 gap-4 ${shown.length > 1 ? 'md:grid-cols-2' : ''}`}>
+          {shown.map(source => (
+            <CameraTile
+              key={source.id}
+              source={source}
+              active={active}
+              powerMode={powerMode}
+              classifier={classifier}
+              classifierSettings={classifierSettings}
+              onDetection={onDetection}
+              onTrackFinished={onTrackFinished}
+              onActivity={onActivity}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center text-gray-500">
+          Choose the cameras to watch side by side.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MultiCameraView;
@@ -0,0 +1,50 @@
+'use client';
+
+import React from 'react';
+import type { OverlaySettings } from '@/lib/recording';
+
+interface OverlayPanelProps {
+  settings: OverlaySettings;
+  onChange: (settings: OverlaySettings) => void;
+}
+
+const ITEMS: [Exclude<keyof OverlaySettings, 'enabled'>, string][] = [
+  ['timestamp', 'Date and time'],
+  ['cameraName', 'Camera name'],
+  ['battery', 'Battery'],
+  ['type', 'Detection type'],
+  ['confidence', 'Confidence'],
+  ['boxes', 'Bounding boxes']
+];
+
+const OverlayPanel = ({ settings, onChange }: OverlayPanelProps) => (
+  <div className="space-y-2 text-sm">
+    <label className="flex items-center gap-2 font-semibold text-gray-800">
+      <input
+        type="checkbox"
+        checked={settings.enabled}
+        onChange={(event) => onChange({ ...settings, enabled: event.target.checked })}
+      />
+      Burn in overlay
+    </label>
+    <div className={`grid grid-cols-2 md:grid-cols-3 gap-2 ${settings.enabled ? '' : 'opacity-50'}`}>
+      {ITEMS.map(([key, label]) => (
+        <label key={key} className="flex items-center gap-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings[key]}
+            disabled={!settings.enabled}
+            onChange={(event) => onChange({ ...settings, [key]: event.target.checked })}
+          />
+          {label}
+        </label>
+      ))}
+    </div>
+    <p className="text-gray-500">
+      Drawn into snapshots and recordings as they are captured, so it cannot be removed afterwards. Downloads
+      come with a JSON file of the same name holding the full capture details.
+    </p>
+  </div>
+);
+
+export default OverlayPanel;
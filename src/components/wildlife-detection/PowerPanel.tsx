@@ -0,0 +1,130 @@
+'use client';
+
+import React from 'react';
+import { formatRuntime } from '@/lib/format';
+import { POWER_PROFILES, type BatteryState, type PowerMode, type PowerSettings } from '@/lib/power';
+
+interface PowerPanelProps {
+  settings: PowerSettings;
+  battery: BatteryState;
+  // Mode in effect, after automatic switching and wake-ups
+  mode: PowerMode;
+  // True while a detection keeps a sleeping system in ACTIVE
+  awake: boolean;
+  runtime: number | null;
+  onChange: (settings: PowerSettings) => void;
+}
+
+const MODES: PowerSettings['mode'][] = ['AUTO', 'ACTIVE', 'ECO', 'SLEEP'];
+
+const describeProfile = (mode: PowerMode) => {
+  const profile = POWER_PROFILES[mode];
+  if (mode === 'ACTIVE') return 'Detection settings as configured';
+  return `Every ${profile.minSamplingInterval / 1000}s at ${profile.maxAnalysisWidth}px, camera at ${profile.frameRate} fps`;
+};
+
+const PowerPanel = ({ settings, battery, mode, awake, runtime, onChange }: PowerPanelProps) => {
+  const update = (changes: Partial<PowerSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-800">Power</h3>
+        <span className={`px-2 py-0.5 rounded text-xs ${
+          mode === 'ACTIVE' ? 'bg-green-100 text-green-700' : mode === 'ECO' ? 'bg-yellow-100 text-yellow-700' : 'bg-blue-100 text-blue-700'
+        }`}>
+          {mode}{awake ? ' (woken by motion)' : ''}
+        </span>
+      </div>
+
+      <div className="flex gap-2">
+        {MODES.map(option => (
+          <button
+            key={option}
+            onClick={() => update({ mode: option })}
+            className={`px-3 py-1 rounded-lg ${
+              settings.mode === option ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {option === 'AUTO' ? 'Auto' : option}
+          </button>
+        ))}
+      </div>
+      <p className="text-gray-500">{describeProfile(mode)}</p>
+
+      <div className="grid grid-cols-3 gap-3">
+        <label className={`flex flex-col gap-1 text-gray-600 ${settings.mode === 'AUTO' ? '' : 'opacity-50'}`}>
+          ECO at or below (%)
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={settings.ecoBelow}
+            disabled={settings.mode !== 'AUTO'}
+            onChange={(event) => update({ ecoBelow: Number(event.target.value) })}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+        <label className={`flex flex-col gap-1 text-gray-600 ${settings.mode === 'AUTO' ? '' : 'opacity-50'}`}>
+          SLEEP at or below (%)
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={settings.sleepBelow}
+            disabled={settings.mode !== 'AUTO'}
+            onChange={(event) => update({ sleepBelow: Number(event.target.value) })}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-600">
+          Stay awake (min)
+          <input
+            type="number"
+            min={1}
+            max={60}
+            value={settings.wakeMinutes}
+            onChange={(event) => update({ wakeMinutes: Number(event.target.value) })}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {battery.source === 'manual' && (
+          <label className="flex flex-col gap-1 text-gray-600">
+            Battery level (%)
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={settings.manualLevel}
+              onChange={(event) => update({ manualLevel: Math.min(100, Math.max(0, Number(event.target.value))) })}
+              className="px-2 py-1 rounded border border-gray-300"
+            />
+          </label>
+        )}
+        <label className="flex flex-col gap-1 text-gray-600">
+          Full charge lasts (h)
+          <input
+            type="number"
+            min={1}
+            max={1000}
+            value={settings.fullRuntimeHours}
+            onChange={(event) => update({ fullRuntimeHours: Number(event.target.value) })}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+      </div>
+
+      <p className="text-gray-500">
+        {battery.source === 'manual'
+          ? 'This browser does not report the battery, so the level above is used.'
+          : `Battery at ${Math.round(battery.level)}%${battery.charging ? ', charging' : ''}.`}
+        {runtime !== null && ` About ${formatRuntime(runtime)} left in ${mode}.`}
+      </p>
+    </div>
+  );
+};
+
+export default PowerPanel;
@@ -0,0 +1,226 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { MotionClassThreshold } from '@/lib/detection';
+import {
+  evaluateReviews,
+  sweepClassCutoffs,
+  sweepConfidence,
+  type AccuracyMetrics,
+  type DetectionReview,
+  type ReviewThresholds,
+  type SweepPoint
+} from '@/lib/review';
+
+interface ReviewMetricsPanelProps {
+  reviews: DetectionReview[];
+  // The live camera's settings, which the alternatives are compared against
+  current: ReviewThresholds;
+}
+
+const MOTION_CLASSES = ['LARGE_ANIMAL', 'MEDIUM_ANIMAL', 'SMALL_ANIMAL'] as const;
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+// Percentages for the charts, with gaps where there was nothing to divide by
+const toChart = (points: SweepPoint[], label: (value: number) => string) => points.map(point => ({
+  label: label(point.value),
+  precision: point.precision === null ? null : Math.round(point.precision * 100),
+  recall: point.recall === null ? null : Math.round(point.recall * 100)
+}));
+
+const MetricsTable = ({
+  title,
+  current,
+  candidate
+}: {
+  title: string;
+  current: Record<string, AccuracyMetrics>;
+  candidate: Record<string, AccuracyMetrics>;
+}) => {
+  const keys = Array.from(new Set([...Object.keys(current), ...Object.keys(candidate)])).sort();
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-500 border-b">
+          <th className="py-2 pr-4">{title}</th>
+          <th className="py-2 pr-4">TP / FP / FN</th>
+          <th className="py-2 pr-4">Precision</th>
+          <th className="py-2 pr-4">Recall</th>
+        </tr>
+      </thead>
+      <tbody>
+        {keys.map(key => {
+          const now = current[key];
+          const next = candidate[key];
+          return (
+            <tr key={key} className="border-b last:border-0">
+              <td className="py-2 pr-4 font-medium text-gray-800">{key.replace('_', ' ')}</td>
+              <td className="py-2 pr-4 text-gray-600">
+                {next ? `${next.truePositives} / ${next.falsePositives} / ${next.falseNegatives}` : '—'}
+              </td>
+              <td className="py-2 pr-4">
+                {formatRate(now?.precision ?? null)} → {formatRate(next?.precision ?? null)}
+              </td>
+              <td className="py-2 pr-4">
+                {formatRate(now?.recall ?? null)} → {formatRate(next?.recall ?? null)}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
+
+const SweepChart = ({ title, data }: { title: string; data: ReturnType<typeof toChart> }) => (
+  <div>
+    <h3 className="font-semibold text-gray-800 mb-2">{title}</h3>
+    <div className="h-56">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="label" />
+          <YAxis domain={[0, 100]} unit="%" />
+          <Tooltip />
+          <Legend />
+          <Line type="monotone" dataKey="precision" stroke="#2563eb" name="Precision" connectNulls />
+          <Line type="monotone" dataKey="recall" stroke="#16a34a" name="Recall" connectNulls />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+const ReviewMetricsPanel = ({ reviews, current }: ReviewMetricsPanelProps) => {
+  // What-if settings, replayed over the reviewed events next to the current ones
+  const [candidate, setCandidate] = useState<ReviewThresholds>(current);
+
+  // Follow the live camera's settings until they are edited here
+  useEffect(() => {
+    setCandidate(current);
+  }, [current.confidenceThreshold, current.classThresholds]);
+
+  const updateClass = (type: typeof MOTION_CLASSES[number], changes: Partial<MotionClassThreshold>) => {
+    setCandidate(prev => ({
+      ...prev,
+      classThresholds: { ...prev.classThresholds, [type]: { ...prev.classThresholds[type], ...changes } }
+    }));
+  };
+
+  const now = evaluateReviews(reviews, current);
+  const next = evaluateReviews(reviews, candidate);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 space-y-6">
+      <div className="flex items-baseline justify-between">
+        <h2 className="text-xl font-bold text-gray-800">Accuracy</h2>
+        <span className="text-sm text-gray-500">{now.reviewed} reviewed events</span>
+      </div>
+
+      {now.reviewed === 0 ? (
+        <p className="text-sm text-gray-500">Mark events as true or false positives to see how the detector performs.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div className="p-3 rounded-lg bg-gray-50">
+              <p className="text-gray-500">Precision now</p>
+              <p className="text-2xl font-bold text-gray-800">{formatRate(now.overall.precision)}</p>
+            </div>
+            <div className="p-3 rounded-lg bg-gray-50">
+              <p className="text-gray-500">Recall now</p>
+              <p className="text-2xl font-bold text-gray-800">{formatRate(now.overall.recall)}</p>
+            </div>
+            <div className="p-3 rounded-lg bg-blue-50">
+              <p className="text-gray-500">Precision with changes</p>
+              <p className="text-2xl font-bold text-blue-700">{formatRate(next.overall.precision)}</p>
+            </div>
+            <div className="p-3 rounded-lg bg-blue-50">
+              <p className="text-gray-500">Recall with changes</p>
+              <p className="text-2xl font-bold text-blue-700">{formatRate(next.overall.recall)}</p>
+            </div>
+          </div>
+
+          <div className="space-y-3 text-sm">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-gray-800">Try other thresholds</h3>
+              <button
+                onClick={() => setCandidate(current)}
+                className="px-2 py-1 rounded text-blue-600 hover:bg-blue-50"
+              >
+                Reset to current
+              </button>
+            </div>
+            <label className="flex flex-col gap-1 text-gray-600">
+              Confidence threshold: {Math.round(candidate.confidenceThreshold * 100)}%
+              (now {Math.round(current.confidenceThreshold * 100)}%)
+              <input
+                type="range"
+                min={0}
+                max={0.95}
+                step={0.05}
+                value={candidate.confidenceThreshold}
+                onChange={(event) => setCandidate(prev => ({ ...prev, confidenceThreshold: Number(event.target.value) }))}
+              />
+            </label>
+            <div className="grid grid-cols-[auto_1fr_1fr] gap-3 items-end">
+              {MOTION_CLASSES.map(type => (
+                <React.Fragment key={type}>
+                  <span className="pb-1 font-medium text-gray-700">{type.replace('_', ' ')}</span>
+                  <label className="flex flex-col gap-1 text-gray-600">
+                    Intensity above
+                    <input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={candidate.classThresholds[type].intensity}
+                      onChange={(event) => updateClass(type, { intensity: Number(event.target.value) })}
+                      className="px-2 py-1 rounded border border-gray-300"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1 text-gray-600">
+                    Share of frame moving above
+                    <input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.001}
+                      value={candidate.classThresholds[type].coverage}
+                      onChange={(event) => updateClass(type, { coverage: Number(event.target.value) })}
+                      className="px-2 py-1 rounded border border-gray-300"
+                    />
+                  </label>
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <MetricsTable title="Type" current={now.byType} candidate={next.byType} />
+            <MetricsTable title="Camera" current={now.byCamera} candidate={next.byCamera} />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <SweepChart
+              title="By confidence threshold"
+              data={toChart(sweepConfidence(reviews, candidate), value => `${Math.round(value * 100)}%`)}
+            />
+            <SweepChart
+              title="By class cutoffs (all scaled)"
+              data={toChart(sweepClassCutoffs(reviews, candidate), value => `×${value}`)}
+            />
+          </div>
+
+          <p className="text-sm text-gray-500">
+            Only frames that passed the threshold in force at the time were stored, so thresholds below it cannot
+            find more animals, and recall only counts the reviewed animals lost or mistyped at other settings.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReviewMetricsPanel;
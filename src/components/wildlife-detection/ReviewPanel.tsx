@@ -0,0 +1,217 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { formatDuration } from '@/lib/format';
+import type { DetectionType } from '@/lib/detection';
+import type { DetectionReview, ReviewChanges } from '@/lib/review';
+import type { MediaKind, StoredMedia, StoredTrack } from '@/lib/storage';
+
+interface ReviewPanelProps {
+  // Newest first
+  tracks: StoredTrack[];
+  reviews: Record<string, DetectionReview>;
+  loadMedia: (track: StoredTrack) => Promise<StoredMedia | null>;
+  onReview: (track: StoredTrack, changes: ReviewChanges) => void;
+}
+
+const DETECTION_TYPES: DetectionType[] = ['LARGE_ANIMAL', 'MEDIUM_ANIMAL', 'SMALL_ANIMAL', 'AMBIENT_MOTION'];
+
+const VerdictBadge = ({ review }: { review: DetectionReview | undefined }) => {
+  if (!review?.verdict) return <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-500">Unreviewed</span>;
+  return review.verdict === 'tp'
+    ? <span className="px-2 py-0.5 rounded text-xs bg-green-100 text-green-700">True</span>
+    : <span className="px-2 py-0.5 rounded text-xs bg-red-100 text-red-700">False</span>;
+};
+
+const ReviewPanel = ({ tracks, reviews, loadMedia, onReview }: ReviewPanelProps) => {
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [unreviewedOnly, setUnreviewedOnly] = useState(false);
+  const [media, setMedia] = useState<{ kind: MediaKind; url: string } | null>(null);
+  const [mediaLoading, setMediaLoading] = useState(false);
+  // Typed fields are written back on blur rather than on every keystroke
+  const [species, setSpecies] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const listed = unreviewedOnly ? tracks.filter(track => !reviews[track.key]?.verdict) : tracks;
+  const selected = tracks.find(track => track.key === selectedKey) ?? null;
+  const review = selected ? reviews[selected.key] : undefined;
+  // Labels seen so far, offered when correcting the species
+  const labels = Array.from(new Set([
+    ...tracks.map(track => track.label),
+    ...Object.values(reviews).flatMap(item => (item.correctedLabel ? [item.correctedLabel] : []))
+  ])).sort();
+
+  useEffect(() => {
+    setNotes(review?.notes ?? '');
+    setSpecies(review?.correctedLabel ?? selected?.label ?? '');
+  }, [selectedKey]);
+
+  useEffect(() => {
+    if (!selected) return;
+    let cancelled = false;
+    let url: string | null = null;
+    setMediaLoading(true);
+    loadMedia(selected)
+      .then(item => {
+        if (cancelled || !item) return;
+        url = URL.createObjectURL(item.blob);
+        setMedia({ kind: item.kind, url });
+      })
+      .catch(error => console.error('Failed to load media:', error))
+      .finally(() => {
+        if (!cancelled) setMediaLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setMedia(null);
+    };
+  }, [selectedKey]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <div className="bg-white rounded-lg shadow-lg p-4">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-800">Events</h2>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={unreviewedOnly}
+              onChange={(event) => setUnreviewedOnly(event.target.checked)}
+            />
+            Unreviewed only
+          </label>
+        </div>
+        {listed.length > 0 ? (
+          <ul className="space-y-1 max-h-[40rem] overflow-y-auto">
+            {listed.map(track => (
+              <li key={track.key}>
+                <button
+                  onClick={() => setSelectedKey(track.key)}
+                  className={`w-full flex items-center gap-3 p-2 rounded-lg text-left text-sm ${
+                    track.key === selectedKey ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex justify-between gap-2">
+                      <span className="font-medium text-gray-800 truncate">
+                        {(reviews[track.key]?.correctedLabel ?? track.label).replace('_', ' ')}
+                      </span>
+                      <span className="text-gray-500 shrink-0">{new Date(track.firstSeen).toLocaleString()}</span>
+                    </div>
+                    <p className="text-gray-500">
+                      {track.cameraId} · {Math.round(track.peakConfidence * 100)}% ·{' '}
+                      {formatDuration(track.lastSeen - track.firstSeen)}
+                    </p>
+                  </div>
+                  <VerdictBadge review={reviews[track.key]} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No events in this range.</p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-4">
+        {selected ? (
+          <div className="space-y-4 text-sm">
+            <div className="flex items-baseline justify-between">
+              <h2 className="text-xl font-bold text-gray-800">{selected.label.replace('_', ' ')}</h2>
+              <span className="text-gray-500">{new Date(selected.firstSeen).toLocaleString()}</span>
+            </div>
+
+            <div className="aspect-video bg-gray-900 rounded-lg overflow-hidden flex items-center justify-center">
+              {media?.kind === 'clip' && <video src={media.url} controls className="w-full h-full object-contain" />}
+              {media?.kind === 'snapshot' && <img src={media.url} alt="Snapshot of the event" className="w-full h-full object-contain" />}
+              {!media && (
+                <span className="text-gray-400">{mediaLoading ? 'Loading…' : 'No clip or snapshot of this event'}</span>
+              )}
+            </div>
+
+            <p className="text-gray-600">
+              Detected as {selected.type.replace('_', ' ')} on {selected.cameraId}, peak confidence{' '}
+              {Math.round(selected.peakConfidence * 100)}% over {selected.hits} frames.
+            </p>
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => onReview(selected, { verdict: 'tp' })}
+                className={`flex items-center gap-1 px-3 py-1 rounded-lg ${
+                  review?.verdict === 'tp' ? 'bg-green-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                <Check className="w-4 h-4" />
+                True positive
+              </button>
+              <button
+                onClick={() => onReview(selected, { verdict: 'fp' })}
+                className={`flex items-center gap-1 px-3 py-1 rounded-lg ${
+                  review?.verdict === 'fp' ? 'bg-red-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+              >
+                <X className="w-4 h-4" />
+                False positive
+              </button>
+            </div>
+
+            <div className={`grid grid-cols-2 gap-3 ${review?.verdict === 'fp' ? 'opacity-50' : ''}`}>
+              <label className="flex flex-col gap-1 text-gray-600">
+                Actual type
+                <select
+                  value={review?.correctedType ?? selected.type}
+                  disabled={review?.verdict === 'fp'}
+                  onChange={(event) => {
+                    const type = event.target.value as DetectionType;
+                    onReview(selected, { correctedType: type === selected.type ? null : type });
+                  }}
+                  className="px-2 py-1 rounded border border-gray-300"
+                >
+                  {DETECTION_TYPES.map(type => (
+                    <option key={type} value={type}>{type.replace('_', ' ')}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-gray-600">
+                Actual species
+                <input
+                  list="review-labels"
+                  value={species}
+                  disabled={review?.verdict === 'fp'}
+                  onChange={(event) => setSpecies(event.target.value)}
+                  onBlur={() => {
+                    const label = species.trim();
+                    const correctedLabel = label && label !== selected.label ? label : null;
+                    if (correctedLabel !== (review?.correctedLabel ?? null)) onReview(selected, { correctedLabel });
+                  }}
+                  className="px-2 py-1 rounded border border-gray-300"
+                />
+                <datalist id="review-labels">
+                  {labels.map(label => <option key={label} value={label} />)}
+                </datalist>
+              </label>
+            </div>
+
+            <label className="flex flex-col gap-1 text-gray-600">
+              Notes
+              <textarea
+                value={notes}
+                rows={3}
+                onChange={(event) => setNotes(event.target.value)}
+                onBlur={() => notes !== (review?.notes ?? '') && onReview(selected, { notes })}
+                className="px-2 py-1 rounded border border-gray-300"
+              />
+            </label>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Pick an event to review it.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPanel;
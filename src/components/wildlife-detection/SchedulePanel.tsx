@@ -0,0 +1,182 @@
+'use client';
+
+import React from 'react';
+import { Plus } from 'lucide-react';
+import { formatTransition } from '@/lib/format';
+import {
+  civilTwilight,
+  createWeeklyWindow,
+  type ScheduleSettings,
+  type ScheduleTransition,
+  type WeeklyWindow
+} from '@/lib/schedule';
+
+interface SchedulePanelProps {
+  settings: ScheduleSettings;
+  next: ScheduleTransition | null;
+  onChange: (settings: ScheduleSettings) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const toTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const fromTime = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const formatClock = (timestamp: number | null) =>
+  (timestamp === null ? '—' : new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
+
+const SchedulePanel = ({ settings, next, onChange }: SchedulePanelProps) => {
+  const update = (changes: Partial<ScheduleSettings>) => onChange({ ...settings, ...changes });
+  const updateWindow = (id: string, changes: Partial<WeeklyWindow>) => {
+    update({ windows: settings.windows.map(slot => (slot.id === id ? { ...slot, ...changes } : slot)) });
+  };
+  const twilight = civilTwilight(Date.now(), settings.latitude, settings.longitude);
+
+  const locate = () => {
+    navigator.geolocation?.getCurrentPosition(
+      ({ coords }) => update({
+        latitude: Math.round(coords.latitude * 1000) / 1000,
+        longitude: Math.round(coords.longitude * 1000) / 1000
+      }),
+      error => console.error('Could not get the location:', error)
+    );
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-800">Schedule</h3>
+        <label className="flex items-center gap-2 text-gray-600">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(event) => update({ enabled: event.target.checked })}
+          />
+          Switch on and off automatically
+        </label>
+      </div>
+      {settings.enabled && (
+        <p className="text-gray-500">
+          {next ? `${formatTransition(next)}.` : 'Nothing is scheduled, so the system stays off.'}
+          {' '}The header toggle overrides the schedule until its next change.
+        </p>
+      )}
+
+      <div className={`space-y-3 ${settings.enabled ? '' : 'opacity-50'}`}>
+        <label className="flex items-center gap-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.duskToDawn}
+            onChange={(event) => update({ duskToDawn: event.target.checked })}
+          />
+          From civil dusk to civil dawn
+        </label>
+        <div className="grid grid-cols-3 gap-3 items-end">
+          <label className="flex flex-col gap-1 text-gray-600">
+            Latitude
+            <input
+              type="number"
+              min={-90}
+              max={90}
+              step={0.001}
+              value={settings.latitude}
+              onChange={(event) => update({ latitude: Math.min(90, Math.max(-90, Number(event.target.value))) })}
+              className="px-2 py-1 rounded border border-gray-300"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-gray-600">
+            Longitude
+            <input
+              type="number"
+              min={-180}
+              max={180}
+              step={0.001}
+              value={settings.longitude}
+              onChange={(event) => update({ longitude: Math.min(180, Math.max(-180, Number(event.target.value))) })}
+              className="px-2 py-1 rounded border border-gray-300"
+            />
+          </label>
+          <button onClick={locate} className="px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300">
+            Use my location
+          </button>
+        </div>
+        <p className="text-gray-500">
+          Today: civil dawn {formatClock(twilight.dawn)}, civil dusk {formatClock(twilight.dusk)}
+          {twilight.dawn === null && (twilight.polarNight ? ' (dark all day)' : ' (light all night)')}
+        </p>
+
+        <div className="flex items-center justify-between">
+          <span className="text-gray-700">Weekly windows</span>
+          <button
+            onClick={() => update({ windows: [...settings.windows, createWeeklyWindow()] })}
+            className="flex items-center gap-1 px-2 py-1 rounded text-blue-600 hover:bg-blue-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add window
+          </button>
+        </div>
+        {settings.windows.map(slot => (
+          <div key={slot.id} className="p-2 rounded-lg bg-gray-50 space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map((day, index) => (
+                <label key={day} className="flex items-center gap-1 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={slot.days.includes(index)}
+                    onChange={() => updateWindow(slot.id, {
+                      days: slot.days.includes(index)
+                        ? slot.days.filter(other => other !== index)
+                        : [...slot.days, index].sort((a, b) => a - b)
+                    })}
+                  />
+                  {day}
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 text-gray-600">
+              <input
+                type="time"
+                value={toTime(slot.start)}
+                onChange={(event) => event.target.value && updateWindow(slot.id, { start: fromTime(event.target.value) })}
+                className="px-2 py-1 rounded border border-gray-300"
+              />
+              to
+              <input
+                type="time"
+                value={toTime(slot.end)}
+                onChange={(event) => event.target.value && updateWindow(slot.id, { end: fromTime(event.target.value) })}
+                className="px-2 py-1 rounded border border-gray-300"
+              />
+              <button
+                onClick={() => update({ windows: settings.windows.filter(other => other.id !== slot.id) })}
+                className="ml-auto px-2 py-1 rounded text-red-600 hover:bg-red-50"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <label className="flex flex-col gap-1 text-gray-600">
+        Snapshot every (min, 0 for never)
+        <input
+          type="number"
+          min={0}
+          max={1440}
+          value={settings.snapshotMinutes}
+          onChange={(event) => update({ snapshotMinutes: Math.max(0, Number(event.target.value)) })}
+          className="px-2 py-1 rounded border border-gray-300"
+        />
+      </label>
+      <p className="text-gray-500">Interval snapshots are taken while the camera is on, whether or not anything moves.</p>
+    </div>
+  );
+};
+
+export default SchedulePanel;
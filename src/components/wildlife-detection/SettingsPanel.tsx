@@ -0,0 +1,369 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { ANALYSIS_WIDTHS } from '@/lib/analysis';
+import type { DetectionMethod, DetectorConfig, MotionClassThreshold } from '@/lib/detection';
+import { downloadBlob } from '@/lib/export';
+import {
+  CLASS_INTENSITY_RULE,
+  CLASS_COVERAGE_RULE,
+  CONFIDENCE_RULE,
+  DEFAULT_DETECTION_SETTINGS,
+  DETECTOR_RULES,
+  MOTION_CLASSES,
+  createProfile,
+  exportProfiles,
+  mergeProfiles,
+  parseProfileExport,
+  validateSettings,
+  type CameraProfiles,
+  type DetectionSettings,
+  type NumberRule
+} from '@/lib/settings';
+
+interface SettingsPanelProps {
+  cameraId: string;
+  settings: DetectionSettings;
+  profiles: CameraProfiles;
+  // Only called with settings that pass validation, so the live view can apply them straight away
+  onChange: (settings: DetectionSettings) => void;
+  onProfilesChange: (profiles: CameraProfiles) => void;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  rule: NumberRule;
+  step?: number;
+  error?: string;
+  onChange: (value: number) => void;
+}
+
+const NumberField = ({ label, value, rule, step, error, onChange }: NumberFieldProps) => (
+  <label className="flex flex-col gap-1 text-gray-600">
+    {label}
+    <input
+      type="number"
+      min={rule.min}
+      max={rule.max}
+      step={step ?? (rule.integer ? 1 : 0.01)}
+      // An emptied field is kept as NaN so it fails validation instead of silently becoming 0
+      value={Number.isNaN(value) ? '' : value}
+      onChange={(event) => onChange(event.target.value === '' ? Number.NaN : Number(event.target.value))}
+      className={`px-2 py-1 rounded border ${error ? 'border-red-500' : 'border-gray-300'}`}
+    />
+    {error && <span className="text-xs text-red-600">{error}</span>}
+  </label>
+);
+
+const SettingsPanel = ({ cameraId, settings, profiles, onChange, onProfilesChange }: SettingsPanelProps) => {
+  // Edits are kept here until they validate; valid edits reach the live view immediately
+  const [draft, setDraft] = useState(settings);
+  const [newName, setNewName] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  // Profile or camera switches replace whatever was being edited
+  useEffect(() => setDraft(settings), [settings]);
+
+  const errors = validateSettings(draft);
+  const valid = Object.keys(errors).length === 0;
+  const active = profiles.profiles.find(profile => profile.id === profiles.activeId) ?? null;
+  const modified = active !== null && JSON.stringify(active.settings) !== JSON.stringify(settings);
+
+  const update = (next: DetectionSettings) => {
+    setDraft(next);
+    if (Object.keys(validateSettings(next)).length === 0) onChange(next);
+  };
+
+  const updateDetector = (changes: Partial<DetectorConfig>) => {
+    update({ ...draft, detector: { ...draft.detector, ...changes } });
+  };
+
+  const updateClass = (type: typeof MOTION_CLASSES[number], changes: Partial<MotionClassThreshold>) => {
+    updateDetector({
+      classThresholds: {
+        ...draft.detector.classThresholds,
+        [type]: { ...draft.detector.classThresholds[type], ...changes }
+      }
+    });
+  };
+
+  const detectorField = (label: string, field: keyof typeof DETECTOR_RULES, step?: number) => (
+    <NumberField
+      label={label}
+      value={draft.detector[field]}
+      rule={DETECTOR_RULES[field]}
+      step={step}
+      error={errors[`detector.${field}`]}
+      onChange={(value) => updateDetector({ [field]: value })}
+    />
+  );
+
+  const selectProfile = (id: string) => {
+    const profile = profiles.profiles.find(item => item.id === id) ?? null;
+    onProfilesChange({ ...profiles, activeId: profile?.id ?? null });
+    onChange(profile?.settings ?? DEFAULT_DETECTION_SETTINGS);
+    setMessage(null);
+  };
+
+  const saveProfile = () => {
+    if (!active || !valid) return;
+    onProfilesChange({
+      ...profiles,
+      profiles: profiles.profiles.map(profile =>
+        profile.id === active.id ? { ...profile, settings: draft, updatedAt: Date.now() } : profile)
+    });
+    setMessage({ text: `Saved "${active.name}"`, error: false });
+  };
+
+  const saveAsNew = () => {
+    const name = newName.trim();
+    if (!name || !valid) return;
+    if (profiles.profiles.some(profile => profile.name === name)) {
+      setMessage({ text: `A profile named "${name}" already exists`, error: true });
+      return;
+    }
+    const profile = createProfile(name, draft);
+    onProfilesChange({ activeId: profile.id, profiles: [...profiles.profiles, profile] });
+    setNewName('');
+    setMessage({ text: `Saved "${name}"`, error: false });
+  };
+
+  const deleteProfile = () => {
+    if (!active) return;
+    onProfilesChange({ activeId: null, profiles: profiles.profiles.filter(profile => profile.id !== active.id) });
+    setMessage({ text: `Deleted "${active.name}"`, error: false });
+  };
+
+  const exportFile = () => {
+    const data = exportProfiles(cameraId, profiles.profiles);
+    downloadBlob(
+      new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }),
+      `detection-profiles-${cameraId}.json`
+    );
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseProfileExport(await file.text());
+      const merged = mergeProfiles(profiles.profiles, imported);
+      onProfilesChange({ ...profiles, profiles: merged });
+      // The active profile may have been overwritten by the import
+      const activeAfter = merged.find(profile => profile.id === profiles.activeId);
+      if (activeAfter) onChange(activeAfter.settings);
+      setMessage({ text: `Imported ${imported.length} profile${imported.length === 1 ? '' : 's'}`, error: false });
+    } catch (importError) {
+      setMessage({ text: (importError as Error).message, error: true });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 space-y-6 text-sm">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-800">Detection Settings</h2>
+          <span className="text-gray-500">Camera: {cameraId}</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={profiles.activeId ?? ''}
+            onChange={(event) => selectProfile(event.target.value)}
+            className="px-2 py-1 rounded border border-gray-300"
+          >
+            <option value="">Defaults (no profile)</option>
+            {profiles.profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+          {modified && <span className="text-yellow-700">Unsaved changes</span>}
+          <button
+            onClick={saveProfile}
+            disabled={!active || !valid || !modified}
+            className="px-3 py-1 rounded-lg font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button
+            onClick={deleteProfile}
+            disabled={!active}
+            className="px-3 py-1 rounded-lg text-red-600 hover:bg-red-50 disabled:opacity-50"
+          >
+            Delete
+          </button>
+          <button
+            onClick={() => update(DEFAULT_DETECTION_SETTINGS)}
+            className="px-3 py-1 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+          >
+            Reset to Defaults
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            placeholder="New profile name, e.g. night feeder"
+            onChange={(event) => setNewName(event.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 rounded border border-gray-300"
+          />
+          <button
+            onClick={saveAsNew}
+            disabled={!newName.trim() || !valid}
+            className="px-3 py-1 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+          >
+            Save as New
+          </button>
+          <button
+            onClick={exportFile}
+            disabled={profiles.profiles.length === 0}
+            className="px-3 py-1 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50 flex items-center gap-1"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+          <label className="px-3 py-1 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 cursor-pointer flex items-center gap-1">
+            <Upload className="w-4 h-4" />
+            Import
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(event) => {
+                importFile(event.target.files?.[0]);
+                event.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        {message && <p className={message.error ? 'text-red-600' : 'text-green-700'}>{message.text}</p>}
+        {!valid && <p className="text-red-600">Fix the highlighted fields; the live view keeps the last valid settings.</p>}
+      </div>
+
+      <section className="space-y-3">
+        <h3 className="font-semibold text-gray-800">Motion Detection</h3>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <label className="flex flex-col gap-1 text-gray-600">
+            Method
+            <select
+              value={draft.detector.method}
+              onChange={(event) => updateDetector({ method: event.target.value as DetectionMethod })}
+              className="px-2 py-1 rounded border border-gray-300"
+            >
+              <option value="frame-diff">Frame Diff</option>
+              <option value="background">Background Model</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-gray-600">
+            Sensitivity
+            <span className="flex items-center gap-2">
+              <input
+                type="range"
+                min={DETECTOR_RULES.sensitivity.min}
+                max={DETECTOR_RULES.sensitivity.max}
+                value={draft.detector.sensitivity}
+                onChange={(event) => updateDetector({ sensitivity: Number(event.target.value) })}
+                className="flex-1"
+              />
+              <span className="w-8 text-right">{draft.detector.sensitivity}</span>
+            </span>
+          </label>
+          {detectorField('Pixel difference (RGB sum)', 'minimumPixelDifference', 1)}
+          {detectorField('Pixel step', 'skipFactor')}
+          {detectorField('Grid cell size (px)', 'gridSize')}
+          {detectorField('Cell activation ratio', 'cellActivationRatio', 0.05)}
+          {detectorField('Minimum blob cells', 'minBlobCells')}
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="font-semibold text-gray-800">Sampling</h3>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {detectorField('Sampling interval (ms)', 'samplingInterval', 10)}
+          <label className="flex flex-col gap-1 text-gray-600">
+            Analysis resolution
+            <select
+              value={draft.analysis.analysisWidth}
+              onChange={(event) => update({ ...draft, analysis: { ...draft.analysis, analysisWidth: Number(event.target.value) } })}
+              className="px-2 py-1 rounded border border-gray-300"
+            >
+              {ANALYSIS_WIDTHS.map(width => (
+                <option key={width} value={width}>{width}px wide</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </section>
+
+      <section className={`space-y-3 ${draft.detector.method === 'background' ? '' : 'opacity-50'}`}>
+        <h3 className="font-semibold text-gray-800">Background Model</h3>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {detectorField('Learning rate', 'learningRate', 0.005)}
+          {detectorField('Variance threshold (σ)', 'varianceThreshold', 0.1)}
+          <label className="flex items-center gap-2 text-gray-600 md:mt-6">
+            <input
+              type="checkbox"
+              checked={draft.detector.illuminationCompensation}
+              onChange={(event) => updateDetector({ illuminationCompensation: event.target.checked })}
+            />
+            Illumination compensation
+          </label>
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="font-semibold text-gray-800">Confidence Thresholds</h3>
+        <div className="grid grid-cols-2 gap-4">
+          <NumberField
+            label="Record detections above"
+            value={draft.confidenceThreshold}
+            rule={CONFIDENCE_RULE}
+            step={0.05}
+            error={errors.confidenceThreshold}
+            onChange={(value) => update({ ...draft, confidenceThreshold: value })}
+          />
+          <NumberField
+            label="Outline on video above"
+            value={draft.overlayThreshold}
+            rule={CONFIDENCE_RULE}
+            step={0.05}
+            error={errors.overlayThreshold}
+            onChange={(value) => update({ ...draft, overlayThreshold: value })}
+          />
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="font-semibold text-gray-800">Motion Classes</h3>
+        <p className="text-gray-500">
+          Motion must exceed both cutoffs to get a class; anything below the smallest class is ambient motion.
+        </p>
+        <div className="grid grid-cols-3 gap-4">
+          {MOTION_CLASSES.map(type => (
+            <React.Fragment key={type}>
+              <span className="self-center font-medium text-gray-700">{type.replace('_', ' ')}</span>
+              <NumberField
+                label="Intensity above"
+                value={draft.detector.classThresholds[type].intensity}
+                rule={CLASS_INTENSITY_RULE}
+                step={0.05}
+                error={errors[`detector.classThresholds.${type}.intensity`]}
+                onChange={(value) => updateClass(type, { intensity: value })}
+              />
+              <NumberField
+                label="Share of frame moving above"
+                value={draft.detector.classThresholds[type].coverage}
+                rule={CLASS_COVERAGE_RULE}
+                step={0.001}
+                error={errors[`detector.classThresholds.${type}.coverage`]}
+                onChange={(value) => updateClass(type, { coverage: value })}
+              />
+            </React.Fragment>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Film, Plus, RefreshCw } from 'lucide-react';
+import {
+  createFileSource,
+  createNetworkSource,
+  describeCapabilities,
+  type NetworkSource,
+  type VideoSourceSpec
+} from '@/lib/sources';
+
+interface SourcePanelProps {
+  sources: VideoSourceSpec[];
+  selectedId: string | null;
+  // Why the selected source could not be opened, if it could not
+  error: string | null;
+  onSelect: (id: string) => void;
+  onAdd: (source: VideoSourceSpec) => void;
+  onRemove: (id: string) => void;
+  onRefresh: () => void;
+}
+
+const GROUPS: [string, VideoSourceSpec['kind'][]][] = [
+  ['Cameras', ['device']],
+  ['Network', ['mjpeg', 'hls']],
+  ['Video files', ['file']]
+];
+
+const describeSource = (source: VideoSourceSpec) => {
+  switch (source.kind) {
+    case 'device':
+      return describeCapabilities(source.capabilities);
+    case 'mjpeg':
+      return `MJPEG · ${source.url}`;
+    case 'hls':
+      return `HLS · ${source.url}`;
+    case 'file':
+      return 'Looping video file';
+  }
+};
+
+const SourcePanel = ({ sources, selectedId, error, onSelect, onAdd, onRemove, onRefresh }: SourcePanelProps) => {
+  const [adding, setAdding] = useState(false);
+  const [kind, setKind] = useState<NetworkSource['kind']>('mjpeg');
+  const [url, setUrl] = useState('');
+  const [name, setName] = useState('');
+  const [urlError, setUrlError] = useState<string | null>(null);
+
+  const selected = sources.find(source => source.id === selectedId) ?? null;
+  const ids = sources.map(source => source.id);
+
+  const addNetwork = () => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url.trim());
+    } catch {
+      setUrlError('Not a valid URL');
+      return;
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      setUrlError('Only http and https streams are supported');
+      return;
+    }
+    onAdd(createNetworkSource(kind, parsed.href, name.trim() || parsed.host, ids));
+    setUrlError(null);
+    setUrl('');
+    setName('');
+    setAdding(false);
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedId ?? ''}
+          onChange={(event) => onSelect(event.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 rounded border border-gray-300"
+        >
+          {!selected && <option value="">No source selected</option>}
+          {GROUPS.map(([group, kinds]) => {
+            const members = sources.filter(source => kinds.includes(source.kind));
+            return members.length > 0 && (
+              <optgroup key={group} label={group}>
+                {members.map(source => (
+                  <option key={source.id} value={source.id}>{source.label}</option>
+                ))}
+              </optgroup>
+            );
+          })}
+        </select>
+        <button
+          onClick={onRefresh}
+          title="Look for cameras again"
+          className="p-1.5 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300"
+        >
+          <RefreshCw className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setAdding(prev => !prev)}
+          title="Add a network camera"
+          className={`p-1.5 rounded-lg ${adding ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+        <label title="Loop a video file" className="p-1.5 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 cursor-pointer">
+          <Film className="w-4 h-4" />
+          <input
+            type="file"
+            accept="video/*"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) onAdd(createFileSource(file, ids));
+              event.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      {selected && (
+        <div className="flex items-center justify-between gap-2 text-gray-600">
+          <span className="truncate" title={describeSource(selected)}>
+            <span className="font-medium text-gray-800">{selected.id}</span> · {describeSource(selected)}
+          </span>
+          {selected.kind !== 'device' && (
+            <button onClick={() => onRemove(selected.id)} className="px-2 py-0.5 rounded text-red-600 hover:bg-red-50">
+              Remove
+            </button>
+          )}
+        </div>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+
+      {adding && (
+        <div className="flex flex-wrap items-end gap-2">
+          <select
+            value={kind}
+            onChange={(event) => setKind(event.target.value as NetworkSource['kind'])}
+            className="px-2 py-1 rounded border border-gray-300"
+          >
+            <option value="mjpeg">MJPEG</option>
+            <option value="hls">HLS</option>
+          </select>
+          <input
+            type="url"
+            value={url}
+            placeholder={kind === 'hls' ? 'https://camera.local/stream.m3u8' : 'http://camera.local/video.mjpg'}
+            onChange={(event) => {
+              setUrl(event.target.value);
+              setUrlError(null);
+            }}
+            className="flex-1 min-w-0 px-2 py-1 rounded border border-gray-300"
+          />
+          <input
+            type="text"
+            value={name}
+            placeholder="Name, e.g. Feeder cam"
+            onChange={(event) => setName(event.target.value)}
+            className="w-40 px-2 py-1 rounded border border-gray-300"
+          />
+          <button
+            onClick={addNetwork}
+            disabled={!url.trim()}
+            className="px-3 py-1 rounded-lg font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+          >
+            Add
+          </button>
+          {urlError && <p className="w-full text-red-600">{urlError}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SourcePanel;
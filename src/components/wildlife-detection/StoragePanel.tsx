@@ -0,0 +1,84 @@
+'use client';
+
+import React from 'react';
+import type { RetentionPolicy, RetentionReport, StorageUsage } from '@/lib/storage';
+
+interface StoragePanelProps {
+  policy: RetentionPolicy;
+  usage: StorageUsage | null;
+  lastReport: RetentionReport | null;
+  onChange: (policy: RetentionPolicy) => void;
+  onApply: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const StoragePanel = ({ policy, usage, lastReport, onChange, onApply }: StoragePanelProps) => {
+  const update = (changes: Partial<RetentionPolicy>) => onChange({ ...policy, ...changes });
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-800">Storage</h2>
+        <button
+          onClick={onApply}
+          className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+        >
+          Apply Retention Now
+        </button>
+      </div>
+
+      {usage ? (
+        <p className="text-sm text-gray-600 mb-4">
+          {usage.detections} detections · {usage.tracks} tracks · {usage.events} events · {usage.media} media files ({formatBytes(usage.mediaBytes)})
+        </p>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">Local storage unavailable; data will not survive a reload.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+        <label className="flex flex-col gap-1 text-gray-600">
+          Max age (days, 0 = forever)
+          <input
+            type="number"
+            min={0}
+            value={policy.maxAgeDays}
+            onChange={(event) => update({ maxAgeDays: Number(event.target.value) })}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-600">
+          Max media storage (MB, 0 = unlimited)
+          <input
+            type="number"
+            min={0}
+            value={policy.maxStorageMB}
+            onChange={(event) => update({ maxStorageMB: Number(event.target.value) })}
+            className="px-2 py-1 rounded border border-gray-300"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-gray-600 md:mt-6">
+          <input
+            type="checkbox"
+            checked={policy.keepFlagged}
+            onChange={(event) => update({ keepFlagged: event.target.checked })}
+          />
+          Always keep flagged items
+        </label>
+      </div>
+
+      {lastReport && (
+        <p className="mt-4 text-xs text-gray-500">
+          Last clean-up removed {lastReport.detectionsRemoved} detections, {lastReport.tracksRemoved} tracks,{' '}
+          {lastReport.eventsRemoved} events and {lastReport.mediaRemoved} media files ({formatBytes(lastReport.bytesFreed)}).
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default StoragePanel;
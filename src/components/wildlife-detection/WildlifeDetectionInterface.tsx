@@ -1,276 +1,835 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Battery, Video, Image } from 'lucide-react';
+import { Battery, Clock, Cloud, CloudOff, Download, Video, Image, Star } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import AlertPanel from './AlertPanel';
+import AnalysisStatsPanel from './AnalysisStatsPanel';
+import AnalysisView from './AnalysisView';
+import AnalyticsFilterBar from './AnalyticsFilterBar';
+import AutoRecordPanel from './AutoRecordPanel';
+import CameraComparison from './CameraComparison';
+import ClassifierPanel from './ClassifierPanel';
+import DeploymentPanel from './DeploymentPanel';
+import DeploymentSummaryPanel from './DeploymentSummaryPanel';
+import DetectionOverlay from './DetectionOverlay';
+import EventList from './EventList';
+import EventSettingsPanel from './EventSettingsPanel';
+import ExportPanel from './ExportPanel';
+import FileAnalysisPanel from './FileAnalysisPanel';
+import HeatmapOverlay from './HeatmapOverlay';
+import HeatmapPanel from './HeatmapPanel';
+import ImageImportPanel from './ImageImportPanel';
+import LongTermAnalytics from './LongTermAnalytics';
+import MultiCameraView from './MultiCameraView';
+import OverlayPanel from './OverlayPanel';
+import PowerPanel from './PowerPanel';
+import ReviewMetricsPanel from './ReviewMetricsPanel';
+import ReviewPanel from './ReviewPanel';
+import SchedulePanel from './SchedulePanel';
+import SettingsPanel from './SettingsPanel';
+import SourcePanel from './SourcePanel';
+import StoragePanel from './StoragePanel';
+import ZoneOverlay from './ZoneOverlay';
+import ZonePanel from './ZonePanel';
+import { createAlertEngine, fireAlert, type AlertEvent, type AlertRule } from '@/lib/alerts';
+import { createFrameAnalyzer, type AnalysisStats, type FrameAnalyzer } from '@/lib/analysis';
+import { DEFAULT_CLASSIFIER_SETTINGS, type Classifier, type ClassifierSettings } from '@/lib/classification';
+import {
+  addCameraTrack,
+  eventActivity,
+  filterActivity,
+  lastDays,
+  mergeCameraAnalytics,
+  summarizeActivity,
+  summarizeByCamera,
+  type AnalyticsFilter,
+  type CameraAnalytics,
+  type DateRange,
+  type Granularity
+} from '@/lib/analytics';
+import {
+  DEFAULT_DEPLOYMENT_SETTINGS,
+  assignedDeployment,
+  summarizeDeployments,
+  type DeploymentSettings
+} from '@/lib/deployments';
+import {
+  DEFAULT_EVENT_SETTINGS,
+  createEventBuilder,
+  type DetectionEvent,
+  type EventBuilder,
+  type EventSettings
+} from '@/lib/events';
+import { downloadMedia } from '@/lib/export';
+import { formatDuration, formatRuntime, formatTransition } from '@/lib/format';
+import {
+  HEATMAP_WINDOWS,
+  createHeatmapAccumulator,
+  type HeatmapAccumulator,
+  type HeatmapGrid
+} from '@/lib/heatmap';
+import { burstEvents, type ImageImportResult } from '@/lib/offline';
+import {
+  DEFAULT_TRACKER_CONFIG,
+  DEFAULT_ZONE_SENSITIVITY,
+  createTracker,
+  type Detection,
+  type DetectionMethod,
+  type DetectionZone,
+  type MotionActivity,
+  type Point,
+  type Track,
+  type Tracker
+} from '@/lib/detection';
+import {
+  DEFAULT_AUTO_RECORD_SETTINGS,
+  DEFAULT_OVERLAY_SETTINGS,
+  captureFrame,
+  captureStreamFrame,
+  captureThumbnail,
+  createEventRecorder,
+  createOverlayCompositor,
+  drawOverlay,
+  type AutoRecordSettings,
+  type CaptureContext,
+  type EventRecorder,
+  type OverlaySettings,
+  type RecordedClip,
+  type Snapshot
+} from '@/lib/recording';
+import {
+  DEFAULT_POWER_SETTINGS,
+  POWER_PROFILES,
+  applyPowerMode,
+  estimateRuntime,
+  selectPowerMode,
+  watchBattery,
+  type BatteryState,
+  type PowerSettings
+} from '@/lib/power';
+import {
+  REVIEW_CLIP_LOOKBACK,
+  REVIEW_SNAPSHOT_SLACK,
+  createReview,
+  findReviewMedia,
+  type DetectionReview,
+  type ReviewChanges
+} from '@/lib/review';
+import {
+  DEFAULT_SCHEDULE_SETTINGS,
+  isScheduledActive,
+  nextTransition,
+  type ScheduleSettings,
+  type ScheduleTransition
+} from '@/lib/schedule';
+import {
+  DEFAULT_DETECTION_SETTINGS,
+  activeProfileSettings,
+  type CameraProfiles,
+  type DetectionSettings
+} from '@/lib/settings';
+import {
+  listVideoDevices,
+  openVideoSource,
+  setFrameRate,
+  type DeviceSource,
+  type FileSource,
+  type SourceSettings,
+  type VideoSource,
+  type VideoSourceSpec
+} from '@/lib/sources';
+import {
+  ALERT_HISTORY_LIMIT,
+  DEFAULT_RETENTION_POLICY,
+  DEFAULT_SOURCE_SETTINGS,
+  LEGACY_CAMERA_ID,
+  clipToMedia,
+  loadAlertHistory,
+  loadAlertRules,
+  loadDeploymentSettings,
+  loadEventSettings,
+  loadOverlaySettings,
+  loadPowerSettings,
+  loadProfiles,
+  loadRetentionPolicy,
+  loadScheduleSettings,
+  loadSourceSettings,
+  loadZones,
+  mediaToClip,
+  mediaToSnapshot,
+  openDetectionStore,
+  saveAlertHistory,
+  saveAlertRules,
+  saveDeploymentSettings,
+  saveEventSettings,
+  saveOverlaySettings,
+  savePowerSettings,
+  saveProfiles,
+  saveRetentionPolicy,
+  saveScheduleSettings,
+  saveSourceSettings,
+  saveZones,
+  snapshotToMedia,
+  trackKey,
+  type DetectionStore,
+  type RetentionPolicy,
+  type RetentionReport,
+  type StorageUsage,
+  type StoredDetection,
+  type StoredMedia,
+  type StoredTrack
+} from '@/lib/storage';
+import { createSyncClient, type SyncClient, type SyncStatus } from '@/lib/sync';
+
+interface SystemState {
+  isActive: boolean;
+}
+
+interface DetectionRecord extends StoredDetection {
+  time: string;
+}
+
+const toDetectionRecord = (detection: StoredDetection): DetectionRecord => ({
+  ...detection,
+  time: new Date(detection.timestamp).toLocaleTimeString()
+});
+
+// Frames sent with webhook alerts are JPEG to keep the JSON payload small
+const ALERT_SNAPSHOT_QUALITY = 0.85;
+// How often the heatmap on screen is recomputed from the accumulated counts
+const HEATMAP_REFRESH_INTERVAL = 2000;
+// How often heatmaps that saw motion are written to the local store
+const HEATMAP_SAVE_INTERVAL = 60 * 1000;
+// How often open events are checked for having gone quiet
+const EVENT_CHECK_INTERVAL = 1000;
+// How often the schedule is re-evaluated; transitions land within this of their time
+const SCHEDULE_CHECK_INTERVAL = 30 * 1000;
+
+// How often buffered detections are written to IndexedDB and retention re-applied
+const DETECTION_FLUSH_INTERVAL = 1000;
+const RETENTION_INTERVAL = 60 * 60 * 1000;
 
 const WildlifeDetectionInterface = () => {
   // States
-  const [systemState, setSystemState] = useState({
-    isActive: true,
-    powerMode: 'ACTIVE',
-    batteryLevel: 100
+  const [systemState, setSystemState] = useState<SystemState>({
+    isActive: true
   });
-  const [availableCameras, setAvailableCameras] = useState([]);
+  const [powerSettings, setPowerSettings] = useState<PowerSettings>(DEFAULT_POWER_SETTINGS);
+  const [scheduleSettings, setScheduleSettings] = useState<ScheduleSettings>(DEFAULT_SCHEDULE_SETTINGS);
+  // Null while no schedule is enabled or nothing is scheduled ahead
+  const [scheduleTransition, setScheduleTransition] = useState<ScheduleTransition | null>(null);
+  // Null where the browser does not report the battery
+  const [apiBattery, setApiBattery] = useState<BatteryState | null>(null);
+  // Set by a detection while sleeping, cleared once wakeMinutes pass without another
+  const [awake, setAwake] = useState(false);
+  // Null until the first device listing has finished
+  const [devices, setDevices] = useState<DeviceSource[] | null>(null);
+  const [sourceSettings, setSourceSettings] = useState<SourceSettings>(DEFAULT_SOURCE_SETTINGS);
+  // Files cannot be kept across reloads, so looping sources only last for the session
+  const [fileSources, setFileSources] = useState<FileSource[]>([]);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [deploymentSettings, setDeploymentSettings] = useState<DeploymentSettings>(DEFAULT_DEPLOYMENT_SETTINGS);
   // Analysis States
-const [detectionData, setDetectionData] = useState([]);
-const [analyticsData, setAnalyticsData] = useState({
-  totalDetections: 0,
-  detectionsByType: {},
-  hourlyActivity: Array(24).fill(0)
+const [detectionData, setDetectionData] = useState<DetectionRecord[]>([]);
+const [cameraAnalytics, setCameraAnalytics] = useState<CameraAnalytics>({});
+// The Analysis tab reads stored tracks over a date range; its filters apply to every chart there
+const [analyticsRange, setAnalyticsRange] = useState<DateRange>(() => lastDays(30));
+const [analyticsGranularity, setAnalyticsGranularity] = useState<Granularity>('day');
+const [analyticsFilter, setAnalyticsFilter] = useState<AnalyticsFilter>({
+  cameraId: null,
+  deploymentId: null,
+  minConfidence: 0
 });
-  
-  const [selectedCamera, setSelectedCamera] = useState('built-in');
+const [rangeTracks, setRangeTracks] = useState<StoredTrack[]>([]);
+const [rangeEvents, setRangeEvents] = useState<DetectionEvent[]>([]);
+const [eventSettings, setEventSettings] = useState<EventSettings>(DEFAULT_EVENT_SETTINGS);
+const [rangeLoading, setRangeLoading] = useState(false);
+const [showHeatmap, setShowHeatmap] = useState(false);
+const [heatmapWindow, setHeatmapWindow] = useState(HEATMAP_WINDOWS[1].duration);
+const [heatmap, setHeatmap] = useState<HeatmapGrid | null>(null);
+// Object URL of the still the Analysis tab lays the heatmap over, per camera
+const [heatmapReferences, setHeatmapReferences] = useState<Record<string, string>>({});
+// Verdicts on the range's tracks, by track key
+const [reviews, setReviews] = useState<Record<string, DetectionReview>>({});
+
+  const [settings, setSettings] = useState<DetectionSettings>(DEFAULT_DETECTION_SETTINGS);
+  const [cameraProfiles, setCameraProfiles] = useState<CameraProfiles>({ activeId: null, profiles: [] });
   const [selectedTab, setSelectedTab] = useState('live');
-  const [recordingState, setRecordingState] = useState('idle');
-  const [recordings, setRecordings] = useState([]);
-  const [snapshots, setSnapshots] = useState([]);
-  
+  const [recordingState, setRecordingState] = useState<'idle' | 'recording'>('idle');
+  const [recordings, setRecordings] = useState<RecordedClip[]>([]);
+  const [autoRecord, setAutoRecord] = useState<AutoRecordSettings>(DEFAULT_AUTO_RECORD_SETTINGS);
+  const [autoCapturing, setAutoCapturing] = useState(false);
+  const [overlaySettings, setOverlaySettings] = useState<OverlaySettings>(DEFAULT_OVERLAY_SETTINGS);
+  const [streamReady, setStreamReady] = useState(false);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [retentionPolicy, setRetentionPolicy] = useState<RetentionPolicy>(DEFAULT_RETENTION_POLICY);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [retentionReport, setRetentionReport] = useState<RetentionReport | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+  const [alertHistory, setAlertHistory] = useState<AlertEvent[]>([]);
+  // Latest analysed frame when it is confident enough to outline on the video
+  const [overlayDetection, setOverlayDetection] = useState<Detection | null>(null);
+  // Every analysed frame, confident or not, while the Settings tab previews the thresholds
+  const [previewDetection, setPreviewDetection] = useState<Detection | null>(null);
+  const [activeTracks, setActiveTracks] = useState<Track[]>([]);
+  const [zones, setZones] = useState<DetectionZone[]>([]);
+  const [editingZones, setEditingZones] = useState(false);
+  const [frameSize, setFrameSize] = useState({ width: 1920, height: 1080 });
+  const [analysisStats, setAnalysisStats] = useState<AnalysisStats | null>(null);
+  const [classifier, setClassifier] = useState<Classifier | null>(null);
+  const [classifierSettings, setClassifierSettings] = useState<ClassifierSettings>(DEFAULT_CLASSIFIER_SETTINGS);
+
+  const sources: VideoSourceSpec[] = [...(devices ?? []), ...sourceSettings.network, ...fileSources];
+  const selectedSource = sources.find(source => source.id === sourceSettings.selectedId) ?? null;
+  const selectedSourceId = selectedSource?.id ?? null;
+  // Detections, zones and settings profiles are kept under the source's id
+  const cameraId = selectedSourceId ?? 'default';
+  // The grid opens its own sources, so the single feed is closed while it is shown
+  const singleViewOpen = selectedTab !== 'multi-view';
+  const analysisOpen = selectedTab === 'analysis';
+  const reviewOpen = selectedTab === 'review';
+  // The Analysis tab's camera filter picks the heatmap there; elsewhere it follows the live camera
+  const heatmapCamera = analysisOpen ? analyticsFilter.cameraId ?? cameraId : cameraId;
+  const battery: BatteryState = apiBattery ?? {
+    level: powerSettings.manualLevel,
+    charging: false,
+    dischargingTime: null,
+    source: 'manual'
+  };
+  const scheduledPowerMode = selectPowerMode(powerSettings, battery);
+  const powerMode = awake && scheduledPowerMode === 'SLEEP' ? 'ACTIVE' : scheduledPowerMode;
+  const runtime = estimateRuntime(battery, powerMode, powerSettings);
+  // What the analyzer actually runs with once the power mode's limits are applied
+  const poweredSettings = applyPowerMode(settings, powerMode);
+  // Stamped on snapshots and recordings, and drawn into them when overlays are on
+  const captureContext: CaptureContext = {
+    cameraId,
+    cameraName: selectedSource?.label ?? cameraId,
+    deploymentId: assignedDeployment(deploymentSettings, cameraId, Date.now())?.id,
+    battery: { level: battery.level, charging: battery.charging },
+    detection: overlayDetection,
+    overlay: overlaySettings.enabled ? overlaySettings : null
+  };
+
   // Refs
-  const videoRef = useRef(null);
-  const streamRef = useRef(null);
-  const mediaRecorderRef = useRef(null);
-  const recordedChunksRef = useRef([]);
+  // Re-pointed when the feed moves between the Live and Settings tabs
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const sourceRef = useRef<VideoSource | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const recordedChunksRef = useRef<Blob[]>([]);
+  const recordingStartedRef = useRef(0);
+  const eventRecorderRef = useRef<EventRecorder | null>(null);
+  // Read from the analysis interval, which would otherwise see the settings it was started with
+  const autoRecordRef = useRef(autoRecord);
+  // Settings the analyzer starts with; later changes are pushed to it by an effect
+  const analysisSettingsRef = useRef(poweredSettings.analysis);
+  const storeRef = useRef<DetectionStore | null>(null);
+  const pendingDetectionsRef = useRef<StoredDetection[]>([]);
+  const syncRef = useRef<SyncClient | null>(null);
+  const alertEngineRef = useRef(createAlertEngine());
+  const wakeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // What the schedule last asked for; null until it has asked for anything
+  const scheduledActiveRef = useRef<boolean | null>(null);
+  // Mirrors `reviews` so queued edits build on each other rather than on the render they started in
+  const reviewsRef = useRef<Record<string, DetectionReview>>({});
+  const reviewQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Open event per camera; grid tiles report through handleDetection, so theirs are kept here too
+  const eventBuildersRef = useRef<Record<string, EventBuilder>>({});
+  // Motion counts per camera for the spatial heatmap, restored from the local store on load
+  const heatmapsRef = useRef<Record<string, HeatmapAccumulator>>({});
+  // Cameras whose heatmap changed since it was last saved
+  const changedHeatmapsRef = useRef<Set<string>>(new Set());
+  // Callbacks held by the recorder and analysis loop read the camera through this
+  const cameraIdRef = useRef<string>('default');
+  // Read when records are stamped, since the recorder and event timer hold callbacks from earlier renders
+  const deploymentSettingsRef = useRef(deploymentSettings);
+  // Read by the overlay compositors on every frame they draw
+  const captureContextRef = useRef(captureContext);
+  // Analytics are only written back once the stored copy has been loaded, so a reload cannot zero them
+  const hydratedRef = useRef(false);
   // Analysis Refs
-const canvasRef = useRef(document.createElement('canvas'));
-const previousFrameRef = useRef(null);
-const analysisContextRef = useRef(null);
-const processingRef = useRef(false);
-const analysisIntervalRef = useRef(null);
-
-// Camera configuration
-const cameraConfig = {
-  sensitivity: 20,
-  minimumPixelDifference: 10,
-  samplingInterval: 50,
-  gridSize: 32
-};
+const analyzerRef = useRef<FrameAnalyzer | null>(null);
+const trackerRef = useRef<Tracker>(createTracker());
+// The analyzer is created once, so it reaches the current render's handler through this
+const analysisResultRef = useRef<(detection: Detection | null, timestamp: number) => void>(() => undefined);
 
 
 // Analysis Functions
-const analyzeFrame = () => {
-  if (!videoRef.current || !videoRef.current.videoWidth || processingRef.current || !analysisContextRef.current) {
-    return;
+const handleAnalysisResult = (detection: Detection | null, timestamp: number) => {
+  updateOverlay(detection);
+  if (selectedTab === 'settings') {
+    setPreviewDetection(prev => (prev === null && detection === null ? prev : detection));
+  }
+  const confident = detection && detection.confidence > settings.confidenceThreshold ? detection : null;
+  if (confident) {
+    handleDetection(confident);
+    updateAutoRecording(confident, timestamp);
   }
 
-  processingRef.current = true;
-  const context = analysisContextRef.current;
-  const canvas = canvasRef.current;
+  const { active, finished } = trackerRef.current.update(confident, timestamp);
+  setActiveTracks(prev => (prev.length === 0 && active.length === 0 ? prev : active));
+  finished.forEach(track => handleTrackFinished(track));
+};
 
-  try {
-    // Make sure canvas dimensions match video dimensions
-    if (canvas.width !== videoRef.current.videoWidth || canvas.height !== videoRef.current.videoHeight) {
-      canvas.width = videoRef.current.videoWidth;
-      canvas.height = videoRef.current.videoHeight;
-    }
+const startFrameAnalysis = () => {
+  const video = videoRef.current;
+  if (!video || !video.videoWidth) return;
 
-    context.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
-    const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
+  setFrameSize({ width: video.videoWidth, height: video.videoHeight });
+  analyzerRef.current?.start(video);
+};
 
-    if (!previousFrameRef.current) {
-      previousFrameRef.current = new Uint8ClampedArray(data);
-      processingRef.current = false;
-      return;
-    }
+const cleanup = () => {
+  analyzerRef.current?.stop();
 
-    let totalMotion = 0;
-    let motionPoints = 0;
-
-    // Enhanced pixel sampling with bounds checking
-    const skipFactor = 8;
-    const width = canvas.width;
-    const height = canvas.height;
-
-    for (let y = 0; y < height; y += skipFactor) {
-      for (let x = 0; x < width; x += skipFactor) {
-        const i = (y * width + x) * 4;
-        if (i >= 0 && i < data.length - 3) {  // Ensure we don't go out of bounds
-          const diff = Math.abs(data[i] - previousFrameRef.current[i]) +
-                      Math.abs(data[i + 1] - previousFrameRef.current[i + 1]) +
-                      Math.abs(data[i + 2] - previousFrameRef.current[i + 2]);
-
-          if (diff > cameraConfig.minimumPixelDifference) {
-            totalMotion += diff;
-            motionPoints++;
-          }
-        }
-      }
-    }
+  sourceRef.current?.close();
+  sourceRef.current = null;
+  streamRef.current = null;
+  if (videoRef.current) {
+    videoRef.current.srcObject = null;
+  }
 
-    previousFrameRef.current = new Uint8ClampedArray(data);
+  analyzerRef.current?.reset();
+  trackerRef.current.flush().forEach(track => handleTrackFinished(track));
+  eventBuilderFor(cameraIdRef.current).flush().forEach(handleEventFinished);
+  setStreamReady(false);
+  setOverlayDetection(null);
+  setPreviewDetection(null);
+  setActiveTracks([]);
+};
 
-    if (motionPoints > 0) {
-      const intensity = Math.min(totalMotion / (motionPoints * 765), 1);
-      const detection = {
-        timestamp: new Date().toISOString(),
-        intensity,
-        confidence: calculateConfidence(intensity, motionPoints),
-        type: classifyMotion(intensity, motionPoints)
-      };
+const updateOverlay = (detection: Detection | null) => {
+  const next = detection && detection.confidence > settings.overlayThreshold ? detection : null;
+  // Skip the re-render on the common quiet frame
+  setOverlayDetection(prev => (prev === null && next === null ? prev : next));
+};
 
-      handleDetection(detection);
-    }
-  } catch (error) {
-    console.error('Frame analysis error:', error);
-  } finally {
-    processingRef.current = false;
+const updateAutoRecording = (detection: Detection, timestamp: number) => {
+  const recorder = eventRecorderRef.current;
+  if (!recorder) return;
+
+  recorder.noteMotion(timestamp);
+  if (detection.confidence >= autoRecordRef.current.confidenceThreshold) {
+    recorder.trigger(detection, timestamp);
   }
+  const capturing = recorder.isCapturing();
+  setAutoCapturing(prev => (prev === capturing ? prev : capturing));
 };
 
-const startFrameAnalysis = () => {
-  if (analysisIntervalRef.current) {
-    clearInterval(analysisIntervalRef.current);
+const handleClip = (recorded: RecordedClip) => {
+  const context = { ...captureContextAt(recorded.startedAt), detection: recorded.trigger };
+  const clip = { ...recorded, context };
+  setRecordings(prev => [...prev, clip]);
+  setAutoCapturing(false);
+  persistMedia(clipToMedia(clip, context.cameraId, context.deploymentId));
+};
+
+// Redraws the live feed with the overlay as it stands at each frame
+const drawLiveOverlay = (ctx: CanvasRenderingContext2D) => drawOverlay(ctx, captureContextRef.current, Date.now());
+
+// The context as of the last render, stamped with the deployment open when the capture began
+const captureContextAt = (timestamp: number): CaptureContext => ({
+  ...captureContextRef.current,
+  deploymentId: deploymentIdFor(captureContextRef.current.cameraId, timestamp)
+});
+
+// Callers apply their camera's confidence threshold first; grid tiles pass their own camera id and video
+const handleDetection = (detection: Detection, cameraId = cameraIdRef.current, video = videoRef.current) => {
+  const timestamp = Date.parse(detection.timestamp);
+  const stored: StoredDetection = {
+    id: `${detection.timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+    cameraId,
+    deploymentId: deploymentIdFor(cameraId, timestamp),
+    timestamp,
+    intensity: detection.intensity,
+    motionPoints: detection.motionPoints,
+    coverage: detection.coverage,
+    confidence: detection.confidence,
+    type: detection.type,
+    label: detection.label,
+    labels: detection.labels,
+    boxes: detection.boxes,
+    zoneIds: detection.zoneIds,
+    flagged: false
+  };
+  pendingDetectionsRef.current.push(stored);
+  setDetectionData(prev => [...prev, toDetectionRecord(stored)].slice(-50));
+
+  const builder = eventBuilderFor(cameraId);
+  const { finished, peaked } = builder.add(detection, stored.timestamp);
+  finished.forEach(handleEventFinished);
+  if (peaked && video) {
+    captureThumbnail(video)
+      .then(blob => blob && builder.setThumbnail(stored.timestamp, blob))
+      .catch(error => console.error('Could not capture an event thumbnail:', error));
   }
 
-  // Run analysis more frequently for smoother updates
-  analysisIntervalRef.current = setInterval(() => {
-    if (systemState.isActive) {
-      analyzeFrame();
-    }
-  }, 50);  // Reduced from 100ms to 50ms for more frequent updates
-};
+  alertEngineRef.current
+    .evaluate(alertRules, detection, cameraId, stored.timestamp)
+    .forEach(rule => triggerAlert(rule, detection, cameraId, video));
 
-const cleanup = () => {
-  if (analysisIntervalRef.current) {
-    clearInterval(analysisIntervalRef.current);
-    analysisIntervalRef.current = null;
+  if (scheduledPowerMode === 'SLEEP') {
+    wakeUp();
   }
+};
+
+// Every detection while woken restarts the wake period
+const wakeUp = () => {
+  setAwake(true);
+  if (wakeTimerRef.current) clearTimeout(wakeTimerRef.current);
+  wakeTimerRef.current = setTimeout(() => {
+    wakeTimerRef.current = null;
+    setAwake(false);
+  }, powerSettings.wakeMinutes * 60 * 1000);
+};
+
+const deploymentIdFor = (sourceId: string, timestamp: number) =>
+  assignedDeployment(deploymentSettingsRef.current, sourceId, timestamp)?.id;
 
-  if (streamRef.current) {
-    streamRef.current.getTracks().forEach(track => track.stop());
-    streamRef.current = null;
+const eventBuilderFor = (id: string) => {
+  eventBuildersRef.current[id] = eventBuildersRef.current[id] ?? createEventBuilder(id, eventSettings);
+  return eventBuildersRef.current[id];
+};
+
+// Events are what the Analysis tab counts
+const handleEventFinished = (finished: DetectionEvent) => {
+  const event = { ...finished, deploymentId: deploymentIdFor(finished.cameraId, finished.start) };
+  if (event.start >= analyticsRange.from && event.start < analyticsRange.to) {
+    setRangeEvents(prev => [...prev, event]);
   }
+  setCameraAnalytics(prev => addCameraTrack(prev, event.cameraId, { label: event.label, firstSeen: event.start }));
+  persist(store => store.saveEvent(event));
+};
 
-  previousFrameRef.current = null;
-  processingRef.current = false;
+const updateEventSettings = (next: EventSettings) => {
+  setEventSettings(next);
+  saveEventSettings(next);
+  Object.values(eventBuildersRef.current).forEach(builder => builder.configure(next));
 };
 
-const calculateConfidence = (intensity, points) => {
-  const intensityFactor = Math.min(intensity * 2, 1);
-  const coverageFactor = Math.min(points / 1000, 1);
-  return (intensityFactor * 0.6 + coverageFactor * 0.4);
+const heatmapFor = (id: string) => {
+  heatmapsRef.current[id] = heatmapsRef.current[id] ?? createHeatmapAccumulator();
+  return heatmapsRef.current[id];
 };
 
-const classifyMotion = (intensity, points) => {
-  if (intensity > 0.7 && points > 500) return 'LARGE_ANIMAL';
-  if (intensity > 0.4 && points > 200) return 'MEDIUM_ANIMAL';
-  if (intensity > 0.2 && points > 50) return 'SMALL_ANIMAL';
-  return 'AMBIENT_MOTION';
+// Reaches the accumulators through refs alone, so the analysis worker's callback can hold it
+const recordActivity = (id: string, activity: MotionActivity, timestamp: number) => {
+  heatmapsRef.current[id] = heatmapsRef.current[id] ?? createHeatmapAccumulator();
+  heatmapsRef.current[id].add(activity, timestamp);
+  changedHeatmapsRef.current.add(id);
 };
 
-const handleDetection = (detection) => {
-  if (detection.confidence > 0.4) {
-    setDetectionData(prev => [...prev, {
-      time: new Date(detection.timestamp).toLocaleTimeString(),
-      intensity: detection.intensity,
-      confidence: detection.confidence,
-      type: detection.type
-    }].slice(-50));
+// Waits for the stored slices to be restored, so a save cannot overwrite them with this session's alone
+const flushHeatmaps = () => {
+  if (!hydratedRef.current) return;
+  const changed = Array.from(changedHeatmapsRef.current);
+  changedHeatmapsRef.current.clear();
+  changed.forEach(id => persist(store => store.saveHeatmap(id, heatmapFor(id).slices())));
+};
 
-    updateAnalytics(detection);
+const captureHeatmapReference = () => {
+  const stream = streamRef.current;
+  if (!stream) return;
+  const id = cameraId;
+  captureStreamFrame(stream)
+    .then(blob => {
+      if (!blob) return;
+      const url = URL.createObjectURL(blob);
+      setHeatmapReferences(prev => {
+        if (prev[id]) URL.revokeObjectURL(prev[id]);
+        return { ...prev, [id]: url };
+      });
+    })
+    .catch(error => console.error('Could not capture a reference still:', error));
+};
+
+const updatePowerSettings = (next: PowerSettings) => {
+  setPowerSettings(next);
+  savePowerSettings(next);
+};
+
+const triggerAlert = (rule: AlertRule, detection: Detection, cameraId: string, video: HTMLVideoElement | null) => {
+  fireAlert({
+    rule,
+    detection,
+    cameraId,
+    firedAt: Date.now(),
+    captureSnapshot: () => (video ? captureFrame(video, 'image/jpeg', ALERT_SNAPSHOT_QUALITY) : Promise.resolve(null))
+  }).then(event => setAlertHistory(prev => [event, ...prev].slice(0, ALERT_HISTORY_LIMIT)));
+};
+
+// A made-up detection that runs the rule's actions, ignoring its conditions and cooldown
+const testAlert = (rule: AlertRule) => {
+  const type = rule.types[0] ?? 'LARGE_ANIMAL';
+  const width = videoRef.current?.videoWidth || frameSize.width;
+  const height = videoRef.current?.videoHeight || frameSize.height;
+  triggerAlert(rule, {
+    timestamp: new Date().toISOString(),
+    intensity: 1,
+    confidence: 1,
+    type,
+    label: type,
+    labels: [],
+    motionPoints: 0,
+    coverage: 0,
+    frameWidth: width,
+    frameHeight: height,
+    boxes: [],
+    zoneIds: []
+  }, cameraId, videoRef.current);
+};
+
+const updateAlertRules = (rules: AlertRule[]) => {
+  setAlertRules(rules);
+  saveAlertRules(rules);
+};
+
+// Tracks follow one animal's path; the totals are counted from events instead
+const handleTrackFinished = (track: Track, cameraId = cameraIdRef.current) => {
+  const deploymentId = deploymentIdFor(cameraId, track.firstSeen);
+  if (track.firstSeen >= analyticsRange.from && track.firstSeen < analyticsRange.to) {
+    setRangeTracks(prev => [...prev, { ...track, key: trackKey(track), cameraId, deploymentId, flagged: false }]);
   }
+  persist(store => store.saveTrack(track, cameraId, deploymentId));
 };
 
-const updateAnalytics = (detection) => {
-  setAnalyticsData(prev => {
-    const hour = new Date(detection.timestamp).getHours();
-    const hourlyActivity = [...prev.hourlyActivity];
-    hourlyActivity[hour]++;
+// Imported stills join the live data: detections go through the store and sync, and each burst with an
+// animal in it is saved as an event so the Analysis tab counts it like a live sighting
+const handleImageImport = (result: ImageImportResult, cameraId: string) => {
+  const imported = result.bursts.flatMap(burst => burst.images).flatMap((image): StoredDetection[] => {
+    if (!image.detection) return [];
+    return [{
+      // Stable ids make re-importing the same folder a no-op in the store and on the server
+      id: `import-${cameraId}-${image.timestamp}-${image.file.name}`,
+      cameraId,
+      deploymentId: deploymentIdFor(cameraId, image.timestamp),
+      timestamp: image.timestamp,
+      intensity: image.detection.intensity,
+      motionPoints: image.detection.motionPoints,
+      coverage: image.detection.coverage,
+      confidence: image.detection.confidence,
+      type: image.detection.type,
+      label: image.detection.label,
+      labels: image.detection.labels,
+      boxes: image.detection.boxes,
+      zoneIds: image.detection.zoneIds,
+      flagged: false
+    }];
+  });
+  pendingDetectionsRef.current.push(...imported);
+  flushDetections();
+  burstEvents(result, cameraId)
+    .then(skipKnownEvents)
+    .then(events => events.forEach(handleEventFinished))
+    .catch(error => console.error('Failed to save imported events:', error));
+};
 
-    return {
-      totalDetections: prev.totalDetections + 1,
-      detectionsByType: {
-        ...prev.detectionsByType,
-        [detection.type]: (prev.detectionsByType[detection.type] || 0) + 1
-      },
-      hourlyActivity
-    };
+// Re-importing a folder rebuilds the same event ids; those already stored or shown are dropped so the
+// range and the totals do not count them twice
+const skipKnownEvents = async (events: DetectionEvent[]) => {
+  if (events.length === 0) return events;
+  const store = storeRef.current;
+  const stored = store
+    ? await store.listEvents({ from: events[0].start, to: events[events.length - 1].start })
+    : [];
+  const known = new Set([...stored, ...rangeEvents].map(event => event.id));
+  return events.filter(event => !known.has(event.id));
+};
+
+// Storage is best effort: the live view keeps working when IndexedDB is missing or full
+const persist = (write: (store: DetectionStore) => Promise<unknown>) => {
+  const store = storeRef.current;
+  if (!store) return;
+  write(store).catch(error => console.error('Storage write failed:', error));
+};
+
+// Media is uploaded once it is safely in the local store, since the outbox only keeps its id
+const persistMedia = (media: StoredMedia) => {
+  persist(async store => {
+    await store.saveMedia(media);
+    await syncRef.current?.enqueueMedia(media.id);
+  });
+};
+
+const loadRange = (range: DateRange) => {
+  const store = storeRef.current;
+  if (!store) return;
+  setRangeLoading(true);
+  const query = { from: range.from, to: range.to - 1 };
+  Promise.all([store.listTracks(query), store.listEvents(query)])
+    .then(([tracks, events]) => {
+      setRangeTracks(tracks);
+      setRangeEvents(events);
+    })
+    .catch(error => console.error('Failed to load tracks and events:', error))
+    .finally(() => setRangeLoading(false));
+};
+
+const loadReviews = (range: DateRange) => {
+  const store = storeRef.current;
+  if (!store) return;
+  store.listReviews({ from: range.from, to: range.to - 1 })
+    .then(list => {
+      reviewsRef.current = list.reduce((byKey, review) => ({ ...byKey, [review.key]: review }), {});
+      setReviews(reviewsRef.current);
+    })
+    .catch(error => console.error('Failed to load reviews:', error));
+};
+
+// The first edit of an event copies in its stored frames; edits are queued so none is lost while that loads
+const reviewTrack = (track: StoredTrack, changes: ReviewChanges) => {
+  const store = storeRef.current;
+  if (!store) return;
+  reviewQueueRef.current = reviewQueueRef.current
+    .then(async () => {
+      const base = reviewsRef.current[track.key] ??
+        createReview(track, await store.listDetections({ from: track.firstSeen, to: track.lastSeen }));
+      const review = { ...base, ...changes, reviewedAt: Date.now() };
+      reviewsRef.current = { ...reviewsRef.current, [review.key]: review };
+      setReviews(reviewsRef.current);
+      await store.saveReview(review);
+    })
+    .catch(error => console.error('Failed to save review:', error));
+};
+
+// A clip covering the event, or failing that the closest snapshot
+const loadReviewMedia = async (track: StoredTrack) => {
+  const store = storeRef.current;
+  if (!store) return null;
+  const media = await store.listMedia({
+    from: track.firstSeen - REVIEW_CLIP_LOOKBACK,
+    to: track.lastSeen + REVIEW_SNAPSHOT_SLACK
   });
+  return findReviewMedia(track, media);
 };
 
-  // Camera Detection and Initialization Functions
-const detectCameras = async () => {
+const flushDetections = () => {
+  const pending = pendingDetectionsRef.current;
+  if (pending.length === 0) return;
+  pendingDetectionsRef.current = [];
+  persist(store => store.saveDetections(pending));
+  syncRef.current?.enqueueDetections(pending).catch(error => console.error('Sync queue failed:', error));
+};
+
+const runRetention = async (policy: RetentionPolicy) => {
+  const store = storeRef.current;
+  if (!store) return;
   try {
-    console.log('Starting camera detection...');
-    await navigator.mediaDevices.getUserMedia({ video: true });
-    
-    const devices = await navigator.mediaDevices.enumerateDevices();
-    const videoDevices = devices
-      .filter(device => device.kind === 'videoinput')
-      .map(device => ({
-        id: device.deviceId,
-        label: device.label || 'Unknown Camera',
-        type: device.label.toLowerCase().includes('iphone') ? 'continuity' : 'built-in'
-      }));
-    
-    setAvailableCameras(videoDevices);
+    setRetentionReport(await store.applyRetention(policy));
+    setStorageUsage(await store.getUsage());
   } catch (error) {
-    console.error('Camera detection error:', error);
+    console.error('Retention clean-up failed:', error);
   }
 };
 
-const initializeCamera = async () => {
-  try {
-    await detectCameras();
-    const selectedDevice = availableCameras.find(camera => camera.type === selectedCamera);
-
-    const constraints = {
-      video: selectedDevice ? {
-        deviceId: { exact: selectedDevice.id },
-        width: { ideal: selectedCamera === 'continuity' ? 3840 : 1920 },
-        height: { ideal: selectedCamera === 'continuity' ? 2160 : 1080 },
-        frameRate: { ideal: selectedCamera === 'continuity' ? 60 : 30 }
-      } : true
-    };
+const updateRetentionPolicy = (policy: RetentionPolicy) => {
+  setRetentionPolicy(policy);
+  saveRetentionPolicy(policy);
+};
 
-    const stream = await navigator.mediaDevices.getUserMedia(constraints);
-    streamRef.current = stream;
-    
-    if (videoRef.current) {
-      videoRef.current.srcObject = stream;
-      videoRef.current.onloadedmetadata = () => {
-        const canvas = canvasRef.current;
-        canvas.width = videoRef.current.videoWidth;
-        canvas.height = videoRef.current.videoHeight;
-        analysisContextRef.current = canvas.getContext('2d', { willReadFrequently: true });
-        startFrameAnalysis();
-      };
-    }
+const toggleClipFlag = (clip: RecordedClip) => {
+  setRecordings(prev => prev.map(item => (item.id === clip.id ? { ...item, flagged: !clip.flagged } : item)));
+  persist(store => store.setMediaFlagged(clip.id, !clip.flagged));
+};
+
+const toggleSnapshotFlag = (snapshot: Snapshot) => {
+  setSnapshots(prev => prev.map(item => (item.id === snapshot.id ? { ...item, flagged: !snapshot.flagged } : item)));
+  persist(store => store.setMediaFlagged(snapshot.id, !snapshot.flagged));
+};
+
+  // Video Source Functions
+const refreshDevices = async () => {
+  try {
+    setDevices(await listVideoDevices());
   } catch (error) {
-    console.error('Camera initialization error:', error);
-    // Fallback to any available camera
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ video: true });
-      streamRef.current = stream;
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-      }
-    } catch (fallbackError) {
-      console.error('Fallback camera initialization failed:', fallbackError);
-    }
+    console.error('Camera detection error:', error);
+    setDevices([]);
+  }
+};
+
+const updateSourceSettings = (next: SourceSettings) => {
+  setSourceSettings(next);
+  saveSourceSettings(next);
+};
+
+const addSource = (source: VideoSourceSpec) => {
+  if (source.kind === 'device') return;
+  if (source.kind === 'file') {
+    setFileSources(prev => [...prev, source]);
+    updateSourceSettings({ ...sourceSettings, selectedId: source.id });
+    return;
+  }
+  updateSourceSettings({ ...sourceSettings, selectedId: source.id, network: [...sourceSettings.network, source] });
+};
+
+const removeSource = (id: string) => {
+  setFileSources(prev => prev.filter(source => source.id !== id));
+  updateSourceSettings({
+    selectedId: sourceSettings.selectedId === id ? null : sourceSettings.selectedId,
+    network: sourceSettings.network.filter(source => source.id !== id),
+    gridIds: sourceSettings.gridIds.filter(item => item !== id)
+  });
+};
+
+const handleVideoReady = () => {
+  startFrameAnalysis();
+  setStreamReady(true);
+};
+
+const attachSource = (source: VideoSource) => {
+  sourceRef.current = source;
+  streamRef.current = source.stream;
+  // Devices that could not report capabilities before they were opened can now
+  if (source.spec.kind === 'device' && !source.spec.capabilities && source.capabilities) {
+    const { id } = source.spec;
+    setDevices(prev => prev?.map(device => (
+      device.id === id ? { ...device, capabilities: source.capabilities } : device
+    )) ?? prev);
+  }
+
+  if (videoRef.current) {
+    videoRef.current.srcObject = source.stream;
+    videoRef.current.onloadedmetadata = handleVideoReady;
   }
 };
 
   // Functions
   const startRecording = async () => {
     if (!streamRef.current) return;
-    
+
     recordedChunksRef.current = [];
-    const mediaRecorder = new MediaRecorder(streamRef.current);
-    
+    recordingStartedRef.current = Date.now();
+    const context = captureContextAt(recordingStartedRef.current);
+    const compositor = context.overlay ? createOverlayCompositor(streamRef.current, drawLiveOverlay) : null;
+    const mediaRecorder = new MediaRecorder(compositor?.stream ?? streamRef.current);
+
     mediaRecorder.ondataavailable = (event) => {
       if (event.data.size > 0) {
         recordedChunksRef.current.push(event.data);
       }
     };
-    
+
     mediaRecorder.onstop = () => {
+      compositor?.stop();
       const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' });
-      const url = URL.createObjectURL(blob);
-      setRecordings(prev => [...prev, url]);
+      const clip: RecordedClip = {
+        id: `clip-${recordingStartedRef.current}`,
+        url: URL.createObjectURL(blob),
+        blob,
+        mimeType: 'video/webm',
+        startedAt: recordingStartedRef.current,
+        endedAt: Date.now(),
+        trigger: null,
+        flagged: false,
+        context
+      };
+      setRecordings(prev => [...prev, clip]);
+      persistMedia(clipToMedia(clip, context.cameraId, context.deploymentId));
     };
-    
+
     mediaRecorderRef.current = mediaRecorder;
     mediaRecorder.start();
     setRecordingState('recording');
@@ -283,54 +842,419 @@ const initializeCamera = async () => {
     }
   };
 
+  const updateZones = (next: DetectionZone[]) => {
+    setZones(next);
+    saveZones(cameraId, next);
+  };
+
+  const createZone = (points: Point[]) => {
+    updateZones([...zones, {
+      id: `zone-${Date.now()}`,
+      name: `Zone ${zones.length + 1}`,
+      mode: 'include',
+      points,
+      sensitivity: DEFAULT_ZONE_SENSITIVITY,
+      enabled: true
+    }]);
+    setEditingZones(false);
+  };
+
+  const zoneName = (id: string) => zones.find(zone => zone.id === id)?.name ?? id;
+
+  const addSnapshot = (blob: Blob, createdAt: number, context: CaptureContext) => {
+    const snapshot: Snapshot = {
+      id: `snapshot-${createdAt}`,
+      url: URL.createObjectURL(blob),
+      blob,
+      mimeType: 'image/png',
+      createdAt,
+      flagged: false,
+      context
+    };
+    setSnapshots(prev => [...prev, snapshot]);
+    persistMedia(snapshotToMedia(snapshot, context.cameraId, context.deploymentId));
+  };
+
   const takeSnapshot = () => {
     if (!videoRef.current) return;
-    
-    const canvas = document.createElement('canvas');
-    canvas.width = videoRef.current.videoWidth;
-    canvas.height = videoRef.current.videoHeight;
-    
-    const ctx = canvas.getContext('2d');
-    ctx.drawImage(videoRef.current, 0, 0);
-    
-    const imageUrl = canvas.toDataURL('image/png');
-    setSnapshots(prev => [...prev, imageUrl]);
+
+    const createdAt = Date.now();
+    const context = captureContextAt(createdAt);
+    captureFrame(videoRef.current, 'image/png', undefined, ctx => drawOverlay(ctx, context, createdAt)).then((blob) => {
+      if (blob) addSnapshot(blob, createdAt, context);
+    });
+  };
+
+  // The video element only exists on the Live and Settings tabs; elsewhere the stream is played off screen
+  const takeIntervalSnapshot = () => {
+    const video = videoRef.current;
+    const stream = streamRef.current;
+    const createdAt = Date.now();
+    const context = captureContextAt(createdAt);
+    const decorate = (ctx: CanvasRenderingContext2D) => drawOverlay(ctx, context, createdAt);
+    const capture = video?.videoWidth
+      ? captureFrame(video, 'image/png', undefined, decorate)
+      : stream ? captureStreamFrame(stream, 'image/png', undefined, decorate) : Promise.resolve(null);
+    capture
+      .then(blob => blob && addSnapshot(blob, createdAt, context))
+      .catch(error => console.error('Interval snapshot failed:', error));
+  };
+
+  const updateOverlaySettings = (next: OverlaySettings) => {
+    setOverlaySettings(next);
+    saveOverlaySettings(next);
   };
 
+  // The stored record knows the camera and deployment even for media captured before capture contexts were kept
+  const downloadCapture = async (fallback: StoredMedia) => {
+    const stored = await storeRef.current?.getMedia(fallback.id).catch(() => null);
+    const media = stored ?? fallback;
+    downloadMedia(media, deploymentSettings.deployments.find(item => item.id === media.deploymentId) ?? null);
+  };
+
+  const updateScheduleSettings = (next: ScheduleSettings) => {
+    setScheduleSettings(next);
+    saveScheduleSettings(next);
+  };
+
+  const updateDeploymentSettings = (next: DeploymentSettings) => {
+    setDeploymentSettings(next);
+    saveDeploymentSettings(next);
+    deploymentSettingsRef.current = next;
+    // A deleted deployment can no longer be picked, so stop filtering by it
+    if (analyticsFilter.deploymentId && !next.deployments.some(item => item.id === analyticsFilter.deploymentId)) {
+      setAnalyticsFilter(prev => ({ ...prev, deploymentId: null }));
+    }
+  };
+
+  const updateProfiles = (next: CameraProfiles) => {
+    setCameraProfiles(next);
+    saveProfiles(cameraId, next);
+  };
+
+  cameraIdRef.current = cameraId;
+  deploymentSettingsRef.current = deploymentSettings;
+  captureContextRef.current = captureContext;
+  analysisResultRef.current = handleAnalysisResult;
+
+  // Analysis tab data; only worked out while the tab is open
+  const rangeActivity = analysisOpen ? rangeEvents.map(eventActivity) : [];
+  const filteredActivity = filterActivity(rangeActivity, analyticsFilter);
+  const passesFilter = (
+    item: { cameraId: string; deploymentId?: string; confidence: number },
+    filter: AnalyticsFilter = analyticsFilter
+  ) =>
+    (!filter.cameraId || item.cameraId === filter.cameraId) &&
+    (!filter.deploymentId || item.deploymentId === filter.deploymentId) &&
+    item.confidence >= filter.minConfidence;
+  const analyticsCameraIds = Array.from(new Set([...sources.map(source => source.id), ...Object.keys(cameraAnalytics)])).sort();
+  // Review tab: the same range and filters, applied to whole events
+  const reviewTracks = reviewOpen
+    ? [...rangeTracks].reverse().filter(track => passesFilter({ ...track, confidence: track.peakConfidence }))
+    : [];
+  // Deployments are compared side by side, so their summary ignores the deployment filter
+  const deploymentEvents = analysisOpen
+    ? rangeEvents.filter(event =>
+      passesFilter({ ...event, confidence: event.peakConfidence }, { ...analyticsFilter, deploymentId: null }))
+    : [];
+  const deploymentSummaries = summarizeDeployments(deploymentSettings.deployments, deploymentEvents, analyticsRange);
+
   // Effects
+  // Saved settings are read after mount: the page is prerendered with the defaults, and the first
+  // client render has to match it
   useEffect(() => {
-    const interval = setInterval(() => {
-      setSystemState(prev => ({
-        ...prev,
-        batteryLevel: Math.max(0, prev.batteryLevel - (prev.powerMode === 'ACTIVE' ? 0.1 : 0.01))
-      }));
-    }, 5000);
-
-    return () => clearInterval(interval);
+    setPowerSettings(loadPowerSettings());
+    setScheduleSettings(loadScheduleSettings());
+    setSourceSettings(loadSourceSettings());
+    setDeploymentSettings(loadDeploymentSettings());
+    setEventSettings(loadEventSettings());
+    setOverlaySettings(loadOverlaySettings());
+    setRetentionPolicy(loadRetentionPolicy());
+    setAlertRules(loadAlertRules());
+    setAlertHistory(loadAlertHistory());
   }, []);
-  // Initialize camera when system becomes active
+
   useEffect(() => {
-    if (systemState.isActive) {
-      initializeCamera();
+    let stopWatching: (() => void) | null = null;
+    let cancelled = false;
+    watchBattery(setApiBattery).then(stop => {
+      if (cancelled) {
+        stop?.();
+        return;
+      }
+      stopWatching = stop;
+    });
+
+    return () => {
+      cancelled = true;
+      stopWatching?.();
+      if (wakeTimerRef.current) clearTimeout(wakeTimerRef.current);
+    };
+  }, []);
+  // Analysis runs in a worker that lives as long as the component
+  useEffect(() => {
+    const analyzer = createFrameAnalyzer({
+      settings: analysisSettingsRef.current,
+      onResult: (detection, timestamp) => analysisResultRef.current(detection, timestamp),
+      onStats: setAnalysisStats,
+      onActivity: (activity, timestamp) => recordActivity(cameraIdRef.current, activity, timestamp)
+    });
+    analyzerRef.current = analyzer;
+    if (videoRef.current && videoRef.current.readyState >= 2) {
+      startFrameAnalysis();
     }
+
+    return () => {
+      analyzer.dispose();
+      analyzerRef.current = null;
+    };
+  }, []);
+
+  // Open the selected source while the system is active; a source still connecting when the
+  // selection changes is closed as soon as it arrives
+  useEffect(() => {
+    if (!systemState.isActive || !selectedSource || !singleViewOpen) return;
+    let cancelled = false;
+    setSourceError(null);
+
+    openVideoSource(selectedSource)
+      .then(source => {
+        if (cancelled) {
+          source.close();
+          return;
+        }
+        attachSource(source);
+      })
+      .catch(error => {
+        console.error('Video source error:', error);
+        if (!cancelled) setSourceError((error as Error).message);
+      });
+
     return () => {
+      cancelled = true;
       cleanup();
     };
-  }, [systemState.isActive, selectedCamera]);
+  }, [systemState.isActive, selectedSourceId, singleViewOpen]);
 
   useEffect(() => {
     if (videoRef.current && videoRef.current.readyState >= 2) {
-      const canvas = canvasRef.current;
-      canvas.width = videoRef.current.videoWidth;
-      canvas.height = videoRef.current.videoHeight;
-      analysisContextRef.current = canvas.getContext('2d', { willReadFrequently: true });
       startFrameAnalysis();
     }
   }, [videoRef.current?.readyState]);
 
-// Detect cameras on mount
+// The feed moves between the Live and Settings tabs; a freshly mounted video element needs the stream again
+useEffect(() => {
+  const video = videoRef.current;
+  const stream = streamRef.current;
+  if (!video || !stream || video.srcObject === stream) return;
+  video.srcObject = stream;
+  video.onloadedmetadata = handleVideoReady;
+}, [selectedTab]);
+
+// Swap the detector when its settings, the zones or the power mode's sampling change; the new one
+// warms up from the next frame
+useEffect(() => {
+  analyzerRef.current?.configure(poweredSettings.detector, zones);
+}, [settings.detector, zones, poweredSettings.detector.samplingInterval]);
+
+// The power mode caps the analysis width
+useEffect(() => {
+  analyzerRef.current?.updateSettings(poweredSettings.analysis);
+}, [settings.analysis, powerMode]);
+
 useEffect(() => {
-  detectCameras();
+  if (streamReady && sourceRef.current) {
+    setFrameRate(sourceRef.current, POWER_PROFILES[powerMode].frameRate);
+  }
+}, [powerMode, streamReady]);
+
+useEffect(() => {
+  analyzerRef.current?.setClassifier(classifier, classifierSettings);
+}, [classifier, classifierSettings]);
+
+// A replaced or unloaded model releases its runtime session
+useEffect(() => () => classifier?.dispose(), [classifier]);
+
+// Zones and settings profiles are kept per camera
+useEffect(() => {
+  setZones(loadZones(cameraId));
+  setEditingZones(false);
+  const profiles = loadProfiles(cameraId);
+  setCameraProfiles(profiles);
+  setSettings(activeProfileSettings(profiles));
+}, [cameraId]);
+
+// Fall back to the first source when none is chosen yet or the chosen one is gone
+useEffect(() => {
+  if (devices === null || selectedSource || sources.length === 0) return;
+  updateSourceSettings({ ...sourceSettings, selectedId: sources[0].id });
+}, [devices, selectedSourceId]);
+
+// Keep the pre-roll recordings running while auto recording is armed
+useEffect(() => {
+  autoRecordRef.current = autoRecord;
+  if (!autoRecord.enabled || !streamReady || !streamRef.current) return;
+
+  // Pre-roll is recorded continuously, so overlays have to be composited all the while too
+  const compositor = overlaySettings.enabled ? createOverlayCompositor(streamRef.current, drawLiveOverlay) : null;
+  const recorder = createEventRecorder(compositor?.stream ?? streamRef.current, {
+    preRollSeconds: autoRecord.preRollSeconds,
+    postRollSeconds: autoRecord.postRollSeconds,
+    onClip: handleClip
+  });
+  eventRecorderRef.current = recorder;
+
+  return () => {
+    recorder.stop();
+    compositor?.stop();
+    eventRecorderRef.current = null;
+    setAutoCapturing(false);
+  };
+}, [autoRecord, streamReady, overlaySettings.enabled]);
+
+// Open the local store, clean it up and rehydrate the Gallery and Analysis tabs
+useEffect(() => {
+  let cancelled = false;
+
+  const hydrate = async () => {
+    try {
+      const store = await openDetectionStore();
+      if (cancelled) return;
+      storeRef.current = store;
+      syncRef.current = await createSyncClient({ getMedia: store.getMedia, onStatus: setSyncStatus });
+      if (cancelled) {
+        syncRef.current.stop();
+        syncRef.current = null;
+        return;
+      }
+
+      await store.applyRetention(loadRetentionPolicy());
+      const rangeQuery = { from: analyticsRange.from, to: analyticsRange.to - 1 };
+      const [media, analytics, heatmaps, tracks, events, detections, usage] = await Promise.all([
+        store.listMedia(),
+        store.loadAnalytics(),
+        store.loadHeatmaps(),
+        store.listTracks(rangeQuery),
+        store.listEvents(rangeQuery),
+        store.listDetections({ limit: 50 }),
+        store.getUsage()
+      ]);
+      if (cancelled) return;
+
+      setRecordings(prev => [...media.filter(item => item.kind === 'clip').map(mediaToClip), ...prev]);
+      setSnapshots(prev => [...media.filter(item => item.kind === 'snapshot').map(mediaToSnapshot), ...prev]);
+      // Tracks finished while loading are already in the list
+      setRangeTracks(prev => [...tracks, ...prev.filter(track => !tracks.some(stored => stored.key === track.key))]);
+      setRangeEvents(prev => [...events, ...prev.filter(event => !events.some(stored => stored.id === event.id))]);
+      setDetectionData(prev => [...detections.map(toDetectionRecord), ...prev].slice(-50));
+      // Events finished while loading were already counted into the in-memory analytics
+      setCameraAnalytics(prev => (analytics ? mergeCameraAnalytics(analytics, prev) : prev));
+      // Likewise motion seen while loading is already in the heatmaps
+      Object.keys(heatmaps).forEach(id => heatmapFor(id).restore(heatmaps[id]));
+      setStorageUsage(usage);
+    } catch (error) {
+      console.error('Local storage unavailable:', error);
+    } finally {
+      hydratedRef.current = true;
+    }
+  };
+
+  hydrate();
+  const flushInterval = setInterval(flushDetections, DETECTION_FLUSH_INTERVAL);
+  const heatmapInterval = setInterval(flushHeatmaps, HEATMAP_SAVE_INTERVAL);
+
+  return () => {
+    cancelled = true;
+    clearInterval(flushInterval);
+    clearInterval(heatmapInterval);
+    flushDetections();
+    flushHeatmaps();
+    syncRef.current?.stop();
+    syncRef.current = null;
+  };
+}, []);
+
+useEffect(() => {
+  if (hydratedRef.current) {
+    persist(store => store.saveAnalytics(cameraAnalytics));
+  }
+}, [cameraAnalytics]);
+
+// The schedule switches the system only when its own answer changes, so the header toggle holds until then
+useEffect(() => {
+  if (!scheduleSettings.enabled) {
+    scheduledActiveRef.current = null;
+    setScheduleTransition(null);
+    return;
+  }
+
+  const check = () => {
+    const now = Date.now();
+    const active = isScheduledActive(scheduleSettings, now);
+    if (active !== scheduledActiveRef.current) {
+      scheduledActiveRef.current = active;
+      setSystemState(prev => (prev.isActive === active ? prev : { ...prev, isActive: active }));
+    }
+    setScheduleTransition(nextTransition(scheduleSettings, now));
+  };
+  check();
+  const interval = setInterval(check, SCHEDULE_CHECK_INTERVAL);
+  return () => clearInterval(interval);
+}, [scheduleSettings]);
+
+useEffect(() => {
+  if (!scheduleSettings.snapshotMinutes || !streamReady) return;
+  const interval = setInterval(takeIntervalSnapshot, scheduleSettings.snapshotMinutes * 60 * 1000);
+  return () => clearInterval(interval);
+}, [scheduleSettings.snapshotMinutes, streamReady]);
+
+// An event only ends once its camera has been quiet for the gap tolerance, which takes a clock to notice
+useEffect(() => {
+  const interval = setInterval(() => {
+    const now = Date.now();
+    Object.values(eventBuildersRef.current).forEach(builder => builder.closeIdle(now).forEach(handleEventFinished));
+  }, EVENT_CHECK_INTERVAL);
+  return () => clearInterval(interval);
+}, [analyticsRange]);
+
+useEffect(() => {
+  if (analysisOpen || reviewOpen) {
+    loadRange(analyticsRange);
+  }
+  if (reviewOpen) {
+    loadReviews(analyticsRange);
+  }
+}, [analysisOpen, reviewOpen, analyticsRange]);
+
+// The heatmap is only recomputed while something shows it
+useEffect(() => {
+  if (!analysisOpen && !(showHeatmap && selectedTab === 'live')) return;
+  const refresh = () => setHeatmap(heatmapFor(heatmapCamera).snapshot(heatmapWindow));
+  refresh();
+  const interval = setInterval(refresh, HEATMAP_REFRESH_INTERVAL);
+  return () => clearInterval(interval);
+}, [analysisOpen, showHeatmap, selectedTab, heatmapWindow, heatmapCamera]);
+
+useEffect(() => {
+  if (analysisOpen && streamReady && !heatmapReferences[cameraId]) {
+    captureHeatmapReference();
+  }
+}, [analysisOpen, streamReady, cameraId]);
+
+useEffect(() => {
+  saveAlertHistory(alertHistory);
+}, [alertHistory]);
+
+useEffect(() => {
+  const interval = setInterval(() => runRetention(retentionPolicy), RETENTION_INTERVAL);
+  return () => clearInterval(interval);
+}, [retentionPolicy]);
+
+// List cameras on mount and again whenever one is plugged in or removed
+useEffect(() => {
+  refreshDevices();
+  navigator.mediaDevices?.addEventListener('devicechange', refreshDevices);
+  return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices);
 }, []);
 
   return (
@@ -352,11 +1276,39 @@ useEffect(() => {
               >
                 {systemState.isActive ? 'Active' : 'Inactive'}
               </button>
-              <div className="flex items-center gap-2">
+              {scheduleSettings.enabled && (
+                <div className="flex items-center gap-1 text-sm text-gray-600" title="Next scheduled change">
+                  <Clock className="h-4 w-4" />
+                  <span>{scheduleTransition ? formatTransition(scheduleTransition) : 'Nothing scheduled'}</span>
+                </div>
+              )}
+              {syncStatus && (
+                <div
+                  className="flex items-center gap-2 text-sm text-gray-600"
+                  title={syncStatus.lastError ?? (syncStatus.lastSyncAt
+                    ? `Last synced ${new Date(syncStatus.lastSyncAt).toLocaleTimeString()}`
+                    : 'Not synced yet')}
+                >
+                  {syncStatus.online && !syncStatus.lastError ? (
+                    <Cloud className="h-5 w-5 text-green-500" />
+                  ) : (
+                    <CloudOff className="h-5 w-5 text-yellow-500" />
+                  )}
+                  <span>{syncStatus.pending > 0 ? `${syncStatus.pending} pending` : 'Synced'}</span>
+                </div>
+              )}
+              <div
+                className="flex items-center gap-2"
+                title={battery.source === 'manual' ? 'Battery level entered by hand in Settings' : undefined}
+              >
                 <Battery className={`h-6 w-6 ${
-                  systemState.batteryLevel > 20 ? 'text-green-500' : 'text-red-500'
+                  battery.level > powerSettings.sleepBelow ? 'text-green-500' : 'text-red-500'
                 }`} />
-                <span className="font-medium">{Math.round(systemState.batteryLevel)}%</span>
+                <span className="font-medium">{Math.round(battery.level)}%</span>
+                <span className="px-2 py-0.5 rounded bg-gray-100 text-xs text-gray-600">{powerMode}</span>
+                {runtime !== null && (
+                  <span className="text-sm text-gray-500">~{formatRuntime(runtime)} left</span>
+                )}
               </div>
             </div>
           </div>
@@ -365,7 +1317,7 @@ useEffect(() => {
         {/* Tab Navigation */}
         <div className="bg-white rounded-lg shadow-lg p-4 mb-4">
           <div className="flex space-x-4 border-b">
-            {['live', 'analysis', 'gallery'].map((tab) => (
+            {['live', 'multi-view', 'analysis', 'review', 'alerts', 'deployments', 'files', 'gallery', 'settings'].map((tab) => (
               <button
                 key={tab}
                 onClick={() => setSelectedTab(tab)}
@@ -385,32 +1337,19 @@ useEffect(() => {
   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
     {/* Camera Feed Column */}
     <div className="bg-white rounded-lg shadow-lg p-4">
-      <div className="flex items-center justify-between mb-4">
-        <h2 className="text-xl font-bold text-gray-800">Detection Zone</h2>
-        <div className="flex items-center gap-2">
-          <button
-            onClick={() => setSelectedCamera('built-in')}
-            className={`px-3 py-1 rounded-lg text-sm font-medium ${
-              selectedCamera === 'built-in'
-                ? 'bg-blue-500 text-white'
-                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-            }`}
-          >
-            MacBook Camera
-          </button>
-          <button
-            onClick={() => setSelectedCamera('continuity')}
-            className={`px-3 py-1 rounded-lg text-sm font-medium ${
-              selectedCamera === 'continuity'
-                ? 'bg-blue-500 text-white'
-                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-            }`}
-          >
-            Continuity Camera
-          </button>
-        </div>
+      <h2 className="text-xl font-bold text-gray-800 mb-4">Detection Zone</h2>
+      <div className="mb-4">
+        <SourcePanel
+          sources={sources}
+          selectedId={selectedSourceId}
+          error={sourceError}
+          onSelect={(id) => updateSourceSettings({ ...sourceSettings, selectedId: id })}
+          onAdd={addSource}
+          onRemove={removeSource}
+          onRefresh={refreshDevices}
+        />
       </div>
-      
+
       <div className="relative aspect-video bg-gray-900 rounded-lg overflow-hidden">
         <video
           ref={videoRef}
@@ -419,11 +1358,19 @@ useEffect(() => {
           muted
           className="w-full h-full object-cover"
         />
+
+        <ZoneOverlay
+          zones={zones}
+          frameWidth={frameSize.width}
+          frameHeight={frameSize.height}
+          editing={editingZones}
+          onCreate={createZone}
+          onCancel={() => setEditingZones(false)}
+        />
         
         {/* Motion Detection Overlay */}
-        {detectionData.length > 0 && detectionData[detectionData.length - 1].confidence > 0.6 && (
-          <div className="absolute inset-0 border-4 border-red-500 animate-pulse" />
-        )}
+        {showHeatmap && <HeatmapOverlay grid={heatmap} />}
+        <DetectionOverlay detection={overlayDetection} tracks={activeTracks} />
         
         <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 flex gap-4">
           <button
@@ -447,24 +1394,104 @@ useEffect(() => {
           </button>
         </div>
         
-        {!streamRef.current && (
+        {!streamReady && (
           <div className="absolute inset-0 flex items-center justify-center text-white">
-            <p className="text-lg">Initializing Camera...</p>
+            <p className="text-lg">{sourceError ? 'Video source unavailable' : 'Connecting to video source...'}</p>
           </div>
         )}
       </div>
+
+      <div className="mt-3 flex items-center gap-2 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={showHeatmap} onChange={(event) => setShowHeatmap(event.target.checked)} />
+          Motion heatmap over
+        </label>
+        <select
+          value={heatmapWindow}
+          onChange={(event) => setHeatmapWindow(Number(event.target.value))}
+          className="px-2 py-1 rounded border border-gray-300"
+        >
+          {HEATMAP_WINDOWS.map(option => (
+            <option key={option.duration} value={option.duration}>the last {option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="mt-3">
+        <AnalysisStatsPanel
+          settings={settings.analysis}
+          stats={analysisStats}
+          onChange={analysis => setSettings(prev => ({ ...prev, analysis }))}
+        />
+      </div>
+
+      <div className="mt-4">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold text-gray-800">Zones</h3>
+          <button
+            onClick={() => setEditingZones(prev => !prev)}
+            className={`px-3 py-1 rounded-lg text-sm font-medium ${
+              editingZones
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {editingZones ? 'Drawing…' : 'Draw Zone'}
+          </button>
+        </div>
+        <ZonePanel zones={zones} onChange={updateZones} />
+      </div>
+
+      <div className="mt-4">
+        <AutoRecordPanel settings={autoRecord} capturing={autoCapturing} onChange={setAutoRecord} />
+      </div>
+      <div className="mt-4">
+        <OverlayPanel settings={overlaySettings} onChange={updateOverlaySettings} />
+      </div>
     </div>
 
     {/* Live Analysis Column */}
     <div className="bg-white rounded-lg shadow-lg p-4">
-      <h2 className="text-xl font-bold text-gray-800 mb-4">Live Analysis</h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-800">Live Analysis</h2>
+        <div className="flex items-center gap-2">
+          {([
+            ['frame-diff', 'Frame Diff'],
+            ['background', 'Background Model']
+          ] as [DetectionMethod, string][]).map(([method, label]) => (
+            <button
+              key={method}
+              onClick={() => setSettings(prev => ({ ...prev, detector: { ...prev.detector, method } }))}
+              className={`px-3 py-1 rounded-lg text-sm font-medium ${
+                settings.detector.method === method
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
       {detectionData.length > 0 ? (
         <div className="space-y-4">
           <div className="p-4 bg-blue-50 rounded-lg">
             <h3 className="font-medium text-blue-800">Current Activity</h3>
             <p className="text-2xl font-bold text-blue-900">
-              {detectionData[detectionData.length - 1].type.replace('_', ' ')}
+              {detectionData[detectionData.length - 1].label.replace('_', ' ')}
             </p>
+            {detectionData[detectionData.length - 1].labels.length > 0 && (
+              <p className="text-sm text-blue-700">
+                {detectionData[detectionData.length - 1].labels.slice(0, 3)
+                  .map(({ label, score }) => `${label} ${Math.round(score * 100)}%`)
+                  .join(' · ')}
+              </p>
+            )}
+            {detectionData[detectionData.length - 1].zoneIds.length > 0 && (
+              <p className="text-sm text-blue-700">
+                in {detectionData[detectionData.length - 1].zoneIds.map(zoneName).join(', ')}
+              </p>
+            )}
           </div>
           <div className="p-4 bg-green-50 rounded-lg">
             <h3 className="font-medium text-green-800">Confidence</h3>
@@ -478,6 +1505,23 @@ useEffect(() => {
               {Math.round(detectionData[detectionData.length - 1].intensity * 100)}%
             </p>
           </div>
+          <div className="p-4 bg-purple-50 rounded-lg">
+            <h3 className="font-medium text-purple-800">Active Tracks</h3>
+            {activeTracks.length > 0 ? (
+              <ul className="mt-2 space-y-1 text-sm text-purple-900">
+                {activeTracks.map(track => (
+                  <li key={track.id} className="flex justify-between">
+                    <span className="font-bold">#{track.id} {track.label.replace('_', ' ')}</span>
+                    <span>
+                      from {track.entryEdge} · {formatDuration(track.dwellTime)} · {Math.round(track.speed)} px/s
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-purple-700">No animals in frame</p>
+            )}
+          </div>
           <div className="h-40">
             <ResponsiveContainer width="100%" height="100%">
               <LineChart data={detectionData.slice(-20)}>
@@ -501,74 +1545,248 @@ useEffect(() => {
           Waiting for motion detection...
         </div>
       )}
+
+      <div className="mt-4">
+        <ClassifierPanel
+          classifier={classifier}
+          settings={classifierSettings}
+          onLoad={setClassifier}
+          onSettingsChange={setClassifierSettings}
+        />
+      </div>
     </div>
   </div>
 )}
 
+{selectedTab === 'multi-view' && (
+  <MultiCameraView
+    sources={sources}
+    selectedIds={sourceSettings.gridIds}
+    active={systemState.isActive}
+    powerMode={powerMode}
+    classifier={classifier}
+    classifierSettings={classifierSettings}
+    onSelectionChange={(gridIds) => updateSourceSettings({ ...sourceSettings, gridIds })}
+    onDetection={handleDetection}
+    onTrackFinished={handleTrackFinished}
+    onActivity={(activity, timestamp, id) => recordActivity(id, activity, timestamp)}
+  />
+)}
+
 {selectedTab === 'analysis' && (
-  <div className="grid grid-cols-1 gap-4">
-    {/* Activity Graph */}
-    <div className="bg-white rounded-lg shadow-lg p-4">
-      <h2 className="text-xl font-bold text-gray-800 mb-4">Motion Activity</h2>
-      <div className="h-64">
-        <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={detectionData}>
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="time" />
-            <YAxis />
-            <Tooltip />
-            <Line 
-              type="monotone" 
-              dataKey="intensity" 
-              stroke="#2563eb" 
-              dot={false}
-              name="Motion Intensity"
+  <div className="space-y-4">
+    <AnalyticsFilterBar
+      range={analyticsRange}
+      granularity={analyticsGranularity}
+      filter={analyticsFilter}
+      cameraIds={analyticsCameraIds}
+      deployments={deploymentSettings.deployments}
+      loading={rangeLoading}
+      onRangeChange={setAnalyticsRange}
+      onGranularityChange={setAnalyticsGranularity}
+      onFilterChange={setAnalyticsFilter}
+      onRefresh={() => loadRange(analyticsRange)}
+    />
+    <LongTermAnalytics records={filteredActivity} range={analyticsRange} granularity={analyticsGranularity} />
+    <HeatmapPanel
+      cameraId={heatmapCamera}
+      grid={heatmap}
+      windowDuration={heatmapWindow}
+      reference={heatmapReferences[heatmapCamera] ?? null}
+      canCapture={streamReady && heatmapCamera === cameraId}
+      onWindowChange={setHeatmapWindow}
+      onCaptureReference={captureHeatmapReference}
+    />
+    <CameraComparison
+      analytics={summarizeByCamera(filterActivity(rangeActivity, { ...analyticsFilter, cameraId: null }))}
+      totals={cameraAnalytics}
+      cameraIds={sources.map(source => source.id)}
+      selected={analyticsFilter.cameraId}
+      onSelect={(id) => setAnalyticsFilter(prev => ({ ...prev, cameraId: id }))}
+    />
+    {deploymentSummaries.length > 0 && (
+      <DeploymentSummaryPanel
+        summaries={deploymentSummaries}
+        unassigned={deploymentEvents.filter(event => !event.deploymentId).length}
+        selected={analyticsFilter.deploymentId}
+        onSelect={(id) => setAnalyticsFilter(prev => ({ ...prev, deploymentId: id }))}
+      />
+    )}
+    <EventList
+      events={[...rangeEvents].reverse()
+        .filter(event => passesFilter({ ...event, confidence: event.peakConfidence }))
+        .slice(0, 50)}
+    />
+    <AnalysisView
+      detections={detectionData.filter(detection => passesFilter(detection))}
+      analytics={summarizeActivity(filteredActivity)}
+      totalLabel="Events"
+      unit="events"
+      tracks={[
+        ...activeTracks.map(track => ({ ...track, cameraId, deploymentId: deploymentIdFor(cameraId, track.firstSeen) })),
+        ...[...rangeTracks].reverse()
+      ]
+        .filter(track => passesFilter({ ...track, confidence: track.peakConfidence }))
+        .slice(0, 50)}
+      zoneName={zoneName}
+    />
+  </div>
+)}
+
+        {selectedTab === 'review' && (
+          <div className="space-y-4">
+            <AnalyticsFilterBar
+              range={analyticsRange}
+              granularity={analyticsGranularity}
+              filter={analyticsFilter}
+              cameraIds={analyticsCameraIds}
+              deployments={deploymentSettings.deployments}
+              loading={rangeLoading}
+              onRangeChange={setAnalyticsRange}
+              onGranularityChange={setAnalyticsGranularity}
+              onFilterChange={setAnalyticsFilter}
+              onRefresh={() => {
+                loadRange(analyticsRange);
+                loadReviews(analyticsRange);
+              }}
             />
-            <Line 
-              type="monotone" 
-              dataKey="confidence" 
-              stroke="#059669" 
-              dot={false}
-              name="Detection Confidence"
+            <ReviewPanel
+              tracks={reviewTracks}
+              reviews={reviews}
+              loadMedia={loadReviewMedia}
+              onReview={reviewTrack}
             />
-          </LineChart>
-        </ResponsiveContainer>
-      </div>
-    </div>
+            <ReviewMetricsPanel
+              reviews={Object.values(reviews).filter(review =>
+                passesFilter({ ...review, confidence: review.peakConfidence }))}
+              current={{
+                confidenceThreshold: settings.confidenceThreshold,
+                classThresholds: settings.detector.classThresholds,
+                minHits: DEFAULT_TRACKER_CONFIG.minHits
+              }}
+            />
+          </div>
+        )}
 
-    {/* Stats Grid */}
-    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
-      <div className="bg-white rounded-lg shadow-lg p-4">
-        <h3 className="text-lg font-semibold text-gray-800">Total Detections</h3>
-        <p className="text-3xl font-bold text-blue-600">{analyticsData.totalDetections}</p>
-      </div>
-      
-      {Object.entries(analyticsData.detectionsByType).map(([type, count]) => (
-        <div key={type} className="bg-white rounded-lg shadow-lg p-4">
-          <h3 className="text-lg font-semibold text-gray-800">{type.replace('_', ' ')}</h3>
-          <p className="text-3xl font-bold text-green-600">{count}</p>
-        </div>
-      ))}
-    </div>
+        {selectedTab === 'alerts' && (
+          <AlertPanel
+            rules={alertRules}
+            history={alertHistory}
+            cameraIds={sources.map(source => source.id)}
+            onRulesChange={updateAlertRules}
+            onTest={testAlert}
+            onClearHistory={() => setAlertHistory([])}
+          />
+        )}
 
-    {/* Hourly Activity */}
-    <div className="bg-white rounded-lg shadow-lg p-4">
-      <h2 className="text-xl font-bold text-gray-800 mb-4">Hourly Activity</h2>
-      <div className="grid grid-cols-12 gap-1">
-        {analyticsData.hourlyActivity.map((count, hour) => (
-          <div 
-            key={hour}
-            className="aspect-square rounded"
-            style={{
-              backgroundColor: `rgba(37, 99, 235, ${Math.min(count / 10, 1)})`,
-            }}
-            title={`${hour}:00 - ${count} detections`}
+        {selectedTab === 'deployments' && (
+          <DeploymentPanel
+            settings={deploymentSettings}
+            sources={sources}
+            activeSourceId={selectedSourceId}
+            onChange={updateDeploymentSettings}
           />
-        ))}
-      </div>
-    </div>
-  </div>
-)}
+        )}
+
+        {selectedTab === 'files' && (
+          <div className="space-y-4">
+            <FileAnalysisPanel config={settings.detector} />
+            <ImageImportPanel
+              config={settings.detector}
+              cameraId={cameraId}
+              onImport={handleImageImport}
+            />
+          </div>
+        )}
+
+        {selectedTab === 'settings' && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 items-start">
+            <div className="space-y-4">
+              <SettingsPanel
+                cameraId={cameraId}
+                settings={settings}
+                profiles={cameraProfiles}
+                onChange={setSettings}
+                onProfilesChange={updateProfiles}
+              />
+              <div className="bg-white rounded-lg shadow-lg p-4">
+                <PowerPanel
+                  settings={powerSettings}
+                  battery={battery}
+                  mode={powerMode}
+                  awake={awake && scheduledPowerMode === 'SLEEP'}
+                  runtime={runtime}
+                  onChange={updatePowerSettings}
+                />
+              </div>
+              <div className="bg-white rounded-lg shadow-lg p-4">
+                <SchedulePanel
+                  settings={scheduleSettings}
+                  next={scheduleTransition}
+                  onChange={updateScheduleSettings}
+                />
+              </div>
+              <div className="bg-white rounded-lg shadow-lg p-4">
+                <EventSettingsPanel settings={eventSettings} onChange={updateEventSettings} />
+              </div>
+            </div>
+
+            {/* Live preview of the current settings */}
+            <div className="bg-white rounded-lg shadow-lg p-4 space-y-3 lg:sticky lg:top-4">
+              <h2 className="text-xl font-bold text-gray-800">Preview</h2>
+              <div className="relative aspect-video bg-gray-900 rounded-lg overflow-hidden">
+                <video
+                  ref={videoRef}
+                  autoPlay
+                  playsInline
+                  muted
+                  className="w-full h-full object-cover"
+                />
+                <DetectionOverlay
+                  detection={previewDetection}
+                  tracks={activeTracks}
+                  dimmed={!previewDetection || previewDetection.confidence <= settings.overlayThreshold}
+                />
+              </div>
+              <AnalysisStatsPanel
+                settings={settings.analysis}
+                stats={analysisStats}
+                onChange={analysis => setSettings(prev => ({ ...prev, analysis }))}
+              />
+              {previewDetection ? (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                  <div>
+                    <p className="text-gray-500">Class</p>
+                    <p className="font-bold text-gray-800">{previewDetection.label.replace('_', ' ')}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Confidence</p>
+                    <p className="font-bold text-gray-800">{Math.round(previewDetection.confidence * 100)}%</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Intensity</p>
+                    <p className="font-bold text-gray-800">{Math.round(previewDetection.intensity * 100)}%</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Frame moving</p>
+                    <p className="font-bold text-gray-800">{(previewDetection.coverage * 100).toFixed(2)}%</p>
+                  </div>
+                  <p className={`col-span-2 md:col-span-4 ${
+                    previewDetection.confidence > settings.confidenceThreshold ? 'text-green-700' : 'text-gray-500'
+                  }`}>
+                    {previewDetection.confidence > settings.confidenceThreshold
+                      ? previewDetection.confidence > settings.overlayThreshold
+                        ? 'Recorded and outlined on the live view'
+                        : 'Recorded, below the outline threshold'
+                      : 'Below the recording threshold; ignored'}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No motion in the current frame.</p>
+              )}
+            </div>
+          </div>
+        )}
 
         {selectedTab === 'gallery' && (
           <div className="space-y-4">
@@ -576,13 +1794,45 @@ useEffect(() => {
               <div className="bg-white rounded-lg shadow-lg p-4">
                 <h2 className="text-xl font-bold text-gray-800 mb-4">Recorded Sessions</h2>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {recordings.map((url, index) => (
-                    <div key={index} className="relative aspect-video">
-                      <video
-                        src={url}
-                        controls
-                        className="w-full h-full object-cover rounded-lg"
-                      />
+                  {[...recordings].reverse().map(clip => (
+                    <div key={clip.id} className="space-y-2">
+                      <div className="relative aspect-video">
+                        <video
+                          src={clip.url}
+                          controls
+                          className="w-full h-full object-cover rounded-lg"
+                        />
+                      </div>
+                      <div className="flex items-center justify-between text-sm text-gray-600">
+                        <span>
+                          {new Date(clip.startedAt).toLocaleString()} · {formatDuration(clip.endedAt - clip.startedAt)}
+                        </span>
+                        <div className="flex items-center gap-2">
+                          {clip.trigger ? (
+                            <span className="px-2 py-0.5 rounded bg-red-100 text-red-700">
+                              {(clip.trigger.label ?? clip.trigger.type).replace('_', ' ')} · {Math.round(clip.trigger.confidence * 100)}%
+                            </span>
+                          ) : (
+                            <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-600">Manual</span>
+                          )}
+                          <button
+                            onClick={() => downloadCapture(
+                              clipToMedia(clip, clip.context?.cameraId ?? LEGACY_CAMERA_ID, clip.context?.deploymentId)
+                            )}
+                            title="Download with details"
+                            className="text-gray-400 hover:text-gray-700"
+                          >
+                            <Download className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => toggleClipFlag(clip)}
+                            title={clip.flagged ? 'Unflag' : 'Flag to keep'}
+                            className={clip.flagged ? 'text-yellow-500' : 'text-gray-400 hover:text-yellow-500'}
+                          >
+                            <Star className="w-4 h-4" fill={clip.flagged ? 'currentColor' : 'none'} />
+                          </button>
+                        </div>
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -593,17 +1843,30 @@ useEffect(() => {
               <div className="bg-white rounded-lg shadow-lg p-4">
                 <h2 className="text-xl font-bold text-gray-800 mb-4">Snapshots</h2>
                 <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-                  {snapshots.map((url, index) => (
-                    <div key={index} className="relative group">
+                  {snapshots.map((snapshot, index) => (
+                    <div key={snapshot.id} className="relative group">
                       <img
-                        src={url}
+                        src={snapshot.url}
                         alt={`Snapshot ${index + 1}`}
                         className="w-full h-auto rounded-lg"
                       />
+                      <button
+                        onClick={() => toggleSnapshotFlag(snapshot)}
+                        title={snapshot.flagged ? 'Unflag' : 'Flag to keep'}
+                        className={`absolute top-2 right-2 z-10 ${
+                          snapshot.flagged ? 'text-yellow-400' : 'text-white opacity-0 group-hover:opacity-100'
+                        }`}
+                      >
+                        <Star className="w-5 h-5" fill={snapshot.flagged ? 'currentColor' : 'none'} />
+                      </button>
                       <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                        <a
-                          href={url}
-                          download={`snapshot-${index + 1}.png`}
+                        <button
+                          onClick={() => downloadCapture(snapshotToMedia(
+                            snapshot,
+                            snapshot.context?.cameraId ?? LEGACY_CAMERA_ID,
+                            snapshot.context?.deploymentId
+                          ))}
+                          title="Download with details"
                           className="bg-black bg-opacity-50 p-2 rounded-full text-white hover:bg-opacity-75"
                         >
                           <svg 
@@ -619,7 +1882,7 @@ useEffect(() => {
                               d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
                             />
                           </svg>
-                        </a>
+                        </button>
                       </div>
                     </div>
                   ))}
@@ -634,6 +1897,19 @@ useEffect(() => {
                 </p>
               </div>
             )}
+
+            <StoragePanel
+              policy={retentionPolicy}
+              usage={storageUsage}
+              lastReport={retentionReport}
+              onChange={updateRetentionPolicy}
+              onApply={() => runRetention(retentionPolicy)}
+            />
+
+            <ExportPanel
+              store={storeRef.current}
+              cameraIds={sources.map(source => source.id)}
+            />
           </div>
         )}
       </div>
@@ -0,0 +1,114 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { DetectionZone, Point } from '@/lib/detection';
+
+interface ZoneOverlayProps {
+  zones: DetectionZone[];
+  frameWidth: number;
+  frameHeight: number;
+  editing: boolean;
+  // Receives the finished polygon in normalised frame coordinates
+  onCreate: (points: Point[]) => void;
+  onCancel: () => void;
+}
+
+const ZoneOverlay = ({ zones, frameWidth, frameHeight, editing, onCreate, onCancel }: ZoneOverlayProps) => {
+  const [draft, setDraft] = useState<Point[]>([]);
+
+  const toFrame = (points: Point[]) =>
+    points.map(point => `${point.x * frameWidth},${point.y * frameHeight}`).join(' ');
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!editing) return;
+    const svg = event.currentTarget;
+    const matrix = svg.getScreenCTM();
+    if (!matrix) return;
+
+    // Undo the slice scaling so the point lands where it was clicked on the cropped video
+    const cursor = svg.createSVGPoint();
+    cursor.x = event.clientX;
+    cursor.y = event.clientY;
+    const { x, y } = cursor.matrixTransform(matrix.inverse());
+    setDraft(prev => [...prev, {
+      x: Math.min(Math.max(x / frameWidth, 0), 1),
+      y: Math.min(Math.max(y / frameHeight, 0), 1)
+    }]);
+  };
+
+  const finish = () => {
+    if (draft.length >= 3) {
+      onCreate(draft);
+    }
+    setDraft([]);
+  };
+
+  const cancel = () => {
+    setDraft([]);
+    onCancel();
+  };
+
+  return (
+    <>
+      <svg
+        className={`absolute inset-0 w-full h-full ${editing ? 'cursor-crosshair' : 'pointer-events-none'}`}
+        viewBox={`0 0 ${frameWidth} ${frameHeight}`}
+        preserveAspectRatio="xMidYMid slice"
+        onClick={handleClick}
+      >
+        {zones.filter(zone => zone.enabled).map(zone => (
+          <polygon
+            key={zone.id}
+            points={toFrame(zone.points)}
+            fill={zone.mode === 'include' ? 'rgba(34, 197, 94, 0.15)' : 'rgba(239, 68, 68, 0.25)'}
+            stroke={zone.mode === 'include' ? '#22c55e' : '#ef4444'}
+            strokeWidth={2}
+            strokeDasharray={zone.mode === 'exclude' ? '6 4' : undefined}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {draft.length > 0 && (
+          <polyline
+            points={toFrame(draft)}
+            fill="rgba(59, 130, 246, 0.2)"
+            stroke="#3b82f6"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {draft.map((point, index) => (
+          <circle
+            key={index}
+            cx={point.x * frameWidth}
+            cy={point.y * frameHeight}
+            r={Math.max(4, frameWidth / 200)}
+            fill="#3b82f6"
+          />
+        ))}
+      </svg>
+
+      {editing && (
+        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 flex items-center gap-2">
+          <span className="px-3 py-1 rounded-lg bg-black bg-opacity-50 text-white text-sm">
+            Click to add points ({draft.length})
+          </span>
+          <button
+            onClick={finish}
+            disabled={draft.length < 3}
+            className="px-3 py-1 rounded-lg text-sm text-white bg-green-500 hover:bg-green-600 disabled:opacity-50"
+          >
+            Finish
+          </button>
+          <button
+            onClick={cancel}
+            className="px-3 py-1 rounded-lg text-sm text-white bg-gray-500 hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default ZoneOverlay;
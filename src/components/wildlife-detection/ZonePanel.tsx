@@ -0,0 +1,75 @@
+'use client';
+
+import React from 'react';
+import type { DetectionZone, ZoneMode } from '@/lib/detection';
+
+interface ZonePanelProps {
+  zones: DetectionZone[];
+  onChange: (zones: DetectionZone[]) => void;
+}
+
+const ZonePanel = ({ zones, onChange }: ZonePanelProps) => {
+  const updateZone = (id: string, changes: Partial<DetectionZone>) => {
+    onChange(zones.map(zone => (zone.id === id ? { ...zone, ...changes } : zone)));
+  };
+
+  const removeZone = (id: string) => {
+    onChange(zones.filter(zone => zone.id !== id));
+  };
+
+  if (zones.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No zones drawn. The whole frame is analysed.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {zones.map(zone => (
+        <li key={zone.id} className="flex flex-wrap items-center gap-3 p-2 rounded-lg bg-gray-50 text-sm">
+          <input
+            type="checkbox"
+            checked={zone.enabled}
+            onChange={(event) => updateZone(zone.id, { enabled: event.target.checked })}
+            aria-label={`Enable ${zone.name}`}
+          />
+          <input
+            value={zone.name}
+            onChange={(event) => updateZone(zone.id, { name: event.target.value })}
+            className="flex-1 min-w-0 px-2 py-1 rounded border border-gray-300"
+          />
+          <select
+            value={zone.mode}
+            onChange={(event) => updateZone(zone.id, { mode: event.target.value as ZoneMode })}
+            className="px-2 py-1 rounded border border-gray-300"
+          >
+            <option value="include">Include</option>
+            <option value="exclude">Exclude</option>
+          </select>
+          <label className={`flex items-center gap-2 ${zone.mode === 'exclude' ? 'opacity-50' : ''}`}>
+            Sensitivity
+            <input
+              type="range"
+              min={1}
+              max={100}
+              value={zone.sensitivity}
+              disabled={zone.mode === 'exclude'}
+              onChange={(event) => updateZone(zone.id, { sensitivity: Number(event.target.value) })}
+            />
+            <span className="w-8 text-right">{zone.sensitivity}</span>
+          </label>
+          <button
+            onClick={() => removeZone(zone.id)}
+            className="px-2 py-1 rounded text-red-600 hover:bg-red-50"
+          >
+            Delete
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ZonePanel;
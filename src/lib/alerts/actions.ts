@@ -0,0 +1,136 @@
+import type { ApiError, WebhookRelayRequest, WebhookRelayResult } from '@/lib/api/types';
+import type { Detection } from '@/lib/detection';
+import type { AlertActionKind, AlertActionResult, AlertEvent, AlertPayload, AlertRule } from './types';
+
+const ALARM_BEEPS = 3;
+
+let audioContext: AudioContext | null = null;
+
+const describe = (detection: Detection) => `${detection.label.replace('_', ' ')} (${Math.round(detection.confidence * 100)}%)`;
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Asks once, from a user gesture, so the notification action can work later
+export const requestNotificationPermission = async () => {
+  if (typeof Notification === 'undefined') return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+const notify = (rule: AlertRule, detection: Detection, cameraId: string) => {
+  if (typeof Notification === 'undefined') throw new Error('Notifications are not supported in this browser');
+  if (Notification.permission !== 'granted') throw new Error('Notification permission not granted');
+  new Notification(rule.name, {
+    body: `${describe(detection)} on ${cameraId}`,
+    tag: rule.id
+  });
+};
+
+// A short run of beeps; browsers keep the context suspended until the page has seen a user gesture
+export const playAlarm = async () => {
+  audioContext = audioContext ?? new AudioContext();
+  if (audioContext.state === 'suspended') await audioContext.resume();
+  const context = audioContext;
+  for (let beep = 0; beep < ALARM_BEEPS; beep++) {
+    const start = context.currentTime + beep * 0.4;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.3);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.3);
+  }
+};
+
+export const createAlertPayload = async (
+  rule: AlertRule,
+  detection: Detection,
+  cameraId: string,
+  firedAt: number,
+  snapshot: Blob | null
+): Promise<AlertPayload> => ({
+  rule: { id: rule.id, name: rule.name },
+  cameraId,
+  firedAt: new Date(firedAt).toISOString(),
+  detection: {
+    timestamp: detection.timestamp,
+    type: detection.type,
+    label: detection.label,
+    confidence: detection.confidence,
+    intensity: detection.intensity,
+    zoneIds: detection.zoneIds
+  },
+  snapshot: snapshot ? await blobToDataUrl(snapshot) : null
+});
+
+// Goes through the app's own server, which posts it on, so endpoints without CORS headers work too
+const postWebhook = async (url: string, payload: AlertPayload) => {
+  if (!url) throw new Error('No webhook URL set');
+  const request: WebhookRelayRequest = { url, payload };
+  const response = await fetch('/api/alerts/webhook', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as ApiError | null;
+    throw new Error(body?.error ?? `HTTP ${response.status}`);
+  }
+  const result = await response.json() as WebhookRelayResult;
+  if (!result.ok) throw new Error(`Webhook answered HTTP ${result.status}`);
+};
+
+export interface FireAlertOptions {
+  rule: AlertRule;
+  detection: Detection;
+  cameraId: string;
+  firedAt: number;
+  // Only called when the webhook action needs a frame
+  captureSnapshot: () => Promise<Blob | null>;
+}
+
+// Runs every action of the rule; a failing action is recorded without stopping the others
+export const fireAlert = async ({
+  rule,
+  detection,
+  cameraId,
+  firedAt,
+  captureSnapshot
+}: FireAlertOptions): Promise<AlertEvent> => {
+  const run = async (action: AlertActionKind): Promise<AlertActionResult> => {
+    try {
+      if (action === 'notification') {
+        notify(rule, detection, cameraId);
+      } else if (action === 'sound') {
+        await playAlarm();
+      } else {
+        const snapshot = await captureSnapshot().catch(() => null);
+        await postWebhook(rule.webhookUrl, await createAlertPayload(rule, detection, cameraId, firedAt, snapshot));
+      }
+      return { action, ok: true };
+    } catch (error) {
+      console.error(`Alert action ${action} failed:`, error);
+      return { action, ok: false, error: (error as Error).message };
+    }
+  };
+
+  return {
+    id: `alert-${firedAt}-${rule.id}`,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    cameraId,
+    firedAt,
+    type: detection.type,
+    label: detection.label,
+    confidence: detection.confidence,
+    results: await Promise.all(rule.actions.map(run))
+  };
+};
@@ -0,0 +1,5 @@
+export * from './types';
+export { createAlertEngine, createAlertRule, inTimeWindow, matchesRule } from './rules';
+export type { AlertEngine } from './rules';
+export { createAlertPayload, fireAlert, playAlarm, requestNotificationPermission } from './actions';
+export type { FireAlertOptions } from './actions';
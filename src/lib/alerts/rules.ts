@@ -0,0 +1,58 @@
+import type { Detection } from '@/lib/detection';
+import type { AlertRule, AlertTimeWindow } from './types';
+
+export const createAlertRule = (name = 'New alert'): AlertRule => ({
+  id: `rule-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  enabled: true,
+  types: [],
+  minConfidence: 0.8,
+  timeWindow: null,
+  cameraIds: [],
+  cooldownMinutes: 10,
+  actions: ['notification'],
+  webhookUrl: ''
+});
+
+export const inTimeWindow = ({ start, end }: AlertTimeWindow, date: Date) => {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+export const matchesRule = (rule: AlertRule, detection: Detection, cameraId: string, date: Date) =>
+  rule.enabled &&
+  detection.confidence > rule.minConfidence &&
+  (rule.types.length === 0 || rule.types.includes(detection.type)) &&
+  (rule.cameraIds.length === 0 || rule.cameraIds.includes(cameraId)) &&
+  (!rule.timeWindow || inTimeWindow(rule.timeWindow, date));
+
+export interface AlertEngine {
+  // Rules that match and are out of their cooldown; they count as fired from `timestamp` on
+  evaluate: (rules: AlertRule[], detection: Detection, cameraId: string, timestamp: number) => AlertRule[];
+  reset: () => void;
+}
+
+// Remembers when each rule last fired so cooldowns hold across detections
+export const createAlertEngine = (): AlertEngine => {
+  let lastFired: Record<string, number> = {};
+
+  const evaluate = (rules: AlertRule[], detection: Detection, cameraId: string, timestamp: number) => {
+    const date = new Date(timestamp);
+    const fired = rules.filter(rule => {
+      if (!matchesRule(rule, detection, cameraId, date)) return false;
+      const last = lastFired[rule.id];
+      return last === undefined || timestamp - last >= rule.cooldownMinutes * 60 * 1000;
+    });
+    fired.forEach(rule => {
+      lastFired[rule.id] = timestamp;
+    });
+    return fired;
+  };
+
+  return {
+    evaluate,
+    reset: () => {
+      lastFired = {};
+    }
+  };
+};
@@ -0,0 +1,63 @@
+import type { DetectionType } from '@/lib/detection';
+
+export type AlertActionKind = 'notification' | 'sound' | 'webhook';
+
+// Local wall-clock window in minutes after midnight; a start after the end wraps past midnight
+export interface AlertTimeWindow {
+  start: number;
+  end: number;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Empty matches every detection type
+  types: DetectionType[];
+  minConfidence: number;
+  // Null matches at any time of day
+  timeWindow: AlertTimeWindow | null;
+  // Empty matches every camera
+  cameraIds: string[];
+  // A rule fires at most once per cooldown, whichever camera triggers it
+  cooldownMinutes: number;
+  actions: AlertActionKind[];
+  // Receives a JSON POST when the webhook action is on
+  webhookUrl: string;
+}
+
+export interface AlertActionResult {
+  action: AlertActionKind;
+  ok: boolean;
+  error?: string;
+}
+
+// One firing of a rule, as kept in the alert history
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  cameraId: string;
+  // Milliseconds since epoch
+  firedAt: number;
+  type: DetectionType;
+  label: string;
+  confidence: number;
+  results: AlertActionResult[];
+}
+
+// Body of the webhook request; the snapshot is a data URL of the frame that triggered the alert
+export interface AlertPayload {
+  rule: { id: string; name: string };
+  cameraId: string;
+  firedAt: string;
+  detection: {
+    timestamp: string;
+    type: DetectionType;
+    label: string;
+    confidence: number;
+    intensity: number;
+    zoneIds: string[];
+  };
+  snapshot: string | null;
+}
@@ -0,0 +1,268 @@
+import {
+  DEFAULT_CLASSIFIER_SETTINGS,
+  applyClassification,
+  type Classifier,
+  type ClassifierSettings,
+  type CropSpec
+} from '@/lib/classification';
+import {
+  DEFAULT_DETECTOR_CONFIG,
+  type Detection,
+  type DetectionZone,
+  type DetectorConfig,
+  type MotionActivity
+} from '@/lib/detection';
+import { createFrameProcessor, type FrameSize, type ProcessedFrame } from './frame-processor';
+import {
+  DEFAULT_ANALYSIS_SETTINGS,
+  type AnalysisSettings,
+  type AnalysisStats,
+  type WorkerRequest,
+  type WorkerResponse
+} from './types';
+
+const STATS_INTERVAL = 1000;
+
+interface AnalysisBackend {
+  kind: AnalysisStats['backend'];
+  configure: (config: DetectorConfig, zones: DetectionZone[]) => void;
+  setCrop: (crop: CropSpec | null) => void;
+  reset: () => void;
+  analyze: (video: HTMLVideoElement, width: number, height: number, timestamp: number) => Promise<ProcessedFrame>;
+  dispose: () => void;
+}
+
+// VideoFrame hands the decoded frame over without a copy and the worker does the scaling;
+// without it the browser scales while creating the bitmap
+const captureFrame = async (video: HTMLVideoElement, width: number, height: number) => {
+  if (typeof VideoFrame !== 'undefined') {
+    const size: FrameSize = { sourceWidth: video.videoWidth, sourceHeight: video.videoHeight, width, height };
+    return { frame: new VideoFrame(video), size };
+  }
+  const size: FrameSize = { sourceWidth: width, sourceHeight: height, width, height };
+  return { frame: await createImageBitmap(video, { resizeWidth: width, resizeHeight: height, resizeQuality: 'low' }), size };
+};
+
+const createWorkerBackend = (): AnalysisBackend => {
+  const worker = new Worker(new URL('./frame.worker.ts', import.meta.url));
+  // Keyed by capture timestamp; a restart can leave a frame from the previous run in flight
+  const pending = new Map<number, { resolve: (result: ProcessedFrame) => void; reject: (error: Error) => void }>();
+
+  worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+    const slot = pending.get(data.timestamp);
+    pending.delete(data.timestamp);
+    if (!slot) return;
+    if (data.type === 'result') {
+      slot.resolve({ detection: data.detection, crops: data.crops, activity: data.activity });
+    } else {
+      slot.reject(new Error(data.message));
+    }
+  };
+  worker.onerror = (event) => {
+    pending.forEach(slot => slot.reject(new Error(event.message || 'Analysis worker failed')));
+    pending.clear();
+  };
+
+  const post = (request: WorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+
+  return {
+    kind: 'worker',
+    configure: (config, zones) => post({ type: 'configure', config, zones }),
+    setCrop: (crop) => post({ type: 'crop', crop }),
+    reset: () => post({ type: 'reset' }),
+    analyze: async (video, width, height, timestamp) => {
+      const { frame, size } = await captureFrame(video, width, height);
+      return new Promise<ProcessedFrame>((resolve, reject) => {
+        pending.set(timestamp, { resolve, reject });
+        post({ type: 'frame', frame, size, timestamp }, [frame]);
+      });
+    },
+    dispose: () => {
+      pending.forEach(slot => slot.resolve({ detection: null, crops: [], activity: null }));
+      pending.clear();
+      worker.terminate();
+    }
+  };
+};
+
+const createMainThreadBackend = (): AnalysisBackend => {
+  const processor = createFrameProcessor(() => document.createElement('canvas'));
+  return {
+    kind: 'main-thread',
+    configure: processor.configure,
+    setCrop: processor.setCrop,
+    reset: processor.reset,
+    analyze: async (video, width, height, timestamp) => processor.process(
+      video,
+      { sourceWidth: video.videoWidth, sourceHeight: video.videoHeight, width, height },
+      timestamp
+    ),
+    dispose: () => undefined
+  };
+};
+
+const createBackend = () => {
+  if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined') {
+    try {
+      return createWorkerBackend();
+    } catch (error) {
+      console.error('Analysis worker unavailable, analysing on the main thread:', error);
+    }
+  }
+  return createMainThreadBackend();
+};
+
+export interface FrameAnalyzerOptions {
+  settings?: AnalysisSettings;
+  onResult: (detection: Detection | null, timestamp: number) => void;
+  onStats?: (stats: AnalysisStats) => void;
+  // Called before onResult for every frame the detector could compare against its reference
+  onActivity?: (activity: MotionActivity, timestamp: number) => void;
+  // Checked before every capture, e.g. to idle while the system is inactive
+  shouldAnalyze?: () => boolean;
+}
+
+export interface FrameAnalyzer {
+  start: (video: HTMLVideoElement) => void;
+  stop: () => void;
+  configure: (config: DetectorConfig, zones: DetectionZone[]) => void;
+  // Null goes back to the motion heuristic alone; the analyzer does not dispose classifiers it is given
+  setClassifier: (classifier: Classifier | null, settings?: ClassifierSettings) => void;
+  updateSettings: (settings: AnalysisSettings) => void;
+  reset: () => void;
+  dispose: () => void;
+}
+
+// Samples a video element at most every `samplingInterval` ms of the configured detector. The next
+// capture is only scheduled once the previous result is back, so slow analysis lowers the frame rate
+// instead of queueing.
+export const createFrameAnalyzer = ({
+  settings: initialSettings = DEFAULT_ANALYSIS_SETTINGS,
+  onResult,
+  onStats,
+  onActivity,
+  shouldAnalyze = () => true
+}: FrameAnalyzerOptions): FrameAnalyzer => {
+  const backend = createBackend();
+  let settings = initialSettings;
+  let interval = DEFAULT_DETECTOR_CONFIG.samplingInterval;
+  let classifier: Classifier | null = null;
+  let classifierSettings = DEFAULT_CLASSIFIER_SETTINGS;
+  let video: HTMLVideoElement | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped on every start and stop so a frame still in flight cannot report into a newer run
+  let generation = 0;
+  let size = { width: 0, height: 0 };
+  let windowStart = performance.now();
+  let frames = 0;
+  let latencyTotal = 0;
+  let dropped = 0;
+
+  const analysisSize = (source: HTMLVideoElement) => {
+    const width = Math.min(settings.analysisWidth, source.videoWidth);
+    return { width, height: Math.round(width * source.videoHeight / source.videoWidth) };
+  };
+
+  const reportStats = (now: number) => {
+    if (!onStats || now - windowStart < STATS_INTERVAL) return;
+    onStats({
+      fps: frames / ((now - windowStart) / 1000),
+      latency: frames > 0 ? latencyTotal / frames : 0,
+      dropped,
+      backend: backend.kind,
+      ...size
+    });
+    windowStart = now;
+    frames = 0;
+    latencyTotal = 0;
+  };
+
+  const schedule = (run: number, delay: number) => {
+    timer = setTimeout(() => tick(run), delay);
+  };
+
+  const tick = async (run: number) => {
+    timer = null;
+    const source = video;
+    if (run !== generation || !source) return;
+
+    if (!source.videoWidth || !shouldAnalyze()) {
+      schedule(run, interval);
+      return;
+    }
+
+    const startedAt = performance.now();
+    const timestamp = Date.now();
+    size = analysisSize(source);
+    try {
+      const { detection, crops, activity } = await backend.analyze(source, size.width, size.height, timestamp);
+      if (run !== generation) return;
+      if (activity) onActivity?.(activity, timestamp);
+      onResult(await classify(detection, crops), timestamp);
+    } catch (error) {
+      console.error('Frame analysis error:', error);
+    }
+    if (run !== generation) return;
+
+    const now = performance.now();
+    const elapsed = now - startedAt;
+    frames++;
+    latencyTotal += elapsed;
+    dropped += Math.max(0, Math.ceil(elapsed / interval) - 1);
+    reportStats(now);
+    schedule(run, Math.max(0, interval - elapsed));
+  };
+
+  // Classification failures fall back to the heuristic type rather than losing the detection
+  const classify = async (detection: Detection | null, crops: ProcessedFrame['crops']) => {
+    const active = classifier;
+    if (!detection || !active || (active.input && crops.length === 0)) return detection;
+    try {
+      return applyClassification(detection, await active.classify(detection, crops), classifierSettings.minScore);
+    } catch (error) {
+      console.error('Classification failed:', error);
+      return detection;
+    }
+  };
+
+  const stop = () => {
+    generation++;
+    video = null;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const start = (source: HTMLVideoElement) => {
+    stop();
+    video = source;
+    windowStart = performance.now();
+    frames = 0;
+    latencyTotal = 0;
+    dropped = 0;
+    schedule(generation, 0);
+  };
+
+  return {
+    start,
+    stop,
+    configure: (config, zones) => {
+      interval = config.samplingInterval;
+      backend.configure(config, zones);
+    },
+    setClassifier: (next, nextSettings = DEFAULT_CLASSIFIER_SETTINGS) => {
+      classifier = next;
+      classifierSettings = nextSettings;
+      backend.setCrop(next?.input ?? null);
+    },
+    updateSettings: (next) => {
+      settings = next;
+    },
+    reset: backend.reset,
+    dispose: () => {
+      stop();
+      backend.dispose();
+    }
+  };
+};
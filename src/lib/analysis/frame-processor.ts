@@ -0,0 +1,113 @@
+import type { CropSpec, ImageCrop } from '@/lib/classification';
+import {
+  DEFAULT_DETECTOR_CONFIG,
+  createMotionDetector,
+  type Detection,
+  type DetectionZone,
+  type DetectorConfig,
+  type MotionActivity,
+  type MotionDetector
+} from '@/lib/detection';
+
+type AnalysisCanvas = OffscreenCanvas | HTMLCanvasElement;
+type AnalysisContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+export interface FrameSize {
+  // The frame as handed over, which may already be scaled down
+  sourceWidth: number;
+  sourceHeight: number;
+  // The size the detector works at
+  width: number;
+  height: number;
+}
+
+export interface ProcessedFrame {
+  detection: Detection | null;
+  // Regions around the detection's largest boxes, when a classifier asked for them
+  crops: ImageCrop[];
+  // Where the frame moved, for the spatial heatmap
+  activity: MotionActivity | null;
+}
+
+export interface FrameProcessor {
+  configure: (config: DetectorConfig, zones: DetectionZone[]) => void;
+  // Null stops cropping
+  setCrop: (crop: CropSpec | null) => void;
+  reset: () => void;
+  // Draws the frame at the analysis size and runs the detector on it; the caller owns the frame
+  process: (frame: CanvasImageSource, size: FrameSize, timestamp: number) => ProcessedFrame;
+}
+
+const context2d = (canvas: AnalysisCanvas) => {
+  const context = canvas.getContext('2d', { willReadFrequently: true }) as AnalysisContext | null;
+  if (!context) throw new Error('Canvas 2D is not available');
+  return context;
+};
+
+// The detector half of the pipeline, shared by the worker and the main-thread fallback
+export const createFrameProcessor = (createCanvas: () => AnalysisCanvas): FrameProcessor => {
+  let detector: MotionDetector = createMotionDetector(DEFAULT_DETECTOR_CONFIG);
+  let cropSpec: CropSpec | null = null;
+  let canvas: AnalysisCanvas | null = null;
+  let context: AnalysisContext | null = null;
+  let cropCanvas: AnalysisCanvas | null = null;
+  let cropContext: AnalysisContext | null = null;
+
+  const configure = (config: DetectorConfig, zones: DetectionZone[]) => {
+    // The new detector warms up from the next frame
+    detector = createMotionDetector(config, zones);
+  };
+
+  // Square crops from the source frame, so classifiers see the full resolution where there is one
+  const cropBoxes = (frame: CanvasImageSource, size: FrameSize, detection: Detection, spec: CropSpec) => {
+    if (!cropCanvas || !cropContext || cropCanvas.width !== spec.size) {
+      cropCanvas = createCanvas();
+      cropCanvas.width = spec.size;
+      cropCanvas.height = spec.size;
+      cropContext = context2d(cropCanvas);
+    }
+    const target = cropContext;
+    const scaleX = size.sourceWidth / size.width;
+    const scaleY = size.sourceHeight / size.height;
+
+    return detection.boxes.slice(0, spec.maxCrops).map((box): ImageCrop => {
+      const longer = Math.max(box.width * scaleX, box.height * scaleY);
+      const side = Math.min(longer * (1 + spec.padding * 2), size.sourceWidth, size.sourceHeight);
+      const centerX = (box.x + box.width / 2) * scaleX;
+      const centerY = (box.y + box.height / 2) * scaleY;
+      const x = Math.min(Math.max(centerX - side / 2, 0), size.sourceWidth - side);
+      const y = Math.min(Math.max(centerY - side / 2, 0), size.sourceHeight - side);
+
+      target.drawImage(frame, x, y, side, side, 0, 0, spec.size, spec.size);
+      const imageData = target.getImageData(0, 0, spec.size, spec.size);
+      return { data: imageData.data, width: spec.size, height: spec.size, box };
+    });
+  };
+
+  const process = (frame: CanvasImageSource, size: FrameSize, timestamp: number): ProcessedFrame => {
+    const { width, height } = size;
+    if (!canvas || !context || canvas.width !== width || canvas.height !== height) {
+      canvas = createCanvas();
+      canvas.width = width;
+      canvas.height = height;
+      context = context2d(canvas);
+      // A new size invalidates the previous frame or background model
+      detector.reset();
+    }
+
+    context.drawImage(frame, 0, 0, width, height);
+    const imageData = context.getImageData(0, 0, width, height);
+    const detection = detector.processFrame({ data: imageData.data, width, height, timestamp });
+
+    const crops = detection && cropSpec && detection.confidence >= cropSpec.minConfidence
+      ? cropBoxes(frame, size, detection, cropSpec)
+      : [];
+    return { detection, crops, activity: detector.lastActivity() };
+  };
+
+  const setCrop = (crop: CropSpec | null) => {
+    cropSpec = crop;
+  };
+
+  return { configure, setCrop, reset: () => detector.reset(), process };
+};
@@ -0,0 +1,37 @@
+import { createFrameProcessor } from './frame-processor';
+import type { WorkerRequest, WorkerResponse } from './types';
+
+// The project compiles against the DOM lib, so the worker scope is typed by hand
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+};
+
+const processor = createFrameProcessor(() => new OffscreenCanvas(1, 1));
+
+scope.onmessage = ({ data: request }) => {
+  if (request.type === 'configure') {
+    processor.configure(request.config, request.zones);
+    return;
+  }
+  if (request.type === 'crop') {
+    processor.setCrop(request.crop);
+    return;
+  }
+  if (request.type === 'reset') {
+    processor.reset();
+    return;
+  }
+
+  const { frame, size, timestamp } = request;
+  try {
+    const { detection, crops, activity } = processor.process(frame, size, timestamp);
+    const transfer: Transferable[] = crops.map(crop => crop.data.buffer);
+    if (activity) transfer.push(activity.active.buffer);
+    scope.postMessage({ type: 'result', detection, crops, activity, timestamp }, transfer);
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: (error as Error).message, timestamp });
+  } finally {
+    frame.close();
+  }
+};
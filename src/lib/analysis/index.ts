@@ -0,0 +1,5 @@
+export * from './types';
+export { createFrameAnalyzer } from './analyzer';
+export type { FrameAnalyzer, FrameAnalyzerOptions } from './analyzer';
+export { createFrameProcessor } from './frame-processor';
+export type { FrameProcessor } from './frame-processor';
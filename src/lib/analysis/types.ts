@@ -0,0 +1,43 @@
+import type { CropSpec, ImageCrop } from '@/lib/classification';
+import type { Detection, DetectionZone, DetectorConfig, MotionActivity } from '@/lib/detection';
+import type { FrameSize } from './frame-processor';
+
+export interface AnalysisSettings {
+  // Frames are scaled to this width (keeping the aspect ratio) before the detector sees them
+  analysisWidth: number;
+}
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  analysisWidth: 640
+};
+
+export const ANALYSIS_WIDTHS = [320, 480, 640, 960, 1280];
+
+export interface AnalysisStats {
+  // Frames analysed per second over the last reporting window
+  fps: number;
+  // Average time from capture to result, in milliseconds
+  latency: number;
+  // Capture slots skipped because the previous frame was still being analysed
+  dropped: number;
+  // Where frames are analysed: in a worker or, without worker support, on the main thread
+  backend: 'worker' | 'main-thread';
+  width: number;
+  height: number;
+}
+
+export type WorkerRequest =
+  | { type: 'configure'; config: DetectorConfig; zones: DetectionZone[] }
+  | { type: 'crop'; crop: CropSpec | null }
+  | { type: 'reset' }
+  | { type: 'frame'; frame: ImageBitmap | VideoFrame; size: FrameSize; timestamp: number };
+
+export type WorkerResponse =
+  | {
+    type: 'result';
+    detection: Detection | null;
+    crops: ImageCrop[];
+    activity: MotionActivity | null;
+    timestamp: number;
+  }
+  | { type: 'error'; message: string; timestamp: number };
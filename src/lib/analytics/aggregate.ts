@@ -0,0 +1,63 @@
+import type { Track } from '@/lib/detection';
+import type { AnalyticsData, CameraAnalytics } from './types';
+
+export const createEmptyAnalytics = (): AnalyticsData => ({
+  totalDetections: 0,
+  detectionsByType: {},
+  hourlyActivity: Array(24).fill(0)
+});
+
+// One animal is one track, however many frames it was seen in
+export const addTrack = (analytics: AnalyticsData, track: Pick<Track, 'label' | 'firstSeen'>): AnalyticsData => {
+  const hour = new Date(track.firstSeen).getHours();
+  const hourlyActivity = [...analytics.hourlyActivity];
+  hourlyActivity[hour]++;
+
+  return {
+    totalDetections: analytics.totalDetections + 1,
+    detectionsByType: {
+      ...analytics.detectionsByType,
+      [track.label]: (analytics.detectionsByType[track.label] || 0) + 1
+    },
+    hourlyActivity
+  };
+};
+
+export const mergeAnalytics = (a: AnalyticsData, b: AnalyticsData): AnalyticsData => {
+  const detectionsByType = { ...a.detectionsByType };
+  Object.entries(b.detectionsByType).forEach(([label, count]) => {
+    detectionsByType[label] = (detectionsByType[label] || 0) + count;
+  });
+
+  return {
+    totalDetections: a.totalDetections + b.totalDetections,
+    detectionsByType,
+    hourlyActivity: a.hourlyActivity.map((count, hour) => count + (b.hourlyActivity[hour] || 0))
+  };
+};
+
+export const addCameraTrack = (
+  analytics: CameraAnalytics,
+  cameraId: string,
+  track: Pick<Track, 'label' | 'firstSeen'>
+): CameraAnalytics => ({
+  ...analytics,
+  [cameraId]: addTrack(analytics[cameraId] ?? createEmptyAnalytics(), track)
+});
+
+export const mergeCameraAnalytics = (a: CameraAnalytics, b: CameraAnalytics): CameraAnalytics => {
+  const merged = { ...a };
+  Object.entries(b).forEach(([cameraId, analytics]) => {
+    merged[cameraId] = merged[cameraId] ? mergeAnalytics(merged[cameraId], analytics) : analytics;
+  });
+  return merged;
+};
+
+// Totals over the given cameras, or over all of them
+export const combineAnalytics = (
+  analytics: CameraAnalytics,
+  cameraIds: string[] = Object.keys(analytics)
+): AnalyticsData => cameraIds.reduce(
+  (total, cameraId) => (analytics[cameraId] ? mergeAnalytics(total, analytics[cameraId]) : total),
+  createEmptyAnalytics()
+);
@@ -0,0 +1,24 @@
+export * from './types';
+export {
+  addCameraTrack,
+  addTrack,
+  combineAnalytics,
+  createEmptyAnalytics,
+  mergeAnalytics,
+  mergeCameraAnalytics
+} from './aggregate';
+export {
+  activityLabel,
+  addDays,
+  bucketActivity,
+  dailyActivity,
+  dielActivity,
+  eventActivity,
+  filterActivity,
+  lastDays,
+  startOfDay,
+  startOfWeek,
+  summarizeActivity,
+  summarizeByCamera,
+  trackActivity
+} from './timeseries';
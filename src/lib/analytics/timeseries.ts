@@ -0,0 +1,119 @@
+import type { Track } from '@/lib/detection';
+import type { DetectionEvent } from '@/lib/events';
+import { addCameraTrack, addTrack, createEmptyAnalytics } from './aggregate';
+import type {
+  ActivityBucket,
+  ActivityRecord,
+  AnalyticsData,
+  AnalyticsFilter,
+  CameraAnalytics,
+  DateRange,
+  DielPoint,
+  Granularity
+} from './types';
+
+// Calendar arithmetic goes through Date so days stay aligned across daylight saving changes
+export const startOfDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+};
+
+export const addDays = (timestamp: number, days: number) => {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days).getTime();
+};
+
+// Weeks start on Monday
+export const startOfWeek = (timestamp: number) => {
+  const day = startOfDay(timestamp);
+  return addDays(day, -((new Date(day).getDay() + 6) % 7));
+};
+
+// The last `days` days up to and including today
+export const lastDays = (days: number, now = Date.now()): DateRange => {
+  const to = addDays(startOfDay(now), 1);
+  return { from: addDays(to, -days), to };
+};
+
+export const trackActivity = (track: Track & { cameraId: string; deploymentId?: string }): ActivityRecord => ({
+  cameraId: track.cameraId,
+  deploymentId: track.deploymentId ?? null,
+  timestamp: track.firstSeen,
+  type: track.type,
+  label: track.label,
+  confidence: track.peakConfidence
+});
+
+export const eventActivity = (event: DetectionEvent): ActivityRecord => ({
+  cameraId: event.cameraId,
+  deploymentId: event.deploymentId ?? null,
+  timestamp: event.start,
+  type: event.type,
+  label: event.label,
+  confidence: event.peakConfidence
+});
+
+export const filterActivity = (records: ActivityRecord[], { cameraId, deploymentId, minConfidence }: AnalyticsFilter) =>
+  records.filter(record =>
+    (!cameraId || record.cameraId === cameraId) &&
+    (!deploymentId || record.deploymentId === deploymentId) &&
+    record.confidence >= minConfidence);
+
+// Events stored before classifier labels have none, so they fall back to their type
+export const activityLabel = (record: ActivityRecord): string => record.label ?? record.type;
+
+// Every day or week of the range in order, empty ones included so gaps show on the chart
+export const bucketActivity = (records: ActivityRecord[], range: DateRange, granularity: Granularity): ActivityBucket[] => {
+  const startOf = granularity === 'day' ? startOfDay : startOfWeek;
+  const step = granularity === 'day' ? 1 : 7;
+  const buckets: ActivityBucket[] = [];
+  const index: Record<number, ActivityBucket> = {};
+  for (let start = startOf(range.from); start < range.to; start = addDays(start, step)) {
+    const bucket: ActivityBucket = { start, total: 0, byLabel: {} };
+    buckets.push(bucket);
+    index[start] = bucket;
+  }
+
+  records.forEach(record => {
+    const bucket = index[startOf(record.timestamp)];
+    if (!bucket || record.timestamp < range.from || record.timestamp >= range.to) return;
+    const label = activityLabel(record);
+    bucket.total++;
+    bucket.byLabel[label] = (bucket.byLabel[label] || 0) + 1;
+  });
+  return buckets;
+};
+
+// Sightings per hour of the day, summed over every day of the records
+export const dielActivity = (records: ActivityRecord[]): DielPoint[] => {
+  const points: DielPoint[] = Array.from({ length: 24 }, (_, hour) => ({ hour, byLabel: {} }));
+  records.forEach(record => {
+    const { byLabel } = points[new Date(record.timestamp).getHours()];
+    const label = activityLabel(record);
+    byLabel[label] = (byLabel[label] || 0) + 1;
+  });
+  return points;
+};
+
+// Sightings keyed by the start of their day
+export const dailyActivity = (records: ActivityRecord[]) => {
+  const days: Record<number, number> = {};
+  records.forEach(record => {
+    const day = startOfDay(record.timestamp);
+    days[day] = (days[day] || 0) + 1;
+  });
+  return days;
+};
+
+// Totals in the same shape as the running analytics, so the summary views can show either
+export const summarizeActivity = (records: ActivityRecord[]): AnalyticsData =>
+  records.reduce(
+    (analytics, record) => addTrack(analytics, { label: record.label, firstSeen: record.timestamp }),
+    createEmptyAnalytics()
+  );
+
+export const summarizeByCamera = (records: ActivityRecord[]): CameraAnalytics =>
+  records.reduce(
+    (analytics, record) => addCameraTrack(analytics, record.cameraId, { label: record.label, firstSeen: record.timestamp }),
+    {} as CameraAnalytics
+  );
@@ -0,0 +1,51 @@
+import type { DetectionType } from '@/lib/detection';
+
+export interface AnalyticsData {
+  totalDetections: number;
+  // Keyed by detection label: classifier labels when a classifier is loaded, heuristic types otherwise
+  detectionsByType: Record<string, number>;
+  hourlyActivity: number[];
+}
+
+// Kept apart per camera id so cameras can be filtered and compared
+export type CameraAnalytics = Record<string, AnalyticsData>;
+
+// One sighting as the long-term charts see it; built from stored events
+export interface ActivityRecord {
+  cameraId: string;
+  deploymentId: string | null;
+  // Milliseconds since epoch
+  timestamp: number;
+  type: DetectionType;
+  label: string;
+  confidence: number;
+}
+
+export interface AnalyticsFilter {
+  // Null covers every camera
+  cameraId: string | null;
+  // Null covers every deployment, and records from no deployment
+  deploymentId: string | null;
+  minConfidence: number;
+}
+
+// Local calendar days; `to` is the start of the day after the last one shown
+export interface DateRange {
+  from: number;
+  to: number;
+}
+
+export type Granularity = 'day' | 'week';
+
+export interface ActivityBucket {
+  // Start of the day or week, local time
+  start: number;
+  total: number;
+  // Keyed by classifier label, which is the detection type when no classifier ran
+  byLabel: Record<string, number>;
+}
+
+export interface DielPoint {
+  hour: number;
+  byLabel: Record<string, number>;
+}
@@ -0,0 +1,52 @@
+import type { AlertPayload } from '@/lib/alerts';
+import type { DetectionType } from '@/lib/detection';
+import type { StoredDetection, StoredMedia } from '@/lib/storage';
+
+// Shapes exchanged with the /api route handlers
+
+export interface DetectionFilter {
+  from?: number;
+  to?: number;
+  type?: DetectionType;
+  cameraId?: string;
+  limit?: number;
+}
+
+export interface DetectionBatch {
+  detections: StoredDetection[];
+}
+
+export interface IngestResult {
+  received: number;
+  // Records whose id was already stored; retried uploads land here
+  duplicates: number;
+}
+
+export interface ServerDetection extends StoredDetection {
+  receivedAt: number;
+}
+
+// Sent as the `metadata` field of the multipart upload next to the `file` field
+export type MediaMetadata = Omit<StoredMedia, 'blob'>;
+
+export interface ServerMedia extends MediaMetadata {
+  fileName: string;
+  url: string;
+  receivedAt: number;
+}
+
+// Alert webhooks are posted from the server, since most endpoints do not answer a browser's CORS preflight
+export interface WebhookRelayRequest {
+  url: string;
+  payload: AlertPayload;
+}
+
+// What the webhook endpoint answered
+export interface WebhookRelayResult {
+  status: number;
+  ok: boolean;
+}
+
+export interface ApiError {
+  error: string;
+}
@@ -0,0 +1,4 @@
+export * from './types';
+export { applyClassification, mergeRankings, parseLabelMap } from './labels';
+export { createOnnxClassifier } from './onnx';
+export type { OnnxClassifierOptions } from './onnx';
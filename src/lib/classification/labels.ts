@@ -0,0 +1,40 @@
+import type { ClassificationLabel, Detection } from '@/lib/detection';
+
+// Accepts a JSON array, a JSON object keyed by class index, or one label per line
+export const parseLabelMap = (text: string): string[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed) as unknown;
+    if (Array.isArray(parsed)) return parsed.map(String);
+    if (typeof parsed === 'object' && parsed !== null) {
+      const labels: string[] = [];
+      Object.entries(parsed as Record<string, unknown>).forEach(([index, label]) => {
+        labels[Number(index)] = String(label);
+      });
+      return Array.from(labels, (label, index) => label ?? `class_${index}`);
+    }
+    throw new Error('Label map must be an array or an object keyed by class index');
+  }
+  return trimmed.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+};
+
+// Combines per-crop rankings, keeping each label's best score
+export const mergeRankings = (rankings: ClassificationLabel[][], limit = 5): ClassificationLabel[] => {
+  const best = new Map<string, number>();
+  rankings.flat().forEach(({ label, score }) => {
+    best.set(label, Math.max(best.get(label) ?? 0, score));
+  });
+  return Array.from(best, ([label, score]) => ({ label, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+export const applyClassification = (
+  detection: Detection,
+  labels: ClassificationLabel[],
+  minScore: number
+): Detection => ({
+  ...detection,
+  labels,
+  label: labels[0] && labels[0].score >= minScore ? labels[0].label : detection.type
+});
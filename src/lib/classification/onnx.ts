@@ -0,0 +1,127 @@
+import type { ClassificationLabel } from '@/lib/detection';
+import { mergeRankings } from './labels';
+import { DEFAULT_CROP_SPEC, type Classifier, type CropSpec, type ImageCrop } from './types';
+
+type TensorLayout = 'NCHW' | 'NHWC';
+
+export interface OnnxClassifierOptions {
+  model: ArrayBuffer;
+  labels: string[];
+  name?: string;
+  // Read from the model's input shape when it is fixed; these are the fallbacks
+  inputSize?: number;
+  layout?: TensorLayout;
+  // Per-channel normalisation applied after scaling pixels to 0..1; ImageNet statistics by default
+  mean?: [number, number, number];
+  std?: [number, number, number];
+  crop?: Partial<CropSpec>;
+  // Where the runtime's .wasm files are served from, see scripts/copy-ort-wasm.mjs
+  wasmPaths?: string;
+}
+
+const IMAGENET_MEAN: [number, number, number] = [0.485, 0.456, 0.406];
+const IMAGENET_STD: [number, number, number] = [0.229, 0.224, 0.225];
+const TOP_LABELS = 5;
+
+// Fixed dimensions of the model's first input, when it declares them
+const readInputShape = (shape: ReadonlyArray<number | string>) => {
+  const dims = shape.map(dim => (typeof dim === 'number' && dim > 0 ? dim : null));
+  if (dims.length !== 4) return null;
+  if (dims[1] === 3 && dims[2] && dims[2] === dims[3]) return { layout: 'NCHW' as const, size: dims[2] };
+  if (dims[3] === 3 && dims[1] && dims[1] === dims[2]) return { layout: 'NHWC' as const, size: dims[1] };
+  return null;
+};
+
+const toTensorData = (
+  crop: ImageCrop,
+  size: number,
+  layout: TensorLayout,
+  mean: [number, number, number],
+  std: [number, number, number]
+) => {
+  const plane = size * size;
+  const tensor = new Float32Array(plane * 3);
+  for (let i = 0; i < plane; i++) {
+    for (let channel = 0; channel < 3; channel++) {
+      const value = (crop.data[i * 4 + channel] / 255 - mean[channel]) / std[channel];
+      tensor[layout === 'NCHW' ? channel * plane + i : i * 3 + channel] = value;
+    }
+  }
+  return tensor;
+};
+
+// Models differ in whether they end with a softmax; raw logits are normalised here
+const toProbabilities = (scores: Float32Array) => {
+  const values = Array.from(scores);
+  const sum = values.reduce((total, value) => total + value, 0);
+  if (values.every(value => value >= 0 && value <= 1) && Math.abs(sum - 1) < 0.01) return values;
+  const max = Math.max(...values);
+  const exps = values.map(value => Math.exp(value - max));
+  const total = exps.reduce((acc, value) => acc + value, 0);
+  return exps.map(value => value / total);
+};
+
+// Image classifier running an ONNX model on the CPU through onnxruntime-web's WebAssembly backend.
+// Inference is proxied to the runtime's own worker so it never blocks rendering.
+export const createOnnxClassifier = async ({
+  model,
+  labels,
+  name = 'ONNX model',
+  inputSize = DEFAULT_CROP_SPEC.size,
+  layout: defaultLayout = 'NCHW',
+  mean = IMAGENET_MEAN,
+  std = IMAGENET_STD,
+  crop,
+  wasmPaths = '/ort/'
+}: OnnxClassifierOptions): Promise<Classifier> => {
+  const ort = await import('onnxruntime-web/wasm');
+  ort.env.wasm.wasmPaths = wasmPaths;
+  ort.env.wasm.proxy = true;
+
+  const session = await ort.InferenceSession.create(new Uint8Array(model), { executionProviders: ['wasm'] });
+  const inputName = session.inputNames[0];
+  const outputName = session.outputNames[0];
+  const metadata = session.inputMetadata[0];
+  const declared = metadata?.isTensor ? readInputShape(metadata.shape) : null;
+  const size = declared?.size ?? inputSize;
+  const layout = declared?.layout ?? defaultLayout;
+  const dims = layout === 'NCHW' ? [1, 3, size, size] : [1, size, size, 3];
+
+  const classifyCrop = async (image: ImageCrop): Promise<ClassificationLabel[]> => {
+    const input = new ort.Tensor('float32', toTensorData(image, size, layout, mean, std), dims);
+    const output = (await session.run({ [inputName]: input }))[outputName];
+    const probabilities = toProbabilities(output.data as Float32Array);
+    input.dispose();
+    output.dispose();
+
+    return probabilities
+      .map((score, index) => ({ label: labels[index] ?? `class_${index}`, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, TOP_LABELS);
+  };
+
+  // Analyzers for several cameras can share one classifier, but a session runs one inference at a time
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const classifyCrops = async (crops: ImageCrop[]) => {
+    const rankings: ClassificationLabel[][] = [];
+    // One at a time: models exported with a fixed batch of one reject larger batches
+    for (const image of crops) {
+      rankings.push(await classifyCrop(image));
+    }
+    return mergeRankings(rankings, TOP_LABELS);
+  };
+
+  return {
+    name,
+    input: { ...DEFAULT_CROP_SPEC, ...crop, size },
+    classify: (_detection, crops) => {
+      const run = queue.then(() => classifyCrops(crops), () => classifyCrops(crops));
+      queue = run.catch(() => undefined);
+      return run;
+    },
+    dispose: () => {
+      session.release().catch(error => console.error('Failed to release ONNX session:', error));
+    }
+  };
+};
@@ -0,0 +1,47 @@
+import type { BoundingBox, ClassificationLabel, Detection } from '@/lib/detection';
+
+// How the analysis pipeline cuts motion regions out of the frame for a classifier
+export interface CropSpec {
+  // Crops are square, `size` pixels a side
+  size: number;
+  // Extra context around each box, as a fraction of its longer side
+  padding: number;
+  // Only the largest boxes are cropped
+  maxCrops: number;
+  // Frames below this detection confidence are not classified
+  minConfidence: number;
+}
+
+export const DEFAULT_CROP_SPEC: CropSpec = {
+  size: 224,
+  padding: 0.2,
+  maxCrops: 3,
+  minConfidence: 0.4
+};
+
+// RGBA pixels of one crop, cut from the full-resolution frame where possible
+export interface ImageCrop {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+  // The box in analysis-frame coordinates
+  box: BoundingBox;
+}
+
+export interface Classifier {
+  name: string;
+  // Null for classifiers that work from the detection alone and need no pixels
+  input: CropSpec | null;
+  // Ranked labels for the detection as a whole, best first
+  classify: (detection: Detection, crops: ImageCrop[]) => Promise<ClassificationLabel[]>;
+  dispose: () => void;
+}
+
+export interface ClassifierSettings {
+  // Below this score the top label is not trusted and the heuristic type is reported instead
+  minScore: number;
+}
+
+export const DEFAULT_CLASSIFIER_SETTINGS: ClassifierSettings = {
+  minScore: 0.5
+};
@@ -0,0 +1,57 @@
+import type { DateRange } from '@/lib/analytics';
+import type { DetectionEvent } from '@/lib/events';
+import type { Deployment, DeploymentSettings, DeploymentSummary } from './types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const createDeployment = (name = 'New deployment', now = Date.now()): Deployment => ({
+  id: `deployment-${now}-${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  latitude: null,
+  longitude: null,
+  habitat: '',
+  cameraHeight: null,
+  cameraHeading: null,
+  baitUse: false,
+  start: now,
+  end: null,
+  notes: ''
+});
+
+export const isDeploymentOpen = (deployment: Deployment, timestamp: number) =>
+  timestamp >= deployment.start && (deployment.end === null || timestamp < deployment.end);
+
+// The deployment a source's record from `timestamp` is stamped with. Records from outside the
+// deployment's dates, or assigned to a deleted deployment, get none.
+export const assignedDeployment = ({ deployments, assignments }: DeploymentSettings, sourceId: string, timestamp: number) => {
+  const deployment = deployments.find(item => item.id === assignments[sourceId]);
+  return deployment && isDeploymentOpen(deployment, timestamp) ? deployment : null;
+};
+
+// Time in the field within the range, counting an open deployment up to now
+const cameraDays = (deployment: Deployment, range: DateRange, now: number) => {
+  const start = Math.max(deployment.start, range.from);
+  const end = Math.min(deployment.end ?? now, range.to, now);
+  return Math.max(0, end - start) / DAY;
+};
+
+export const summarizeDeployments = (
+  deployments: Deployment[],
+  events: DetectionEvent[],
+  range: DateRange,
+  now = Date.now()
+): DeploymentSummary[] => deployments.map(deployment => {
+  const own = events.filter(event => event.deploymentId === deployment.id);
+  const days = cameraDays(deployment, range, now);
+  return {
+    deployment,
+    cameraDays: days,
+    events: own.length,
+    eventRate: days > 0 ? own.length / days * 100 : null,
+    labels: own.reduce<Record<string, number>>((counts, event) => ({
+      ...counts,
+      [event.label]: (counts[event.label] ?? 0) + 1
+    }), {}),
+    lastEvent: own.length > 0 ? Math.max(...own.map(event => event.start)) : null
+  };
+});
@@ -0,0 +1,2 @@
+export * from './types';
+export { assignedDeployment, createDeployment, isDeploymentOpen, summarizeDeployments } from './deployments';
@@ -0,0 +1,41 @@
+// One camera's stay at one site, the unit occupancy analyses and Camtrap DP count by
+export interface Deployment {
+  id: string;
+  name: string;
+  // Decimal degrees (WGS 84); null until the site has been surveyed
+  latitude: number | null;
+  longitude: number | null;
+  habitat: string;
+  // Metres above the ground
+  cameraHeight: number | null;
+  // Compass bearing the camera faces, degrees clockwise from north
+  cameraHeading: number | null;
+  baitUse: boolean;
+  // Milliseconds since epoch; a deployment still in the field has no end
+  start: number;
+  end: number | null;
+  notes: string;
+}
+
+export interface DeploymentSettings {
+  deployments: Deployment[];
+  // Deployment id by video source id; records from unassigned sources carry no deployment
+  assignments: Record<string, string>;
+}
+
+export const DEFAULT_DEPLOYMENT_SETTINGS: DeploymentSettings = {
+  deployments: [],
+  assignments: {}
+};
+
+export interface DeploymentSummary {
+  deployment: Deployment;
+  // Days of the range the deployment was in the field
+  cameraDays: number;
+  events: number;
+  // Events per 100 camera days, the usual relative abundance index; null when it was not out in the range
+  eventRate: number | null;
+  // Events per label, i.e. which species were detected at the site
+  labels: Record<string, number>;
+  lastEvent: number | null;
+}
@@ -0,0 +1,131 @@
+import type { DetectorConfig, FrameBuffer, PixelScorer } from './types';
+
+// Foreground pixels still feed the model, only much slower, so a bedded-down animal fades out eventually
+const FOREGROUND_LEARNING_FACTOR = 0.1;
+const INITIAL_VARIANCE = 100;
+const MIN_VARIANCE = 16;
+// Smoothing of the per-pixel foreground/background toggle rate used to spot swaying vegetation
+const FLICKER_RATE = 0.05;
+// At a flicker of 1 (toggling every frame) the threshold is this many times higher
+const FLICKER_SUPPRESSION = 4;
+const MIN_GAIN = 0.5;
+const MAX_GAIN = 2;
+const GAIN_SAMPLES = 1024;
+
+export interface BackgroundModel {
+  // Returns a scorer for this frame, or null while the model is seeded from the first frame.
+  // Scoring a pixel also updates the model at that pixel.
+  prepare: (frame: FrameBuffer) => PixelScorer | null;
+  reset: () => void;
+}
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// Per-pixel running Gaussian over the sampling grid with global illumination compensation
+export const createBackgroundModel = (
+  config: Pick<
+    DetectorConfig,
+    'skipFactor' | 'minimumPixelDifference' | 'learningRate' | 'varianceThreshold' | 'illuminationCompensation'
+  >
+): BackgroundModel => {
+  let width = 0;
+  let height = 0;
+  let means: Float32Array | null = null;
+  let variances = new Float32Array(0);
+  let flicker = new Float32Array(0);
+  let foreground = new Uint8Array(0);
+
+  const forEachSample = (frame: FrameBuffer, callback: (i: number, sample: number) => void) => {
+    let sample = 0;
+    for (let y = 0; y < frame.height; y += config.skipFactor) {
+      for (let x = 0; x < frame.width; x += config.skipFactor, sample++) {
+        callback((y * frame.width + x) * 4, sample);
+      }
+    }
+  };
+
+  const seed = (frame: FrameBuffer) => {
+    const samples = Math.ceil(frame.width / config.skipFactor) * Math.ceil(frame.height / config.skipFactor);
+    width = frame.width;
+    height = frame.height;
+    means = new Float32Array(samples * 3);
+    variances = new Float32Array(samples).fill(INITIAL_VARIANCE);
+    flicker = new Float32Array(samples);
+    foreground = new Uint8Array(samples);
+
+    const seeded = means;
+    forEachSample(frame, (i, sample) => {
+      seeded[sample * 3] = frame.data[i];
+      seeded[sample * 3 + 1] = frame.data[i + 1];
+      seeded[sample * 3 + 2] = frame.data[i + 2];
+    });
+  };
+
+  // Median brightness ratio between model and frame; the median ignores whatever animal is in view
+  const illuminationGain = (frame: FrameBuffer, model: Float32Array) => {
+    const ratios: number[] = [];
+    const sampleCount = variances.length;
+    const stride = Math.max(1, Math.floor(sampleCount / GAIN_SAMPLES));
+
+    forEachSample(frame, (i, sample) => {
+      if (sample % stride !== 0) return;
+      const current = luminance(frame.data[i], frame.data[i + 1], frame.data[i + 2]);
+      const reference = luminance(model[sample * 3], model[sample * 3 + 1], model[sample * 3 + 2]);
+      if (current > 8 && reference > 8) {
+        ratios.push(reference / current);
+      }
+    });
+
+    if (ratios.length === 0) return 1;
+    ratios.sort((a, b) => a - b);
+    return Math.min(Math.max(ratios[Math.floor(ratios.length / 2)], MIN_GAIN), MAX_GAIN);
+  };
+
+  const prepare = (frame: FrameBuffer): PixelScorer | null => {
+    if (!means || frame.width !== width || frame.height !== height) {
+      seed(frame);
+      return null;
+    }
+
+    const model = means;
+    const { data } = frame;
+    const gain = config.illuminationCompensation ? illuminationGain(frame, model) : 1;
+    const rate = config.learningRate;
+
+    return (i, sample) => {
+      const m = sample * 3;
+      const r = data[i] * gain;
+      const g = data[i + 1] * gain;
+      const b = data[i + 2] * gain;
+      const diff = Math.abs(r - model[m]) + Math.abs(g - model[m + 1]) + Math.abs(b - model[m + 2]);
+
+      const threshold = Math.max(
+        config.minimumPixelDifference,
+        config.varianceThreshold * Math.sqrt(variances[sample])
+      ) * (1 + FLICKER_SUPPRESSION * flicker[sample]);
+      const isForeground = diff > threshold ? 1 : 0;
+
+      flicker[sample] += FLICKER_RATE * ((isForeground !== foreground[sample] ? 1 : 0) - flicker[sample]);
+      foreground[sample] = isForeground;
+
+      const meanRate = isForeground ? rate * FOREGROUND_LEARNING_FACTOR : rate;
+      model[m] += meanRate * (r - model[m]);
+      model[m + 1] += meanRate * (g - model[m + 1]);
+      model[m + 2] += meanRate * (b - model[m + 2]);
+      // Variance is only learned from background so a passing animal does not widen the band
+      if (!isForeground) {
+        variances[sample] = Math.max(MIN_VARIANCE, variances[sample] + rate * (diff * diff - variances[sample]));
+      }
+
+      return isForeground ? diff : 0;
+    };
+  };
+
+  const reset = () => {
+    means = null;
+    width = 0;
+    height = 0;
+  };
+
+  return { prepare, reset };
+};
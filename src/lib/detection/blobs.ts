@@ -0,0 +1,92 @@
+import type { MotionBlob, MotionMask } from './types';
+
+// Groups active mask cells into 8-connected components and describes each one
+export const findBlobs = (
+  mask: MotionMask,
+  frameWidth: number,
+  frameHeight: number,
+  minCells = 1
+): MotionBlob[] => {
+  const { cols, rows, cellSize, active, motionCounts, motionSums } = mask;
+  const visited = new Uint8Array(active.length);
+  const stack: number[] = [];
+  const blobs: MotionBlob[] = [];
+
+  for (let start = 0; start < active.length; start++) {
+    if (!active[start] || visited[start]) continue;
+
+    let minCol = cols;
+    let minRow = rows;
+    let maxCol = -1;
+    let maxRow = -1;
+    let cellCount = 0;
+    let area = 0;
+    let motionPoints = 0;
+    let motionSum = 0;
+    let weightedX = 0;
+    let weightedY = 0;
+    let weight = 0;
+
+    visited[start] = 1;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const cell = stack.pop() as number;
+      const col = cell % cols;
+      const row = Math.floor(cell / cols);
+
+      const left = col * cellSize;
+      const top = row * cellSize;
+      const cellWidth = Math.min(cellSize, frameWidth - left);
+      const cellHeight = Math.min(cellSize, frameHeight - top);
+      // Cells with no moving samples still count towards the centroid so it stays inside the blob
+      const cellWeight = Math.max(motionCounts[cell], 1);
+
+      cellCount++;
+      area += cellWidth * cellHeight;
+      motionPoints += motionCounts[cell];
+      motionSum += motionSums[cell];
+      weightedX += (left + cellWidth / 2) * cellWeight;
+      weightedY += (top + cellHeight / 2) * cellWeight;
+      weight += cellWeight;
+      minCol = Math.min(minCol, col);
+      minRow = Math.min(minRow, row);
+      maxCol = Math.max(maxCol, col);
+      maxRow = Math.max(maxRow, row);
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nextCol = col + dx;
+          const nextRow = row + dy;
+          if (nextCol < 0 || nextRow < 0 || nextCol >= cols || nextRow >= rows) continue;
+          const next = nextRow * cols + nextCol;
+          if (active[next] && !visited[next]) {
+            visited[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    if (cellCount < minCells) continue;
+
+    const x = minCol * cellSize;
+    const y = minRow * cellSize;
+    blobs.push({
+      box: {
+        x,
+        y,
+        width: Math.min((maxCol + 1) * cellSize, frameWidth) - x,
+        height: Math.min((maxRow + 1) * cellSize, frameHeight) - y,
+        area,
+        centroid: { x: weightedX / weight, y: weightedY / weight }
+      },
+      cellCount,
+      motionPoints,
+      intensity: motionPoints > 0 ? Math.min(motionSum / (motionPoints * 765), 1) : 0
+    });
+  }
+
+  // Largest first so callers can take the dominant region without sorting again
+  return blobs.sort((a, b) => b.box.area - a.box.area);
+};
@@ -0,0 +1,27 @@
+import type { DetectorConfig } from './types';
+import { DEFAULT_ZONE_SENSITIVITY } from './zones';
+
+export const DEFAULT_DETECTOR_CONFIG: DetectorConfig = {
+  method: 'frame-diff',
+  sensitivity: 50,
+  minimumPixelDifference: 10,
+  samplingInterval: 50,
+  gridSize: 32,
+  skipFactor: 8,
+  cellActivationRatio: 0.2,
+  minBlobCells: 1,
+  learningRate: 0.02,
+  varianceThreshold: 2.5,
+  illuminationCompensation: true,
+  classThresholds: {
+    LARGE_ANIMAL: { intensity: 0.7, coverage: 0.015 },
+    MEDIUM_ANIMAL: { intensity: 0.4, coverage: 0.006 },
+    SMALL_ANIMAL: { intensity: 0.2, coverage: 0.0015 }
+  }
+};
+
+// Same scaling as zoneThreshold, applied to the whole frame
+export const applySensitivity = (config: DetectorConfig): DetectorConfig => ({
+  ...config,
+  minimumPixelDifference: config.minimumPixelDifference * DEFAULT_ZONE_SENSITIVITY / Math.min(Math.max(config.sensitivity, 1), 100)
+});
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_DETECTOR_CONFIG } from './config';
+import { analyzeFrame, classifyMotion, createMotionDetector } from './detector';
+import type { FrameBuffer } from './types';
+
+const WIDTH = 160;
+const HEIGHT = 120;
+
+// Black frame with an optional white square, laid out like ImageData
+const frame = (square?: { x: number; y: number; size: number }, width = WIDTH, height = HEIGHT): FrameBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  if (square) {
+    for (let y = square.y; y < square.y + square.size; y++) {
+      for (let x = square.x; x < square.x + square.size; x++) {
+        const i = (y * width + x) * 4;
+        data[i] = data[i + 1] = data[i + 2] = 255;
+      }
+    }
+  }
+  return { data, width, height, timestamp: 0 };
+};
+
+// Fills exactly the mask cell at column 1, row 1 with the default 32 px grid
+const SQUARE = { x: 32, y: 32, size: 32 };
+
+describe('analyzeFrame', () => {
+  it('finds nothing between identical frames', () => {
+    assert.equal(analyzeFrame(frame(), frame().data), null);
+  });
+
+  it('reports a moving square with its box and share of the frame', () => {
+    const detection = analyzeFrame(frame(SQUARE), frame().data);
+    assert.ok(detection);
+    // 4 x 4 of the 20 x 15 sampled pixels changed from black to white
+    assert.equal(detection.motionPoints, 16);
+    assert.equal(detection.coverage, 16 / 300);
+    assert.equal(detection.intensity, 1);
+    assert.equal(detection.type, 'LARGE_ANIMAL');
+    assert.equal(detection.boxes.length, 1);
+    assert.deepEqual(
+      { x: detection.boxes[0].x, y: detection.boxes[0].y, width: detection.boxes[0].width, height: detection.boxes[0].height },
+      { x: 32, y: 32, width: 32, height: 32 }
+    );
+  });
+
+  it('ignores differences below the pixel threshold', () => {
+    const faint = frame();
+    for (let i = 0; i < faint.data.length; i += 4) faint.data[i] = 2;
+    assert.equal(analyzeFrame(faint, frame().data), null);
+  });
+});
+
+describe('classifyMotion', () => {
+  const { classThresholds } = DEFAULT_DETECTOR_CONFIG;
+
+  it('picks the largest class both measures pass', () => {
+    assert.equal(classifyMotion(0.9, 0.02), 'LARGE_ANIMAL');
+    assert.equal(classifyMotion(0.9, 0.01), 'MEDIUM_ANIMAL');
+    assert.equal(classifyMotion(0.3, 0.02), 'SMALL_ANIMAL');
+    assert.equal(classifyMotion(0.1, 0.5), 'AMBIENT_MOTION');
+  });
+
+  it('needs the thresholds to be exceeded, not met', () => {
+    const { intensity, coverage } = classThresholds.SMALL_ANIMAL;
+    assert.equal(classifyMotion(intensity, coverage * 2), 'AMBIENT_MOTION');
+    assert.equal(classifyMotion(intensity * 2, coverage), 'AMBIENT_MOTION');
+  });
+
+  it('uses the thresholds it is given', () => {
+    const strict = { ...classThresholds, LARGE_ANIMAL: { intensity: 0.95, coverage: 0.5 } };
+    assert.equal(classifyMotion(0.9, 0.02, strict), 'MEDIUM_ANIMAL');
+  });
+});
+
+describe('createMotionDetector', () => {
+  it('warms up on the first frame, then compares against the previous one', () => {
+    const detector = createMotionDetector();
+    assert.equal(detector.processFrame(frame()), null);
+    assert.equal(detector.lastActivity(), null);
+
+    const detection = detector.processFrame(frame(SQUARE));
+    assert.ok(detection);
+    assert.equal(detection.type, 'LARGE_ANIMAL');
+
+    const activity = detector.lastActivity();
+    assert.ok(activity);
+    assert.equal(activity.cols, 5);
+    assert.equal(activity.rows, 4);
+    assert.deepEqual(
+      Array.from(activity.active).flatMap((active, cell) => (active ? [cell] : [])),
+      [activity.cols + 1]
+    );
+
+    // The square is now the reference, so holding still is not motion
+    assert.equal(detector.processFrame(frame(SQUARE)), null);
+  });
+
+  it('starts over after a reset or a change of resolution', () => {
+    const detector = createMotionDetector();
+    detector.processFrame(frame());
+    detector.reset();
+    assert.equal(detector.processFrame(frame(SQUARE)), null);
+
+    assert.equal(detector.processFrame(frame(undefined, 80, 60)), null);
+    assert.ok(detector.processFrame(frame({ x: 0, y: 0, size: 32 }, 80, 60)));
+  });
+});
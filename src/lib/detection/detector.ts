@@ -0,0 +1,208 @@
+import { createBackgroundModel } from './background';
+import { findBlobs } from './blobs';
+import { DEFAULT_DETECTOR_CONFIG, applySensitivity } from './config';
+import { activateCells, cellIndexAt, createMotionMask } from './mask';
+import { createZoneLayer, type DetectionZone } from './zones';
+import type {
+  Detection,
+  DetectionType,
+  DetectorConfig,
+  FrameBuffer,
+  MotionActivity,
+  MotionClassThreshold,
+  MotionClassThresholds,
+  MotionSample,
+  PixelScorer
+} from './types';
+
+// Share of the frame moving at which coverage stops adding confidence
+const FULL_CONFIDENCE_COVERAGE = 0.03;
+
+// Coverage is a fraction of the sampled pixels, so the result does not depend on the analysis width
+export const calculateConfidence = (intensity: number, coverage: number): number => {
+  const intensityFactor = Math.min(intensity * 2, 1);
+  const coverageFactor = Math.min(coverage / FULL_CONFIDENCE_COVERAGE, 1);
+  return (intensityFactor * 0.6 + coverageFactor * 0.4);
+};
+
+export const classifyMotion = (
+  intensity: number,
+  coverage: number,
+  thresholds: MotionClassThresholds = DEFAULT_DETECTOR_CONFIG.classThresholds
+): DetectionType => {
+  const passes = ({ intensity: minIntensity, coverage: minCoverage }: MotionClassThreshold) =>
+    intensity > minIntensity && coverage > minCoverage;
+  if (passes(thresholds.LARGE_ANIMAL)) return 'LARGE_ANIMAL';
+  if (passes(thresholds.MEDIUM_ANIMAL)) return 'MEDIUM_ANIMAL';
+  if (passes(thresholds.SMALL_ANIMAL)) return 'SMALL_ANIMAL';
+  return 'AMBIENT_MOTION';
+};
+
+// Plain RGB difference against the previous frame
+export const frameDifference = (
+  data: Uint8ClampedArray,
+  previous: Uint8ClampedArray,
+  minimumPixelDifference: number
+): PixelScorer => (i) => {
+  const diff = Math.abs(data[i] - previous[i]) +
+              Math.abs(data[i + 1] - previous[i + 1]) +
+              Math.abs(data[i + 2] - previous[i + 2]);
+  return diff > minimumPixelDifference ? diff : 0;
+};
+
+// Sparse motion scores over the sampling grid, binned into the motion mask
+export const measureMotion = (
+  current: FrameBuffer,
+  score: PixelScorer,
+  config: DetectorConfig
+): MotionSample => {
+  const { data, width, height } = current;
+  const mask = createMotionMask(width, height, config.gridSize);
+  let totalMotion = 0;
+  let motionPoints = 0;
+  let sample = 0;
+
+  for (let y = 0; y < height; y += config.skipFactor) {
+    for (let x = 0; x < width; x += config.skipFactor, sample++) {
+      const i = (y * width + x) * 4;
+      if (i >= 0 && i < data.length - 3) {  // Ensure we don't go out of bounds
+        const diff = score(i, sample);
+
+        if (diff > 0) {
+          totalMotion += diff;
+          motionPoints++;
+
+          const cell = cellIndexAt(mask, x, y);
+          mask.motionCounts[cell]++;
+          mask.motionSums[cell] += diff;
+        }
+      }
+    }
+  }
+
+  activateCells(mask, width, height, config.skipFactor, config.cellActivationRatio);
+  return { totalMotion, motionPoints, samples: sample, mask };
+};
+
+export const buildDetection = (
+  current: FrameBuffer,
+  { totalMotion, motionPoints, samples, mask }: MotionSample,
+  config: DetectorConfig,
+  zoneIds: string[] = []
+): Detection | null => {
+  if (motionPoints === 0) return null;
+
+  const intensity = Math.min(totalMotion / (motionPoints * 765), 1);
+  const coverage = motionPoints / samples;
+  const blobs = findBlobs(mask, current.width, current.height, config.minBlobCells);
+  const type = classifyMotion(intensity, coverage, config.classThresholds);
+  return {
+    timestamp: new Date(current.timestamp ?? Date.now()).toISOString(),
+    intensity,
+    confidence: calculateConfidence(intensity, coverage),
+    type,
+    label: type,
+    labels: [],
+    motionPoints,
+    coverage,
+    frameWidth: current.width,
+    frameHeight: current.height,
+    boxes: blobs.map(blob => blob.box),
+    zoneIds
+  };
+};
+
+// Frame-differencing analysis of one frame against the one before it
+export const analyzeFrame = (
+  current: FrameBuffer,
+  previous: Uint8ClampedArray,
+  baseConfig: DetectorConfig = DEFAULT_DETECTOR_CONFIG
+): Detection | null => {
+  const config = applySensitivity(baseConfig);
+  const score = frameDifference(current.data, previous, config.minimumPixelDifference);
+  return buildDetection(current, measureMotion(current, score, config), config);
+};
+
+export interface MotionDetector {
+  processFrame: (frame: FrameBuffer) => Detection | null;
+  // Active cells of the last processed frame; null while the reference is still warming up
+  lastActivity: () => MotionActivity | null;
+  reset: () => void;
+}
+
+// Stateful wrapper that keeps the reference (previous frame or background model) between calls
+export const createMotionDetector = (
+  baseConfig: DetectorConfig = DEFAULT_DETECTOR_CONFIG,
+  zones: DetectionZone[] = []
+): MotionDetector => {
+  const config = applySensitivity(baseConfig);
+  const zoneLayer = createZoneLayer(zones, config);
+  // Zones can ask for fainter motion than the detector default, so the reference has to let it through
+  const referenceConfig = zoneLayer
+    ? { ...config, minimumPixelDifference: zoneLayer.minimumPixelDifference }
+    : config;
+
+  let activity: MotionActivity | null = null;
+
+  const analyze = (frame: FrameBuffer, score: PixelScorer) => {
+    const zoned = zoneLayer ? zoneLayer.apply(frame, score) : null;
+    const sample = measureMotion(frame, zoned ? zoned.score : score, config);
+    const { mask } = sample;
+    activity = {
+      width: frame.width,
+      height: frame.height,
+      cellSize: mask.cellSize,
+      cols: mask.cols,
+      rows: mask.rows,
+      active: mask.active
+    };
+    return buildDetection(frame, sample, config, zoned ? zoned.firedZones() : []);
+  };
+
+  if (config.method === 'background') {
+    const model = createBackgroundModel(referenceConfig);
+    return {
+      processFrame: (frame) => {
+        activity = null;
+        const score = model.prepare(frame);
+        return score ? analyze(frame, score) : null;
+      },
+      lastActivity: () => activity,
+      reset: () => {
+        activity = null;
+        model.reset();
+      }
+    };
+  }
+
+  let previous: Uint8ClampedArray | null = null;
+  let previousWidth = 0;
+  let previousHeight = 0;
+
+  const processFrame = (frame: FrameBuffer) => {
+    activity = null;
+    // A resolution change makes the stored frame meaningless, so start over
+    if (!previous || frame.width !== previousWidth || frame.height !== previousHeight) {
+      previous = new Uint8ClampedArray(frame.data);
+      previousWidth = frame.width;
+      previousHeight = frame.height;
+      return null;
+    }
+
+    const detection = analyze(
+      frame,
+      frameDifference(frame.data, previous, referenceConfig.minimumPixelDifference)
+    );
+    previous = new Uint8ClampedArray(frame.data);
+    return detection;
+  };
+
+  const reset = () => {
+    activity = null;
+    previous = null;
+    previousWidth = 0;
+    previousHeight = 0;
+  };
+
+  return { processFrame, lastActivity: () => activity, reset };
+};
@@ -0,0 +1,32 @@
+export * from './types';
+export { DEFAULT_DETECTOR_CONFIG, applySensitivity } from './config';
+export { createBackgroundModel } from './background';
+export type { BackgroundModel } from './background';
+export { findBlobs } from './blobs';
+export { activateCells, cellIndexAt, createMotionMask } from './mask';
+export {
+  analyzeFrame,
+  buildDetection,
+  calculateConfidence,
+  classifyMotion,
+  createMotionDetector,
+  frameDifference,
+  measureMotion
+} from './detector';
+export type { MotionDetector } from './detector';
+export { DEFAULT_TRACKER_CONFIG, createTracker, dominant, nearestEdge } from './tracker';
+export type {
+  FrameEdge,
+  Track,
+  Tracker,
+  TrackerConfig,
+  TrackerUpdate,
+  TrackPoint
+} from './tracker';
+export {
+  DEFAULT_ZONE_SENSITIVITY,
+  createZoneLayer,
+  pointInPolygon,
+  zoneThreshold
+} from './zones';
+export type { DetectionZone, ZonedScorer, ZoneLayer, ZoneMode } from './zones';
@@ -0,0 +1,49 @@
+import type { MotionMask } from './types';
+
+export const createMotionMask = (width: number, height: number, cellSize: number): MotionMask => {
+  const size = Math.max(1, Math.floor(cellSize));
+  const cols = Math.ceil(width / size);
+  const rows = Math.ceil(height / size);
+  return {
+    cols,
+    rows,
+    cellSize: size,
+    motionCounts: new Uint32Array(cols * rows),
+    motionSums: new Float32Array(cols * rows),
+    active: new Uint8Array(cols * rows)
+  };
+};
+
+export const cellIndexAt = (mask: MotionMask, x: number, y: number) =>
+  Math.floor(y / mask.cellSize) * mask.cols + Math.floor(x / mask.cellSize);
+
+// Number of sampled pixels that fall in a cell, accounting for clipped cells on the right and bottom edges
+export const samplesPerCell = (
+  mask: MotionMask,
+  cell: number,
+  width: number,
+  height: number,
+  skipFactor: number
+) => {
+  const col = cell % mask.cols;
+  const row = Math.floor(cell / mask.cols);
+  const countAxis = (start: number, limit: number) => {
+    const end = Math.min(start + mask.cellSize, limit);
+    const first = Math.ceil(start / skipFactor) * skipFactor;
+    return first >= end ? 0 : Math.floor((end - 1 - first) / skipFactor) + 1;
+  };
+  return countAxis(col * mask.cellSize, width) * countAxis(row * mask.cellSize, height);
+};
+
+export const activateCells = (
+  mask: MotionMask,
+  width: number,
+  height: number,
+  skipFactor: number,
+  activationRatio: number
+) => {
+  for (let cell = 0; cell < mask.active.length; cell++) {
+    const samples = samplesPerCell(mask, cell, width, height, skipFactor);
+    mask.active[cell] = samples > 0 && mask.motionCounts[cell] / samples >= activationRatio ? 1 : 0;
+  }
+};
@@ -0,0 +1,220 @@
+import type { BoundingBox, Detection, DetectionType } from './types';
+
+export type FrameEdge = 'top' | 'bottom' | 'left' | 'right' | 'interior';
+
+export interface TrackPoint {
+  x: number;
+  y: number;
+  timestamp: number;
+}
+
+export interface Track {
+  id: number;
+  box: BoundingBox;
+  path: TrackPoint[];
+  firstSeen: number;
+  lastSeen: number;
+  entryEdge: FrameEdge;
+  // Set once the track has been closed
+  exitEdge: FrameEdge | null;
+  // Pixels per second travelled along the path
+  speed: number;
+  dwellTime: number;
+  type: DetectionType;
+  typeCounts: Partial<Record<DetectionType, number>>;
+  // Majority label over the matched detections, see Detection.label
+  label: string;
+  labelCounts: Record<string, number>;
+  peakConfidence: number;
+  // Every include zone that fired while the track was matched
+  zoneIds: string[];
+  hits: number;
+  confirmed: boolean;
+  frameWidth: number;
+  frameHeight: number;
+}
+
+export interface TrackerConfig {
+  // Furthest a centroid may jump between matches, as a fraction of the frame diagonal
+  maxMatchDistance: number;
+  // A track unmatched for this long is closed
+  maxIdleTime: number;
+  // Matches needed before a track counts as a real animal rather than flicker
+  minHits: number;
+  // Boxes within this fraction of the frame border are considered touching that edge
+  edgeMargin: number;
+  maxPathLength: number;
+}
+
+export interface TrackerUpdate {
+  active: Track[];
+  // Confirmed tracks closed by this update
+  finished: Track[];
+}
+
+export interface Tracker {
+  update: (detection: Detection | null, timestamp: number) => TrackerUpdate;
+  getActiveTracks: () => Track[];
+  // Closes every open track, e.g. when the stream stops, and returns the confirmed ones
+  flush: () => Track[];
+  reset: () => void;
+}
+
+export const DEFAULT_TRACKER_CONFIG: TrackerConfig = {
+  maxMatchDistance: 0.2,
+  maxIdleTime: 1500,
+  minHits: 3,
+  edgeMargin: 0.05,
+  maxPathLength: 200
+};
+
+export const nearestEdge = (
+  box: BoundingBox,
+  frameWidth: number,
+  frameHeight: number,
+  margin: number
+): FrameEdge => {
+  const distances: [FrameEdge, number][] = [
+    ['left', box.x / frameWidth],
+    ['right', (frameWidth - box.x - box.width) / frameWidth],
+    ['top', box.y / frameHeight],
+    ['bottom', (frameHeight - box.y - box.height) / frameHeight]
+  ];
+  const [edge, distance] = distances.reduce((best, entry) => (entry[1] < best[1] ? entry : best));
+  return distance <= margin ? edge : 'interior';
+};
+
+// Most frequent key; shared by tracks, events and review replays
+export const dominant = <K extends string>(counts: Partial<Record<K, number>>): K => {
+  const entries = Object.entries(counts) as [K, number][];
+  // Any animal classification outweighs background motion picked up around it
+  const animals = entries.filter(([key]) => key !== 'AMBIENT_MOTION');
+  const pool = animals.length > 0 ? animals : entries;
+  return pool.reduce((best, entry) => (entry[1] > best[1] ? entry : best), pool[0])[0];
+};
+
+const pathLength = (path: TrackPoint[]) => {
+  let length = 0;
+  for (let i = 1; i < path.length; i++) {
+    length += Math.hypot(path[i].x - path[i - 1].x, path[i].y - path[i - 1].y);
+  }
+  return length;
+};
+
+const snapshot = (track: Track): Track => ({
+  ...track,
+  path: [...track.path],
+  zoneIds: [...track.zoneIds],
+  typeCounts: { ...track.typeCounts },
+  labelCounts: { ...track.labelCounts }
+});
+
+// Links bounding boxes across frames with greedy nearest-centroid matching
+export const createTracker = (config: TrackerConfig = DEFAULT_TRACKER_CONFIG): Tracker => {
+  let nextId = 1;
+  let tracks: Track[] = [];
+
+  const close = (track: Track): Track => ({
+    ...snapshot(track),
+    exitEdge: nearestEdge(track.box, track.frameWidth, track.frameHeight, config.edgeMargin)
+  });
+
+  const update = (detection: Detection | null, timestamp: number): TrackerUpdate => {
+    const boxes = detection?.boxes ?? [];
+    const unmatched = new Set(boxes.map((_, index) => index));
+
+    if (detection && boxes.length > 0) {
+      const maxDistance = config.maxMatchDistance * Math.hypot(detection.frameWidth, detection.frameHeight);
+      const candidates: { track: Track; box: number; distance: number }[] = [];
+
+      tracks.forEach(track => {
+        const last = track.path[track.path.length - 1];
+        boxes.forEach((box, index) => {
+          const distance = Math.hypot(box.centroid.x - last.x, box.centroid.y - last.y);
+          if (distance <= maxDistance) {
+            candidates.push({ track, box: index, distance });
+          }
+        });
+      });
+
+      const matchedTracks = new Set<number>();
+      candidates
+        .sort((a, b) => a.distance - b.distance)
+        .forEach(({ track, box: index }) => {
+          if (matchedTracks.has(track.id) || !unmatched.has(index)) return;
+          matchedTracks.add(track.id);
+          unmatched.delete(index);
+
+          const box = boxes[index];
+          track.box = box;
+          track.path.push({ x: box.centroid.x, y: box.centroid.y, timestamp });
+          if (track.path.length > config.maxPathLength) {
+            track.path.shift();
+          }
+          track.lastSeen = timestamp;
+          track.hits++;
+          track.confirmed = track.confirmed || track.hits >= config.minHits;
+          track.dwellTime = track.lastSeen - track.firstSeen;
+          track.speed = track.dwellTime > 0 ? pathLength(track.path) / (track.dwellTime / 1000) : 0;
+          track.typeCounts[detection.type] = (track.typeCounts[detection.type] || 0) + 1;
+          track.type = dominant(track.typeCounts);
+          track.labelCounts[detection.label] = (track.labelCounts[detection.label] || 0) + 1;
+          track.label = dominant(track.labelCounts);
+          track.peakConfidence = Math.max(track.peakConfidence, detection.confidence);
+          detection.zoneIds.forEach(zoneId => {
+            if (!track.zoneIds.includes(zoneId)) track.zoneIds.push(zoneId);
+          });
+        });
+
+      unmatched.forEach(index => {
+        const box = boxes[index];
+        tracks.push({
+          id: nextId++,
+          box,
+          path: [{ x: box.centroid.x, y: box.centroid.y, timestamp }],
+          firstSeen: timestamp,
+          lastSeen: timestamp,
+          entryEdge: nearestEdge(box, detection.frameWidth, detection.frameHeight, config.edgeMargin),
+          exitEdge: null,
+          speed: 0,
+          dwellTime: 0,
+          type: detection.type,
+          typeCounts: { [detection.type]: 1 },
+          label: detection.label,
+          labelCounts: { [detection.label]: 1 },
+          peakConfidence: detection.confidence,
+          zoneIds: [...detection.zoneIds],
+          hits: 1,
+          confirmed: config.minHits <= 1,
+          frameWidth: detection.frameWidth,
+          frameHeight: detection.frameHeight
+        });
+      });
+    }
+
+    const finished: Track[] = [];
+    tracks = tracks.filter(track => {
+      if (timestamp - track.lastSeen <= config.maxIdleTime) return true;
+      if (track.confirmed) {
+        finished.push(close(track));
+      }
+      return false;
+    });
+
+    return { active: getActiveTracks(), finished };
+  };
+
+  const getActiveTracks = () => tracks.filter(track => track.confirmed).map(snapshot);
+
+  const flush = () => {
+    const finished = tracks.filter(track => track.confirmed).map(close);
+    tracks = [];
+    return finished;
+  };
+
+  const reset = () => {
+    tracks = [];
+  };
+
+  return { update, getActiveTracks, flush, reset };
+};
@@ -0,0 +1,137 @@
+// Raw RGBA frame, laid out exactly like ImageData so canvas output can be passed straight in
+export interface FrameBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+  // Milliseconds since epoch; defaults to the time the frame is processed
+  timestamp?: number;
+}
+
+export type DetectionType =
+  | 'LARGE_ANIMAL'
+  | 'MEDIUM_ANIMAL'
+  | 'SMALL_ANIMAL'
+  | 'AMBIENT_MOTION';
+
+// Intensity and share of sampled pixels moving that a detection must both exceed to be given a class
+export interface MotionClassThreshold {
+  intensity: number;
+  // 0..1, so the cutoff means the same at any analysis width
+  coverage: number;
+}
+
+export type MotionClassThresholds = Record<Exclude<DetectionType, 'AMBIENT_MOTION'>, MotionClassThreshold>;
+
+// 'frame-diff' compares against the previous frame, 'background' against a learned per-pixel model
+export type DetectionMethod = 'frame-diff' | 'background';
+
+export interface DetectorConfig {
+  method: DetectionMethod;
+  // 1..100; scales minimumPixelDifference the way a zone's sensitivity does, 50 leaves it as is
+  sensitivity: number;
+  // Summed RGB difference a sampled pixel must exceed to count as motion
+  minimumPixelDifference: number;
+  // Shortest gap in milliseconds between analysed frames, live and in video files
+  samplingInterval: number;
+  // Edge length in pixels of the square cells of the motion mask
+  gridSize: number;
+  // Only every Nth pixel in each direction is sampled
+  skipFactor: number;
+  // Fraction of a cell's samples that must move for the cell to be marked active
+  cellActivationRatio: number;
+  // Blobs made of fewer active cells than this are discarded as noise
+  minBlobCells: number;
+  // Background model only: how quickly the model absorbs the current frame, 0..1
+  learningRate: number;
+  // Background model only: standard deviations from the mean before a pixel is foreground
+  varianceThreshold: number;
+  // Background model only: rescale each frame to the model's brightness before comparing
+  illuminationCompensation: boolean;
+  // Checked largest class first; motion that passes none of them is AMBIENT_MOTION
+  classThresholds: MotionClassThresholds;
+}
+
+// Motion score of the sampled pixel at byte offset i (sample is its running index in the sampling
+// grid), or 0 when the pixel matches its reference
+export type PixelScorer = (i: number, sample: number) => number;
+
+// Per-cell motion statistics over a gridSize x gridSize lattice laid on the frame
+export interface MotionMask {
+  cols: number;
+  rows: number;
+  cellSize: number;
+  // Number of moving samples per cell
+  motionCounts: Uint32Array;
+  // Summed RGB difference of moving samples per cell
+  motionSums: Float32Array;
+  // 1 where the cell passed cellActivationRatio
+  active: Uint8Array;
+}
+
+// Which cells of a frame's motion mask were active, with the frame size the mask was laid over
+export interface MotionActivity {
+  width: number;
+  height: number;
+  cellSize: number;
+  cols: number;
+  rows: number;
+  active: Uint8Array;
+}
+
+export interface MotionSample {
+  totalMotion: number;
+  motionPoints: number;
+  // Pixels the sampling grid visited, moving or not
+  samples: number;
+  mask: MotionMask;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Frame pixel coordinates
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Pixel area covered by the blob's active cells, not the full rectangle
+  area: number;
+  centroid: Point;
+}
+
+export interface MotionBlob {
+  box: BoundingBox;
+  cellCount: number;
+  motionPoints: number;
+  // Mean normalised difference of the blob's moving samples, 0..1
+  intensity: number;
+}
+
+// One ranked guess from a classifier, score 0..1
+export interface ClassificationLabel {
+  label: string;
+  score: number;
+}
+
+export interface Detection {
+  timestamp: string;
+  intensity: number;
+  confidence: number;
+  // Size class from the motion heuristic
+  type: DetectionType;
+  // What the detection is reported as: the top classifier label, or the heuristic type without one
+  label: string;
+  // Classifier output for the detection's boxes, best first; empty when only the heuristic ran
+  labels: ClassificationLabel[];
+  motionPoints: number;
+  // motionPoints over the pixels sampled; what the class and confidence are worked out from
+  coverage: number;
+  frameWidth: number;
+  frameHeight: number;
+  boxes: BoundingBox[];
+  // Include zones that saw motion, busiest first; empty when the whole frame is analysed
+  zoneIds: string[];
+}
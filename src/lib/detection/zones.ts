@@ -0,0 +1,120 @@
+import type { DetectorConfig, FrameBuffer, PixelScorer, Point } from './types';
+
+export type ZoneMode = 'include' | 'exclude';
+
+export interface DetectionZone {
+  id: string;
+  name: string;
+  mode: ZoneMode;
+  // Normalised 0..1 frame coordinates so a zone survives resolution changes
+  points: Point[];
+  // 1..100; 50 keeps the detector's own minimumPixelDifference, higher reacts to fainter motion
+  sensitivity: number;
+  enabled: boolean;
+}
+
+export const DEFAULT_ZONE_SENSITIVITY = 50;
+
+export interface ZonedScorer {
+  score: PixelScorer;
+  // Ids of include zones with motion in this frame, busiest first; empty when only exclusions are set
+  firedZones: () => string[];
+}
+
+export interface ZoneLayer {
+  // Lowest per-zone threshold; base scorers must use it so sensitive zones still see faint motion
+  minimumPixelDifference: number;
+  apply: (frame: FrameBuffer, score: PixelScorer) => ZonedScorer;
+}
+
+export const zoneThreshold = (zone: DetectionZone, minimumPixelDifference: number) =>
+  minimumPixelDifference * DEFAULT_ZONE_SENSITIVITY / Math.min(Math.max(zone.sensitivity, 1), 100);
+
+// Ray casting; points on the boundary may land on either side
+export const pointInPolygon = (point: Point, polygon: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Returns null when no zone is enabled, meaning the whole frame is analysed as before
+export const createZoneLayer = (
+  zones: DetectionZone[],
+  config: Pick<DetectorConfig, 'minimumPixelDifference' | 'skipFactor'>
+): ZoneLayer | null => {
+  const active = zones.filter(zone => zone.enabled && zone.points.length >= 3);
+  if (active.length === 0) return null;
+
+  const includes = active.filter(zone => zone.mode === 'include');
+  const excludes = active.filter(zone => zone.mode === 'exclude');
+  // Slot 0 means "not counted"; include zones take slots 1..n, and the whole frame takes slot 1 when
+  // only exclusions are configured
+  const thresholds = includes.length > 0
+    ? [0, ...includes.map(zone => zoneThreshold(zone, config.minimumPixelDifference))]
+    : [0, config.minimumPixelDifference];
+  const minimumPixelDifference = Math.min(...thresholds.slice(1));
+
+  let mapWidth = 0;
+  let mapHeight = 0;
+  let zoneMap = new Uint8Array(0);
+
+  const rasterize = (width: number, height: number) => {
+    const cols = Math.ceil(width / config.skipFactor);
+    const rows = Math.ceil(height / config.skipFactor);
+    zoneMap = new Uint8Array(cols * rows);
+    mapWidth = width;
+    mapHeight = height;
+
+    let sample = 0;
+    for (let y = 0; y < height; y += config.skipFactor) {
+      for (let x = 0; x < width; x += config.skipFactor, sample++) {
+        const point = { x: x / width, y: y / height };
+        if (excludes.some(zone => pointInPolygon(point, zone.points))) continue;
+        if (includes.length === 0) {
+          zoneMap[sample] = 1;
+          continue;
+        }
+        // Overlapping include zones resolve to the most sensitive one
+        let slot = 0;
+        includes.forEach((zone, index) => {
+          if (pointInPolygon(point, zone.points) && (slot === 0 || thresholds[index + 1] < thresholds[slot])) {
+            slot = index + 1;
+          }
+        });
+        zoneMap[sample] = slot;
+      }
+    }
+  };
+
+  const apply = (frame: FrameBuffer, score: PixelScorer): ZonedScorer => {
+    if (frame.width !== mapWidth || frame.height !== mapHeight) {
+      rasterize(frame.width, frame.height);
+    }
+    const hits = new Array(thresholds.length).fill(0);
+
+    return {
+      score: (i, sample) => {
+        const slot = zoneMap[sample];
+        if (!slot) return 0;
+        const diff = score(i, sample);
+        if (diff <= thresholds[slot]) return 0;
+        hits[slot]++;
+        return diff;
+      },
+      firedZones: () => includes
+        .map((zone, index) => ({ id: zone.id, count: hits[index + 1] }))
+        .filter(entry => entry.count > 0)
+        .sort((a, b) => b.count - a.count)
+        .map(entry => entry.id)
+    };
+  };
+
+  return { minimumPixelDifference, apply };
+};
@@ -0,0 +1,94 @@
+import { dominant, type Detection } from '@/lib/detection';
+import { DEFAULT_EVENT_SETTINGS, type DetectionEvent, type EventSettings } from './types';
+
+export interface EventUpdate {
+  // Events closed by this update that were long enough to keep
+  finished: DetectionEvent[];
+  // True when the detection is the open event's most confident frame so far
+  peaked: boolean;
+}
+
+export interface EventBuilder {
+  add: (detection: Detection, timestamp: number) => EventUpdate;
+  // Applied only while `peakAt` is still the open event's best frame, so a slow capture cannot replace a newer one
+  setThumbnail: (peakAt: number, thumbnail: Blob) => void;
+  // Closes the open event once nothing has been added for the gap tolerance
+  closeIdle: (now: number) => DetectionEvent[];
+  // Closes the open event regardless, e.g. when the stream stops
+  flush: () => DetectionEvent[];
+  getActive: () => DetectionEvent | null;
+  configure: (settings: EventSettings) => void;
+}
+
+// Merges one camera's confident detections into events
+export const createEventBuilder = (cameraId: string, initial: EventSettings = DEFAULT_EVENT_SETTINGS): EventBuilder => {
+  let settings = initial;
+  let open: DetectionEvent | null = null;
+  let confidenceSum = 0;
+
+  const close = (): DetectionEvent[] => {
+    const event = open;
+    open = null;
+    confidenceSum = 0;
+    return event && event.end - event.start >= settings.minDuration ? [event] : [];
+  };
+
+  const start = (detection: Detection, timestamp: number): DetectionEvent => ({
+    id: `${cameraId}-${timestamp}`,
+    cameraId,
+    start: timestamp,
+    end: timestamp,
+    peakAt: timestamp,
+    peakConfidence: detection.confidence,
+    meanConfidence: detection.confidence,
+    type: detection.type,
+    typeCounts: {},
+    label: detection.label,
+    labelCounts: {},
+    frames: 0,
+    zoneIds: [],
+    thumbnail: null,
+    flagged: false
+  });
+
+  const add = (detection: Detection, timestamp: number): EventUpdate => {
+    const finished = open && timestamp - open.end > settings.gapTolerance ? close() : [];
+    const event = open ?? start(detection, timestamp);
+    const peaked = event.frames === 0 || detection.confidence > event.peakConfidence;
+
+    confidenceSum += detection.confidence;
+    event.typeCounts[detection.type] = (event.typeCounts[detection.type] || 0) + 1;
+    event.labelCounts[detection.label] = (event.labelCounts[detection.label] || 0) + 1;
+    open = {
+      ...event,
+      end: timestamp,
+      peakAt: peaked ? timestamp : event.peakAt,
+      peakConfidence: peaked ? detection.confidence : event.peakConfidence,
+      meanConfidence: confidenceSum / (event.frames + 1),
+      type: dominant(event.typeCounts),
+      label: dominant(event.labelCounts),
+      frames: event.frames + 1,
+      zoneIds: Array.from(new Set([...event.zoneIds, ...detection.zoneIds]))
+    };
+    return { finished, peaked };
+  };
+
+  const setThumbnail = (peakAt: number, thumbnail: Blob) => {
+    if (open && open.peakAt === peakAt) {
+      open = { ...open, thumbnail };
+    }
+  };
+
+  const closeIdle = (now: number) => (open && now - open.end > settings.gapTolerance ? close() : []);
+
+  return {
+    add,
+    setThumbnail,
+    closeIdle,
+    flush: close,
+    getActive: () => open,
+    configure: (next) => {
+      settings = next;
+    }
+  };
+};
@@ -0,0 +1,3 @@
+export * from './types';
+export { createEventBuilder } from './builder';
+export type { EventBuilder, EventUpdate } from './builder';
@@ -0,0 +1,38 @@
+import type { DetectionType } from '@/lib/detection';
+
+export interface EventSettings {
+  // Detections closer together than this, in milliseconds, belong to the same event
+  gapTolerance: number;
+  // Events shorter than this, in milliseconds, are dropped as flicker
+  minDuration: number;
+}
+
+export const DEFAULT_EVENT_SETTINGS: EventSettings = {
+  gapTolerance: 5000,
+  minDuration: 500
+};
+
+// A run of consecutive detections on one camera, however many frames it spans
+export interface DetectionEvent {
+  id: string;
+  cameraId: string;
+  // Stamped when the event closes, from the deployment its camera was assigned to then
+  deploymentId?: string;
+  // Milliseconds since epoch, of the first and last detection
+  start: number;
+  end: number;
+  // When the most confident frame was seen
+  peakAt: number;
+  peakConfidence: number;
+  meanConfidence: number;
+  // Majority over the frames, animals outweighing ambient motion
+  type: DetectionType;
+  typeCounts: Partial<Record<DetectionType, number>>;
+  label: string;
+  labelCounts: Record<string, number>;
+  frames: number;
+  zoneIds: string[];
+  // JPEG of the most confident frame; null where no video was on hand to capture it
+  thumbnail: Blob | null;
+  flagged: boolean;
+}
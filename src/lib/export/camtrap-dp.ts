@@ -0,0 +1,220 @@
+import type { BoundingBox, DetectionType } from '@/lib/detection';
+import type { StoredMedia } from '@/lib/storage';
+import { toCsv } from './csv';
+import { baseMimeType, mediaExtension } from './media';
+import type { ExportData, ExportQuery } from './types';
+import { createZip, type ZipEntry } from './zip';
+
+// Camtrap DP 1.0, https://camtrap-dp.tdwg.org
+const CAMTRAP_DP_BASE = 'https://raw.githubusercontent.com/tdwg/camtrap-dp/1.0';
+const CLASSIFIED_BY = 'wildlife-detection motion heuristic';
+
+const DEPLOYMENT_COLUMNS = [
+  'deploymentID', 'locationID', 'locationName', 'latitude', 'longitude', 'coordinateUncertainty',
+  'deploymentStart', 'deploymentEnd', 'setupBy', 'cameraID', 'cameraModel', 'cameraDelay', 'cameraHeight',
+  'cameraDepth', 'cameraTilt', 'cameraHeading', 'detectionDistance', 'timestampIssues', 'baitUse',
+  'featureType', 'habitat', 'deploymentGroups', 'deploymentTags', 'deploymentComments'
+] as const;
+
+const MEDIA_COLUMNS = [
+  'mediaID', 'deploymentID', 'captureMethod', 'timestamp', 'filePath', 'filePublic', 'fileName',
+  'fileMediatype', 'exifData', 'favorite', 'mediaComments'
+] as const;
+
+const OBSERVATION_COLUMNS = [
+  'observationID', 'deploymentID', 'mediaID', 'eventID', 'eventStart', 'eventEnd', 'observationLevel',
+  'observationType', 'cameraSetupType', 'scientificName', 'count', 'lifeStage', 'sex', 'behavior',
+  'individualID', 'individualPositionRadius', 'individualPositionAngle', 'individualSpeed', 'bboxX', 'bboxY',
+  'bboxWidth', 'bboxHeight', 'classificationMethod', 'classifiedBy', 'classificationTimestamp',
+  'classificationProbability', 'observationTags', 'observationComments'
+] as const;
+
+const iso = (timestamp: number) => new Date(timestamp).toISOString();
+
+// A label that differs from the size class came from a species classifier
+const scientificName = (item: { label?: string; type: string }) =>
+  item.label && item.label !== item.type ? item.label : undefined;
+
+// Ambient motion is most likely wind or light; nothing says an animal was there
+const observationType = (type: DetectionType) => (type === 'AMBIENT_MOTION' ? 'unclassified' : 'animal');
+
+const mediaFileName = (media: StoredMedia) =>
+  `${media.id.replace(/[^a-zA-Z0-9_.-]/g, '_')}.${mediaExtension(media.mimeType)}`;
+
+// Camtrap DP boxes are fractions of the image, measured from the top-left corner
+const normalizedBox = (box: BoundingBox, frameWidth: number, frameHeight: number) => ({
+  bboxX: +(box.x / frameWidth).toFixed(4),
+  bboxY: +(box.y / frameHeight).toFixed(4),
+  bboxWidth: +(box.width / frameWidth).toFixed(4),
+  bboxHeight: +(box.height / frameHeight).toFixed(4)
+});
+
+const resource = (name: string) => ({
+  name,
+  path: `${name}.csv`,
+  profile: 'tabular-data-resource',
+  format: 'csv',
+  mediatype: 'text/csv',
+  encoding: 'utf-8',
+  schema: `${CAMTRAP_DP_BASE}/${name}-table-schema.json`
+});
+
+// Records from a camera with no deployment fall back to one deployment per camera
+const deploymentOf = (record: { cameraId: string; deploymentId?: string }) => record.deploymentId ?? record.cameraId;
+
+// Deployments are widened to the records stamped with them, which Camtrap DP requires to fall inside.
+// Per-camera fallbacks span the exported data but have no location, so they stop the export.
+const buildDeployments = ({ detections, tracks, media, deployments }: ExportData) => {
+  const spans = new Map<string, { cameraId: string; start: number; end: number }>();
+  const extend = (record: { cameraId: string; deploymentId?: string }, start: number, end: number) => {
+    const id = deploymentOf(record);
+    const span = spans.get(id);
+    spans.set(id, span
+      ? { ...span, start: Math.min(span.start, start), end: Math.max(span.end, end) }
+      : { cameraId: record.cameraId, start, end });
+  };
+  detections.forEach(detection => extend(detection, detection.timestamp, detection.timestamp));
+  tracks.forEach(track => extend(track, track.firstSeen, track.lastSeen));
+  media.forEach(item => extend(item, item.createdAt, item.endedAt ?? item.createdAt));
+
+  return Array.from(spans, ([id, span]) => {
+    const deployment = deployments.find(item => item.id === id);
+    if (!deployment) {
+      return {
+        deploymentID: id,
+        locationName: `${span.cameraId} (no deployment)`,
+        latitude: null,
+        longitude: null,
+        deploymentStart: iso(span.start),
+        deploymentEnd: iso(span.end),
+        cameraID: span.cameraId,
+        baitUse: false,
+        timestampIssues: false
+      };
+    }
+    return {
+      deploymentID: deployment.id,
+      locationName: deployment.name,
+      latitude: deployment.latitude,
+      longitude: deployment.longitude,
+      deploymentStart: iso(Math.min(deployment.start, span.start)),
+      deploymentEnd: iso(Math.max(deployment.end ?? span.end, span.end)),
+      cameraID: span.cameraId,
+      cameraHeight: deployment.cameraHeight,
+      cameraHeading: deployment.cameraHeading === null ? null : Math.round(deployment.cameraHeading) % 360,
+      baitUse: deployment.baitUse,
+      habitat: deployment.habitat,
+      timestampIssues: false,
+      deploymentComments: deployment.notes
+    };
+  });
+};
+
+const buildMedia = (media: StoredMedia[]) => media.map(item => ({
+  mediaID: item.id,
+  deploymentID: deploymentOf(item),
+  // Snapshots are taken by hand; time lapse is the closest of the two allowed methods
+  captureMethod: item.trigger ? 'activityDetection' : 'timeLapse',
+  timestamp: iso(item.createdAt),
+  filePath: `media/${mediaFileName(item)}`,
+  filePublic: false,
+  fileName: mediaFileName(item),
+  fileMediatype: baseMimeType(item.mimeType),
+  favorite: item.flagged
+}));
+
+// Tracks become event-level observations; triggered clips also get a media-level one
+const buildObservations = ({ tracks, media }: ExportData, exportedAt: string) => [
+  ...tracks.map(track => ({
+    observationID: `track-${track.key}`,
+    deploymentID: deploymentOf(track),
+    eventID: track.key,
+    eventStart: iso(track.firstSeen),
+    eventEnd: iso(track.lastSeen),
+    observationLevel: 'event',
+    observationType: observationType(track.type),
+    scientificName: scientificName(track),
+    count: 1,
+    ...normalizedBox(track.box, track.frameWidth, track.frameHeight),
+    classificationMethod: 'machine',
+    classifiedBy: CLASSIFIED_BY,
+    classificationTimestamp: exportedAt,
+    classificationProbability: +track.peakConfidence.toFixed(3),
+    observationTags: `sizeClass:${track.type}|entryEdge:${track.entryEdge}|exitEdge:${track.exitEdge ?? ''}`
+  })),
+  ...media.flatMap(item => {
+    const trigger = item.trigger;
+    if (!trigger) return [];
+    const box = trigger.boxes[0];
+    return [{
+      observationID: `media-${item.id}`,
+      deploymentID: deploymentOf(item),
+      mediaID: item.id,
+      eventStart: iso(item.createdAt),
+      eventEnd: iso(item.endedAt ?? item.createdAt),
+      observationLevel: 'media',
+      observationType: observationType(trigger.type),
+      scientificName: scientificName(trigger),
+      count: 1,
+      ...(box ? normalizedBox(box, trigger.frameWidth, trigger.frameHeight) : {}),
+      classificationMethod: 'machine',
+      classifiedBy: CLASSIFIED_BY,
+      classificationTimestamp: exportedAt,
+      classificationProbability: +trigger.confidence.toFixed(3),
+      observationTags: `sizeClass:${trigger.type}`
+    }];
+  })
+];
+
+export const buildCamtrapPackage = async (data: ExportData, { from, to }: ExportQuery): Promise<Blob> => {
+  const exportedAt = new Date().toISOString();
+  // Folded rather than spread into Math.min, which runs out of stack on a large store
+  const timestamps = [
+    ...data.detections.map(detection => detection.timestamp),
+    ...data.tracks.map(track => track.firstSeen),
+    ...data.media.map(item => item.createdAt)
+  ];
+  const now = Date.now();
+  const start = from ?? (timestamps.length > 0 ? timestamps.reduce((a, b) => (b < a ? b : a)) : now);
+  const end = to ?? (timestamps.length > 0 ? timestamps.reduce((a, b) => (b > a ? b : a)) : now);
+
+  // Both are required by the deployments schema, so a package without them would not validate
+  const deployments = buildDeployments(data);
+  const unplaced = deployments.filter(row => row.latitude === null || row.longitude === null);
+  if (unplaced.length > 0) {
+    throw new Error(
+      'Camtrap DP needs a latitude and longitude for every deployment. Set them, or assign the camera to a ' +
+      `deployment that has them, for: ${unplaced.map(row => row.locationName).join(', ')}`
+    );
+  }
+
+  const observations = buildObservations(data, exportedAt);
+  const descriptor = {
+    profile: `${CAMTRAP_DP_BASE}/camtrap-dp-profile.json`,
+    name: `wildlife-detection-${exportedAt.slice(0, 10)}`,
+    created: exportedAt,
+    contributors: [{ title: 'Wildlife Detection System', role: 'publisher' }],
+    project: {
+      title: 'Wildlife Detection System export',
+      samplingDesign: 'opportunistic',
+      captureMethod: ['activityDetection', 'timeLapse'],
+      individualAnimals: false,
+      observationLevel: ['media', 'event']
+    },
+    temporal: { start: iso(start).slice(0, 10), end: iso(end).slice(0, 10) },
+    // Classifier labels are whatever the loaded model's label map calls them, not checked taxa
+    taxonomic: Array.from(new Set(observations.flatMap(observation =>
+      observation.scientificName ? [observation.scientificName] : []
+    ))).map(name => ({ scientificName: name })),
+    resources: [resource('deployments'), resource('media'), resource('observations')]
+  };
+
+  const entries: ZipEntry[] = [
+    { name: 'datapackage.json', data: JSON.stringify(descriptor, null, 2) },
+    { name: 'deployments.csv', data: toCsv(DEPLOYMENT_COLUMNS, deployments) },
+    { name: 'media.csv', data: toCsv(MEDIA_COLUMNS, buildMedia(data.media)) },
+    { name: 'observations.csv', data: toCsv(OBSERVATION_COLUMNS, observations) },
+    ...data.media.map(item => ({ name: `media/${mediaFileName(item)}`, data: item.blob, modifiedAt: item.createdAt }))
+  ];
+  return createZip(entries);
+};
@@ -0,0 +1,11 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCell = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180 CSV with a header row; missing values become empty cells
+export const toCsv = <K extends string>(columns: readonly K[], rows: Partial<Record<K, CsvValue>>[]) =>
+  [columns.join(','), ...rows.map(row => columns.map(column => escapeCell(row[column])).join(','))].join('\r\n') + '\r\n';
@@ -0,0 +1,19 @@
+import { loadDeploymentSettings, type DetectionStore } from '@/lib/storage';
+import type { ExportData, ExportQuery } from './types';
+
+export const loadExportData = async (store: DetectionStore, { from, to, cameraId }: ExportQuery): Promise<ExportData> => {
+  const range = { from, to };
+  const [detections, tracks, media] = await Promise.all([
+    store.listDetections(range),
+    store.listTracks(range),
+    store.listMedia(range)
+  ]);
+  const matches = (record: { cameraId: string }) => cameraId === undefined || record.cameraId === cameraId;
+
+  return {
+    detections: detections.filter(matches),
+    tracks: tracks.filter(matches),
+    media: media.filter(matches),
+    deployments: loadDeploymentSettings().deployments
+  };
+};
@@ -0,0 +1,47 @@
+import type { StoredDetection } from '@/lib/storage';
+import { toCsv } from './csv';
+
+export const DETECTION_COLUMNS = [
+  'id',
+  'timestamp',
+  'cameraId',
+  'deploymentId',
+  'type',
+  'label',
+  'labels',
+  'confidence',
+  'intensity',
+  'boxes',
+  'zoneIds',
+  'flagged'
+] as const;
+
+// Boxes stay in analysis-frame pixels; the centroid and area are derivable and left out
+const flatten = (detection: StoredDetection) => ({
+  id: detection.id,
+  timestamp: new Date(detection.timestamp).toISOString(),
+  cameraId: detection.cameraId,
+  deploymentId: detection.deploymentId ?? null,
+  type: detection.type,
+  label: detection.label,
+  labels: detection.labels,
+  confidence: detection.confidence,
+  intensity: detection.intensity,
+  boxes: detection.boxes.map(({ x, y, width, height }) => ({ x, y, width, height })),
+  zoneIds: detection.zoneIds,
+  flagged: detection.flagged
+});
+
+export const detectionsToJson = (detections: StoredDetection[]) =>
+  JSON.stringify(detections.map(flatten), null, 2);
+
+export const detectionsToCsv = (detections: StoredDetection[]) =>
+  toCsv(DETECTION_COLUMNS, detections.map(detection => {
+    const record = flatten(detection);
+    return {
+      ...record,
+      labels: record.labels.map(({ label, score }) => `${label}:${score.toFixed(3)}`).join('|'),
+      boxes: JSON.stringify(record.boxes),
+      zoneIds: record.zoneIds.join('|')
+    };
+  }));
@@ -0,0 +1,10 @@
+export * from './types';
+export { buildCamtrapPackage } from './camtrap-dp';
+export { toCsv } from './csv';
+export type { CsvValue } from './csv';
+export { loadExportData } from './data';
+export { downloadBlob } from './download';
+export { baseMimeType, downloadMedia, mediaDownloadName, mediaExtension, mediaSidecar } from './media';
+export { DETECTION_COLUMNS, detectionsToCsv, detectionsToJson } from './detections';
+export { createZip } from './zip';
+export type { ZipEntry } from './zip';
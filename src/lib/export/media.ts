@@ -0,0 +1,69 @@
+import type { Deployment } from '@/lib/deployments';
+import type { StoredMedia } from '@/lib/storage';
+import { downloadBlob } from './download';
+
+const EXTENSIONS: Record<string, string> = {
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+  'image/png': 'png',
+  'image/jpeg': 'jpg'
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const iso = (timestamp: number) => new Date(timestamp).toISOString();
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export const baseMimeType = (mimeType: string) => mimeType.split(';')[0].trim();
+
+export const mediaExtension = (mimeType: string) => EXTENSIONS[baseMimeType(mimeType)] ?? 'bin';
+
+// What a clip or snapshot shows: the detection that triggered it, else whatever was detected when it was taken
+const mediaDetection = (media: StoredMedia) => media.trigger ?? media.context?.detection ?? null;
+
+// Sorts by place and then time, e.g. `north-ride_hedge-cam_2026-10-19_21-04-33_fox-92.png`
+export const mediaDownloadName = (media: StoredMedia, deployment: Deployment | null) => {
+  const date = new Date(media.createdAt);
+  const time = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_` +
+    `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+  const detection = mediaDetection(media);
+  const parts = [
+    deployment ? slug(deployment.name) : '',
+    slug(media.context?.cameraName ?? media.cameraId),
+    time,
+    detection ? `${slug(detection.label)}-${Math.round(detection.confidence * 100)}` : media.kind
+  ];
+  return `${parts.filter(Boolean).join('_')}.${mediaExtension(media.mimeType)}`;
+};
+
+// Everything known about the capture, written next to the file so it stays with it once downloaded
+export const mediaSidecar = (media: StoredMedia, deployment: Deployment | null, fileName: string) => JSON.stringify({
+  file: fileName,
+  id: media.id,
+  kind: media.kind,
+  mimeType: baseMimeType(media.mimeType),
+  size: media.size,
+  capturedAt: iso(media.createdAt),
+  endedAt: media.endedAt === null ? null : iso(media.endedAt),
+  camera: { id: media.cameraId, name: media.context?.cameraName ?? media.cameraId },
+  deployment: deployment
+    ? { ...deployment, start: iso(deployment.start), end: deployment.end === null ? null : iso(deployment.end) }
+    : null,
+  battery: media.context?.battery ?? null,
+  trigger: media.trigger,
+  detection: mediaDetection(media),
+  // Which items were burned into the picture; null when none were
+  overlay: media.context?.overlay ?? null,
+  flagged: media.flagged
+}, null, 2);
+
+// The file and its JSON sidecar, under the same name
+export const downloadMedia = (media: StoredMedia, deployment: Deployment | null) => {
+  const fileName = mediaDownloadName(media, deployment);
+  downloadBlob(media.blob, fileName);
+  downloadBlob(
+    new Blob([mediaSidecar(media, deployment, fileName)], { type: 'application/json' }),
+    fileName.replace(/\.[^.]+$/, '.json')
+  );
+};
@@ -0,0 +1,19 @@
+import type { Deployment } from '@/lib/deployments';
+import type { StoredDetection, StoredMedia, StoredTrack } from '@/lib/storage';
+
+export interface ExportQuery {
+  from?: number;
+  to?: number;
+  // All cameras when unset
+  cameraId?: string;
+}
+
+export interface ExportData {
+  detections: StoredDetection[];
+  tracks: StoredTrack[];
+  media: StoredMedia[];
+  // Every deployment on this device; records point at them by id
+  deployments: Deployment[];
+}
+
+export type ExportFormat = 'camtrap-dp' | 'csv' | 'json';
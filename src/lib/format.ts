@@ -0,0 +1,31 @@
+import type { ScheduleTransition } from '@/lib/schedule';
+
+export const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+// Media-player style position, e.g. 1:05 or 1:02:09
+export const formatOffset = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  const h = Math.floor(whole / 3600);
+  const m = Math.floor((whole % 3600) / 60);
+  const s = String(whole % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// Coarse remaining time, e.g. 45m or 6h 20m
+export const formatRuntime = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+// The schedule's next change, e.g. "On at 19:42" today or "Off at Tue 06:10" later
+export const formatTransition = ({ at, active }: ScheduleTransition) => {
+  const date = new Date(at);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  const when = date.toLocaleString([], sameDay
+    ? { hour: '2-digit', minute: '2-digit' }
+    : { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+  return `${active ? 'On' : 'Off'} at ${when}`;
+};
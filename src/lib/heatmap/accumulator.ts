@@ -0,0 +1,126 @@
+import type { MotionActivity } from '@/lib/detection';
+import type { HeatmapGrid, HeatmapSlice, HeatmapSlices } from './types';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+// Minute slices serve short windows exactly; hour slices keep a week without holding thousands of grids
+const MINUTE_SLICES_KEPT = 60;
+const HOUR_SLICES_KEPT = 7 * 24;
+
+export const HEATMAP_COLS = 64;
+export const HEATMAP_ROWS = 36;
+
+export interface HeatmapAccumulator {
+  add: (activity: MotionActivity, timestamp: number) => void;
+  // Counts over the `duration` milliseconds up to `now`, to the nearest minute or hour
+  snapshot: (duration: number, now?: number) => HeatmapGrid;
+  // The slices held now, to be saved and handed to `restore` after a reload
+  slices: () => HeatmapSlices;
+  // Adds saved slices to those gathered since; slices from a grid of another size are ignored
+  restore: (saved: HeatmapSlices) => void;
+  clear: () => void;
+}
+
+// Spreads each active mask cell over every heatmap cell it overlaps, so masks coarser than the
+// heatmap leave no gaps
+const markActivity = (counts: Uint32Array, cols: number, rows: number, activity: MotionActivity) => {
+  const hit = new Uint8Array(cols * rows);
+  const scaleX = cols / activity.width;
+  const scaleY = rows / activity.height;
+  for (let cell = 0; cell < activity.active.length; cell++) {
+    if (!activity.active[cell]) continue;
+    const x = (cell % activity.cols) * activity.cellSize;
+    const y = Math.floor(cell / activity.cols) * activity.cellSize;
+    const left = Math.floor(x * scaleX);
+    const right = Math.min(cols, Math.ceil(Math.min(x + activity.cellSize, activity.width) * scaleX));
+    const top = Math.floor(y * scaleY);
+    const bottom = Math.min(rows, Math.ceil(Math.min(y + activity.cellSize, activity.height) * scaleY));
+    for (let row = top; row < bottom; row++) {
+      for (let col = left; col < right; col++) {
+        hit[row * cols + col] = 1;
+      }
+    }
+  }
+  // A heatmap cell counts once per frame however many mask cells cover it
+  for (let index = 0; index < hit.length; index++) {
+    counts[index] += hit[index];
+  }
+};
+
+// Sums slices that share a start and keeps the newest `kept` of them, oldest first
+const mergeSlices = (saved: HeatmapSlice[], current: HeatmapSlice[], kept: number) => {
+  const byStart = new Map<number, HeatmapSlice>();
+  saved.concat(current).forEach(slice => {
+    const known = byStart.get(slice.start);
+    if (!known) {
+      byStart.set(slice.start, { start: slice.start, counts: new Uint32Array(slice.counts), frames: slice.frames });
+      return;
+    }
+    for (let index = 0; index < known.counts.length; index++) {
+      known.counts[index] += slice.counts[index];
+    }
+    known.frames += slice.frames;
+  });
+  return Array.from(byStart.values()).sort((a, b) => a.start - b.start).slice(-kept);
+};
+
+export const createHeatmapAccumulator = (cols = HEATMAP_COLS, rows = HEATMAP_ROWS): HeatmapAccumulator => {
+  let minutes: HeatmapSlice[] = [];
+  let hours: HeatmapSlice[] = [];
+
+  // Slices are appended in time order, so the current one is always last
+  const sliceFor = (slices: HeatmapSlice[], start: number) => {
+    const last = slices[slices.length - 1];
+    if (last && last.start === start) return last;
+    const slice = { start, counts: new Uint32Array(cols * rows), frames: 0 };
+    slices.push(slice);
+    return slice;
+  };
+
+  const add = (activity: MotionActivity, timestamp: number) => {
+    [
+      sliceFor(minutes, timestamp - (timestamp % MINUTE)),
+      sliceFor(hours, timestamp - (timestamp % HOUR))
+    ].forEach(slice => {
+      markActivity(slice.counts, cols, rows, activity);
+      slice.frames++;
+    });
+    if (minutes.length > MINUTE_SLICES_KEPT) minutes = minutes.slice(-MINUTE_SLICES_KEPT);
+    if (hours.length > HOUR_SLICES_KEPT) hours = hours.slice(-HOUR_SLICES_KEPT);
+  };
+
+  const snapshot = (duration: number, now = Date.now()): HeatmapGrid => {
+    const fine = duration <= MINUTE_SLICES_KEPT * MINUTE;
+    const slices = fine ? minutes : hours;
+    const size = fine ? MINUTE : HOUR;
+    const from = now - duration;
+    const counts = new Uint32Array(cols * rows);
+    let frames = 0;
+    // Slices that overlap the window count whole
+    slices.forEach(slice => {
+      if (slice.start + size <= from || slice.start > now) return;
+      for (let index = 0; index < counts.length; index++) {
+        counts[index] += slice.counts[index];
+      }
+      frames += slice.frames;
+    });
+    return { cols, rows, counts, frames, from, to: now };
+  };
+
+  const restore = (saved: HeatmapSlices) => {
+    if (saved.cols !== cols || saved.rows !== rows) return;
+    minutes = mergeSlices(saved.minutes, minutes, MINUTE_SLICES_KEPT);
+    hours = mergeSlices(saved.hours, hours, HOUR_SLICES_KEPT);
+  };
+
+  return {
+    add,
+    snapshot,
+    slices: () => ({ cols, rows, minutes: minutes.slice(), hours: hours.slice() }),
+    restore,
+    clear: () => {
+      minutes = [];
+      hours = [];
+    }
+  };
+};
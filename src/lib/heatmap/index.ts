@@ -0,0 +1,4 @@
+export * from './types';
+export { HEATMAP_COLS, HEATMAP_ROWS, createHeatmapAccumulator } from './accumulator';
+export type { HeatmapAccumulator } from './accumulator';
+export { drawHeatmap, heatmapImage, heatmapToJson, renderHeatmapPng } from './render';
@@ -0,0 +1,69 @@
+import type { HeatmapExport, HeatmapGrid } from './types';
+
+// Transparent blue through yellow to opaque red as a cell gets busier
+const heatColor = (value: number): [number, number, number, number] => {
+  const t = Math.min(Math.max(value, 0), 1);
+  const r = Math.round(255 * Math.min(1, t * 2));
+  const g = Math.round(255 * (t < 0.5 ? t * 2 : 2 - t * 2));
+  const b = Math.round(255 * Math.max(0, 1 - t * 2));
+  return [r, g, b, Math.round(255 * Math.min(1, t * 1.5))];
+};
+
+// One pixel per cell; scale it up with smoothing for a soft overlay
+export const heatmapImage = (grid: HeatmapGrid) => {
+  const image = new ImageData(grid.cols, grid.rows);
+  const busiest = Math.max(1, ...Array.from(grid.counts));
+  for (let index = 0; index < grid.counts.length; index++) {
+    const [r, g, b, a] = grid.counts[index] > 0 ? heatColor(grid.counts[index] / busiest) : [0, 0, 0, 0];
+    image.data.set([r, g, b, a], index * 4);
+  }
+  return image;
+};
+
+export const drawHeatmap = (
+  context: CanvasRenderingContext2D,
+  grid: HeatmapGrid,
+  width: number,
+  height: number,
+  opacity = 0.6
+) => {
+  const cells = document.createElement('canvas');
+  cells.width = grid.cols;
+  cells.height = grid.rows;
+  cells.getContext('2d')?.putImageData(heatmapImage(grid), 0, 0);
+
+  context.save();
+  context.globalAlpha = opacity;
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(cells, 0, 0, width, height);
+  context.restore();
+};
+
+// The heatmap over the reference still at the still's size, or on its own at 1280 px wide
+export const renderHeatmapPng = (grid: HeatmapGrid, reference: HTMLImageElement | null) =>
+  new Promise<Blob | null>((resolve) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = reference?.naturalWidth || 1280;
+    canvas.height = reference?.naturalHeight || Math.round(1280 * grid.rows / grid.cols);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      resolve(null);
+      return;
+    }
+    if (reference) context.drawImage(reference, 0, 0, canvas.width, canvas.height);
+    drawHeatmap(context, grid, canvas.width, canvas.height, reference ? 0.6 : 1);
+    canvas.toBlob(resolve, 'image/png');
+  });
+
+export const heatmapToJson = (grid: HeatmapGrid, cameraId: string): HeatmapExport => ({
+  version: 1,
+  cameraId,
+  from: new Date(grid.from).toISOString(),
+  to: new Date(grid.to).toISOString(),
+  cols: grid.cols,
+  rows: grid.rows,
+  frames: grid.frames,
+  counts: Array.from({ length: grid.rows }, (_, row) =>
+    Array.from(grid.counts.subarray(row * grid.cols, (row + 1) * grid.cols)))
+});
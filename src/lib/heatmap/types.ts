@@ -0,0 +1,55 @@
+// Motion counts over a fixed grid laid on the frame, whatever resolution the detector ran at
+export interface HeatmapGrid {
+  cols: number;
+  rows: number;
+  // Row-major; how many analysed frames saw motion in each cell
+  counts: Uint32Array;
+  // Analysed frames the counts were taken over
+  frames: number;
+  // Milliseconds since epoch
+  from: number;
+  to: number;
+}
+
+// Counts over the frames analysed in one minute or hour starting at `start`
+export interface HeatmapSlice {
+  start: number;
+  counts: Uint32Array;
+  frames: number;
+}
+
+// Everything an accumulator holds, in the form the local store keeps it across reloads
+export interface HeatmapSlices {
+  cols: number;
+  rows: number;
+  minutes: HeatmapSlice[];
+  hours: HeatmapSlice[];
+}
+
+export interface HeatmapWindow {
+  label: string;
+  duration: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const HEATMAP_WINDOWS: HeatmapWindow[] = [
+  { label: '15 minutes', duration: 15 * MINUTE },
+  { label: '1 hour', duration: HOUR },
+  { label: '6 hours', duration: 6 * HOUR },
+  { label: '24 hours', duration: 24 * HOUR },
+  { label: '7 days', duration: 7 * 24 * HOUR }
+];
+
+// Exported JSON; `counts` is indexed [row][col] with row 0 at the top of the frame
+export interface HeatmapExport {
+  version: 1;
+  cameraId: string;
+  from: string;
+  to: string;
+  cols: number;
+  rows: number;
+  frames: number;
+  counts: number[][];
+}
@@ -0,0 +1,92 @@
+const EXIF_READ_BYTES = 128 * 1024;
+
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TYPE_ASCII = 2;
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  // Offset of the 4-byte value field, relative to the start of the view
+  valueOffset: number;
+}
+
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean) => {
+  const entries = new Map<number, IfdEntry>();
+  const start = tiffStart + ifdOffset;
+  if (start + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    entries.set(view.getUint16(entry, little), {
+      type: view.getUint16(entry + 2, little),
+      count: view.getUint32(entry + 4, little),
+      valueOffset: entry + 8
+    });
+  }
+  return entries;
+};
+
+const readAscii = (view: DataView, tiffStart: number, entry: IfdEntry | undefined, little: boolean) => {
+  if (!entry || entry.type !== TYPE_ASCII) return null;
+  // Strings longer than four bytes live elsewhere, addressed from the TIFF header
+  const start = entry.count > 4 ? tiffStart + view.getUint32(entry.valueOffset, little) : entry.valueOffset;
+  if (start + entry.count > view.byteLength) return null;
+
+  let text = '';
+  for (let i = 0; i < entry.count; i++) {
+    const code = view.getUint8(start + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+};
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS" in the camera's local time with no zone
+export const parseExifDate = (value: string) => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value.trim());
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  if (year === 0 || month === 0) return null;
+  const timestamp = new Date(year, month - 1, day, hour, minute, second).getTime();
+  return Number.isNaN(timestamp) ? null : timestamp;
+};
+
+// Reads DateTimeOriginal (or DateTime when the original is missing) from a JPEG's APP1 segment
+export const readExifTimestamp = async (file: Blob): Promise<number | null> => {
+  const view = new DataView(await file.slice(0, EXIF_READ_BYTES).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // Start of scan: the metadata segments are behind us
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return null;
+
+    // "Exif\0\0" header
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      if (tiffStart + 8 > view.byteLength) return null;
+      const little = view.getUint16(tiffStart) === 0x4949;
+      const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+
+      const exifPointer = ifd0.get(TAG_EXIF_IFD);
+      if (exifPointer) {
+        const exifIfd = readIfd(view, tiffStart, view.getUint32(exifPointer.valueOffset, little), little);
+        const original = readAscii(view, tiffStart, exifIfd.get(TAG_DATE_TIME_ORIGINAL), little);
+        const timestamp = original ? parseExifDate(original) : null;
+        if (timestamp !== null) return timestamp;
+      }
+
+      const modified = readAscii(view, tiffStart, ifd0.get(TAG_DATE_TIME), little);
+      return modified ? parseExifDate(modified) : null;
+    }
+
+    offset += 2 + length;
+  }
+  return null;
+};
@@ -0,0 +1,157 @@
+import { DEFAULT_DETECTOR_CONFIG, analyzeFrame, type Detection, type FrameBuffer } from '@/lib/detection';
+import { createEventBuilder, type DetectionEvent } from '@/lib/events';
+import { readExifTimestamp } from './exif';
+import type {
+  CaptureTimeSource,
+  ImageBurst,
+  ImageImportOptions,
+  ImageImportResult,
+  ImportedImage
+} from './types';
+
+const DEFAULT_BURST_GAP = 10 * 1000;
+const DEFAULT_ANALYSIS_WIDTH = 640;
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.4;
+// Matches the live view's event thumbnails
+const THUMBNAIL_WIDTH = 320;
+
+// Matches the usual camera naming schemes: IMG_20240512_031522, 2024-05-12 03.15.22, 20240512T031522
+const FILENAME_DATE = /(\d{4})[-_.]?(\d{2})[-_.]?(\d{2})[-_ T]?(\d{2})[-_.:]?(\d{2})[-_.:]?(\d{2})/;
+
+export const parseFilenameDate = (name: string) => {
+  const match = FILENAME_DATE.exec(name);
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  if (year < 1990 || month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+  return new Date(year, month - 1, day, hour, minute, second).getTime();
+};
+
+export const resolveCaptureTime = async (file: File): Promise<{ timestamp: number; timeSource: CaptureTimeSource }> => {
+  const exif = await readExifTimestamp(file).catch(() => null);
+  if (exif !== null) return { timestamp: exif, timeSource: 'exif' };
+  const named = parseFilenameDate(file.name);
+  if (named !== null) return { timestamp: named, timeSource: 'filename' };
+  return { timestamp: file.lastModified, timeSource: 'file' };
+};
+
+// Splits time-ordered images wherever the gap between neighbours exceeds `burstGap`
+export const groupBursts = (images: ImportedImage[], burstGap = DEFAULT_BURST_GAP): ImageBurst[] => {
+  const bursts: ImageBurst[] = [];
+  images.forEach(image => {
+    const current = bursts[bursts.length - 1];
+    if (current && image.timestamp - current.endedAt <= burstGap) {
+      current.images.push(image);
+      current.endedAt = image.timestamp;
+    } else {
+      bursts.push({ startedAt: image.timestamp, endedAt: image.timestamp, images: [image] });
+    }
+  });
+  return bursts;
+};
+
+const decodeImage = async (file: File, canvas: HTMLCanvasElement, context: CanvasRenderingContext2D, width: number) => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    canvas.width = Math.min(width, bitmap.width);
+    canvas.height = Math.round(canvas.width * bitmap.height / bitmap.width);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+    return { data: imageData.data, width: imageData.width, height: imageData.height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Orders camera-trap stills by capture time, groups them into bursts and differences each image
+// against its neighbour in the burst to tell animal frames from empty ones
+export const importImageBatch = async (
+  files: File[],
+  {
+    config = DEFAULT_DETECTOR_CONFIG,
+    burstGap = DEFAULT_BURST_GAP,
+    analysisWidth = DEFAULT_ANALYSIS_WIDTH,
+    confidenceThreshold = DEFAULT_CONFIDENCE_THRESHOLD,
+    onProgress,
+    signal
+  }: ImageImportOptions = {}
+): Promise<ImageImportResult> => {
+  const images: ImportedImage[] = [];
+  for (const file of files.filter(file => file.type.startsWith('image/'))) {
+    if (signal?.aborted) throw new DOMException('Import cancelled', 'AbortError');
+    images.push({ file, ...await resolveCaptureTime(file), status: 'unknown', detection: null });
+  }
+  images.sort((a, b) => a.timestamp - b.timestamp || a.file.name.localeCompare(b.file.name));
+
+  const bursts = groupBursts(images, burstGap);
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D is not available');
+
+  const classify = (image: ImportedImage, detection: Detection | null) => {
+    image.detection = detection && detection.confidence > confidenceThreshold ? detection : null;
+    image.status = image.detection ? 'animal' : 'empty';
+  };
+
+  let processed = 0;
+
+  for (const burst of bursts) {
+    // Bursts are too short to train a background model, so they are always frame-differenced
+    let first: FrameBuffer | null = null;
+    let previous: FrameBuffer | null = null;
+
+    for (let index = 0; index < burst.images.length; index++) {
+      const image = burst.images[index];
+      if (signal?.aborted) throw new DOMException('Import cancelled', 'AbortError');
+
+      try {
+        const frame: FrameBuffer = { ...await decodeImage(image.file, canvas, context, analysisWidth), timestamp: image.timestamp };
+        if (previous && previous.width === frame.width && previous.height === frame.height) {
+          classify(image, analyzeFrame(frame, previous.data, config));
+          // The first image has nothing before it, so it is judged against the second
+          if (index === 1 && first) {
+            classify(burst.images[0], analyzeFrame(first, frame.data, config));
+          }
+        }
+        if (index === 0) first = frame;
+        previous = frame;
+      } catch (error) {
+        console.error(`Could not decode ${image.file.name}:`, error);
+        previous = null;
+      }
+
+      processed++;
+      onProgress?.(processed / images.length);
+    }
+  }
+
+  return { bursts };
+};
+
+const createThumbnail = async (file: File) => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  const { width, height } = await decodeImage(file, canvas, context, THUMBNAIL_WIDTH);
+  if (!width || !height) return null;
+  return new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+};
+
+// One event per burst with an animal in it, counted like a track in the live view, with the most
+// confident still scaled down as its thumbnail
+export const burstEvents = async ({ bursts }: ImageImportResult, cameraId: string): Promise<DetectionEvent[]> => {
+  const events: DetectionEvent[] = [];
+  for (const burst of bursts) {
+    const builder = createEventBuilder(cameraId, { gapTolerance: Infinity, minDuration: 0 });
+    let best: File | null = null;
+    for (const image of burst.images) {
+      if (image.detection && builder.add(image.detection, image.timestamp).peaked) best = image.file;
+    }
+    const event = builder.getActive();
+    if (!event) continue;
+    const thumbnail = best ? await createThumbnail(best).catch(() => null) : null;
+    events.push({ ...event, thumbnail });
+  }
+  return events;
+};
@@ -0,0 +1,4 @@
+export * from './types';
+export { parseExifDate, readExifTimestamp } from './exif';
+export { burstEvents, groupBursts, importImageBatch, parseFilenameDate, resolveCaptureTime } from './image-import';
+export { analyzeVideoFile } from './video-analyzer';
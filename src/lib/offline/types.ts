@@ -0,0 +1,73 @@
+import type { AnalyticsData } from '@/lib/analytics';
+import type { Detection, DetectionZone, DetectorConfig, Track } from '@/lib/detection';
+
+export interface FileAnalysisOptions {
+  config?: DetectorConfig;
+  zones?: DetectionZone[];
+  // Seconds of video between analysed frames; defaults to the detector's sampling interval
+  frameStep?: number;
+  // Frames are scaled down to this width before analysis
+  analysisWidth?: number;
+  // Detections below this confidence are dropped, as in the live view
+  confidenceThreshold?: number;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface FileDetection extends Detection {
+  // Seconds from the start of the file
+  offset: number;
+}
+
+export interface FileTrack extends Track {
+  startOffset: number;
+  endOffset: number;
+  // JPEG data URL of the frame where the track was most confident
+  thumbnail: string | null;
+}
+
+export interface FileAnalysisResult {
+  fileName: string;
+  duration: number;
+  // Estimated wall-clock start of the recording; offsets are relative to it
+  startedAt: number;
+  framesAnalyzed: number;
+  frameWidth: number;
+  frameHeight: number;
+  detections: FileDetection[];
+  tracks: FileTrack[];
+  analytics: AnalyticsData;
+}
+
+export type CaptureTimeSource = 'exif' | 'filename' | 'file';
+
+// `unknown` is a burst of one, which has no neighbour to compare against
+export type ImageStatus = 'animal' | 'empty' | 'unknown';
+
+export interface ImportedImage {
+  file: File;
+  timestamp: number;
+  timeSource: CaptureTimeSource;
+  status: ImageStatus;
+  detection: Detection | null;
+}
+
+export interface ImageBurst {
+  startedAt: number;
+  endedAt: number;
+  images: ImportedImage[];
+}
+
+export interface ImageImportOptions {
+  config?: DetectorConfig;
+  // Images further apart than this (ms) start a new burst
+  burstGap?: number;
+  analysisWidth?: number;
+  confidenceThreshold?: number;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface ImageImportResult {
+  bursts: ImageBurst[];
+}
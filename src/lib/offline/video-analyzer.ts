@@ -0,0 +1,187 @@
+import { addTrack, createEmptyAnalytics } from '@/lib/analytics';
+import {
+  DEFAULT_DETECTOR_CONFIG,
+  createMotionDetector,
+  createTracker,
+  type Track
+} from '@/lib/detection';
+import type { FileAnalysisOptions, FileAnalysisResult, FileDetection, FileTrack } from './types';
+
+const DEFAULT_ANALYSIS_WIDTH = 640;
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.4;
+const THUMBNAIL_WIDTH = 160;
+
+const abortError = () => new DOMException('Analysis cancelled', 'AbortError');
+
+const waitFor = (target: EventTarget, event: string, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('The video could not be decoded'));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    target.addEventListener(event, onEvent);
+    target.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+  });
+
+const seek = async (video: HTMLVideoElement, time: number, signal?: AbortSignal) => {
+  const seeked = waitFor(video, 'seeked', signal);
+  video.currentTime = time;
+  await seeked;
+};
+
+// MediaRecorder WebM files carry no duration in their header, so the browser reports Infinity
+// until it has been made to scan to the end
+const resolveDuration = async (video: HTMLVideoElement, signal?: AbortSignal) => {
+  if (Number.isFinite(video.duration)) return video.duration;
+  await seek(video, Number.MAX_SAFE_INTEGER, signal);
+  const duration = video.duration;
+  await seek(video, 0, signal);
+  return Number.isFinite(duration) ? duration : 0;
+};
+
+const captureThumbnail = (source: HTMLCanvasElement, track: Track) => {
+  const thumbnail = document.createElement('canvas');
+  thumbnail.width = THUMBNAIL_WIDTH;
+  thumbnail.height = Math.round(THUMBNAIL_WIDTH * source.height / source.width);
+  const context = thumbnail.getContext('2d');
+  if (!context) return null;
+
+  context.drawImage(source, 0, 0, thumbnail.width, thumbnail.height);
+  const scale = thumbnail.width / source.width;
+  context.strokeStyle = '#22c55e';
+  context.lineWidth = 2;
+  context.strokeRect(track.box.x * scale, track.box.y * scale, track.box.width * scale, track.box.height * scale);
+  return thumbnail.toDataURL('image/jpeg', 0.7);
+};
+
+// Runs the live detection pipeline over a video file, seeking frame by frame as fast as the
+// browser decodes rather than in real time
+export const analyzeVideoFile = async (
+  file: File,
+  {
+    config = DEFAULT_DETECTOR_CONFIG,
+    zones = [],
+    frameStep = config.samplingInterval / 1000,
+    analysisWidth = DEFAULT_ANALYSIS_WIDTH,
+    confidenceThreshold = DEFAULT_CONFIDENCE_THRESHOLD,
+    onProgress,
+    signal
+  }: FileAnalysisOptions = {}
+): Promise<FileAnalysisResult> => {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.playsInline = true;
+
+  try {
+    const loaded = waitFor(video, 'loadeddata', signal);
+    video.src = url;
+    await loaded;
+
+    const duration = await resolveDuration(video, signal);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.min(analysisWidth, video.videoWidth);
+    canvas.height = Math.round(canvas.width * video.videoHeight / video.videoWidth);
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context || canvas.width === 0) {
+      throw new Error('The video has no frames to analyse');
+    }
+
+    // Files keep their modification time, which for camera footage is roughly when recording ended
+    const startedAt = file.lastModified - Math.round(duration * 1000);
+    const detector = createMotionDetector(config, zones);
+    const tracker = createTracker();
+    const detections: FileDetection[] = [];
+    const tracks: FileTrack[] = [];
+    const thumbnails = new Map<number, { confidence: number; thumbnail: string | null }>();
+    const toOffset = (timestamp: number) => (timestamp - startedAt) / 1000;
+
+    const finish = (track: Track) => {
+      tracks.push({
+        ...track,
+        startOffset: toOffset(track.firstSeen),
+        endOffset: toOffset(track.lastSeen),
+        thumbnail: thumbnails.get(track.id)?.thumbnail ?? null
+      });
+      thumbnails.delete(track.id);
+    };
+
+    const frameCount = Math.max(1, Math.floor(duration / frameStep) + 1);
+    let reported = 0;
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      if (signal?.aborted) throw abortError();
+
+      const offset = Math.min(frame * frameStep, duration);
+      await seek(video, offset, signal);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+      const timestamp = startedAt + Math.round(offset * 1000);
+
+      const detection = detector.processFrame({
+        data: imageData.data,
+        width: imageData.width,
+        height: imageData.height,
+        timestamp
+      });
+      const accepted = detection && detection.confidence > confidenceThreshold ? detection : null;
+      if (accepted) {
+        detections.push({ ...accepted, offset });
+      }
+
+      const { active, finished } = tracker.update(accepted, timestamp);
+      finished.forEach(finish);
+      // Unconfirmed tracks close silently, so anything no longer active is dropped here
+      const activeIds = new Set(active.map(track => track.id));
+      thumbnails.forEach((_, id) => {
+        if (!activeIds.has(id)) thumbnails.delete(id);
+      });
+      active.forEach(track => {
+        const best = thumbnails.get(track.id);
+        if (track.lastSeen === timestamp && (!best || track.peakConfidence > best.confidence)) {
+          thumbnails.set(track.id, { confidence: track.peakConfidence, thumbnail: captureThumbnail(canvas, track) });
+        }
+      });
+
+      const progress = (frame + 1) / frameCount;
+      if (onProgress && progress - reported >= 0.01) {
+        reported = progress;
+        onProgress(progress);
+      }
+    }
+
+    tracker.flush().forEach(finish);
+    onProgress?.(1);
+
+    return {
+      fileName: file.name,
+      duration,
+      startedAt,
+      framesAnalyzed: frameCount,
+      frameWidth: canvas.width,
+      frameHeight: canvas.height,
+      detections,
+      tracks,
+      analytics: tracks.reduce(addTrack, createEmptyAnalytics())
+    };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+};
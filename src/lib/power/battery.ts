@@ -0,0 +1,36 @@
+import type { BatteryState } from './types';
+
+// The Battery Status API is missing from the DOM typings and only exists in Chromium browsers
+interface BatteryManager extends EventTarget {
+  level: number;
+  charging: boolean;
+  dischargingTime: number;
+}
+
+type BatteryNavigator = Navigator & { getBattery?: () => Promise<BatteryManager> };
+
+const readBattery = (battery: BatteryManager): BatteryState => ({
+  level: battery.level * 100,
+  charging: battery.charging,
+  dischargingTime: Number.isFinite(battery.dischargingTime) ? battery.dischargingTime : null,
+  source: 'api'
+});
+
+const BATTERY_EVENTS = ['levelchange', 'chargingchange', 'dischargingtimechange'];
+
+// Reports the battery now and on every change; resolves to null where the API is unavailable.
+// The returned function stops watching.
+export const watchBattery = async (onChange: (state: BatteryState) => void): Promise<(() => void) | null> => {
+  const { getBattery } = navigator as BatteryNavigator;
+  if (typeof getBattery !== 'function') return null;
+  try {
+    const battery = await getBattery.call(navigator);
+    const update = () => onChange(readBattery(battery));
+    BATTERY_EVENTS.forEach(type => battery.addEventListener(type, update));
+    update();
+    return () => BATTERY_EVENTS.forEach(type => battery.removeEventListener(type, update));
+  } catch (error) {
+    console.error('Battery status unavailable:', error);
+    return null;
+  }
+};
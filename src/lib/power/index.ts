@@ -0,0 +1,3 @@
+export * from './types';
+export { watchBattery } from './battery';
+export { applyPowerMode, estimateRuntime, selectPowerMode } from './modes';
@@ -0,0 +1,35 @@
+import type { DetectionSettings } from '@/lib/settings';
+import { POWER_PROFILES, type BatteryState, type PowerMode, type PowerSettings } from './types';
+
+// The mode the settings and battery call for, before any wake-up. Charging always runs ACTIVE.
+export const selectPowerMode = (settings: PowerSettings, battery: BatteryState): PowerMode => {
+  if (settings.mode !== 'AUTO') return settings.mode;
+  if (battery.charging) return 'ACTIVE';
+  if (battery.level <= settings.sleepBelow) return 'SLEEP';
+  if (battery.level <= settings.ecoBelow) return 'ECO';
+  return 'ACTIVE';
+};
+
+// Detection settings with the mode's limits applied
+export const applyPowerMode = (settings: DetectionSettings, mode: PowerMode): DetectionSettings => {
+  const profile = POWER_PROFILES[mode];
+  return {
+    ...settings,
+    detector: {
+      ...settings.detector,
+      samplingInterval: Math.max(settings.detector.samplingInterval, profile.minSamplingInterval)
+    },
+    analysis: {
+      ...settings.analysis,
+      analysisWidth: Math.min(settings.analysis.analysisWidth, profile.maxAnalysisWidth)
+    }
+  };
+};
+
+// Milliseconds until empty, or null while charging. The browser's own figure reflects the real draw;
+// without it the configured full-charge runtime is scaled by level and mode.
+export const estimateRuntime = (battery: BatteryState, mode: PowerMode, settings: PowerSettings) => {
+  if (battery.charging) return null;
+  if (battery.dischargingTime !== null) return battery.dischargingTime * 1000;
+  return (battery.level / 100) * settings.fullRuntimeHours * 60 * 60 * 1000 / POWER_PROFILES[mode].relativeDraw;
+};
@@ -0,0 +1,53 @@
+export type PowerMode = 'ACTIVE' | 'ECO' | 'SLEEP';
+
+// Limits a mode puts on analysis and capture; ACTIVE leaves the detection settings as they are
+export interface PowerProfile {
+  // Lower bound on the detector's samplingInterval, in milliseconds
+  minSamplingInterval: number;
+  // Upper bound on the analysis width, in pixels; classes are cut on the share of the frame moving, so it holds across widths
+  maxAnalysisWidth: number;
+  // Camera frame rate cap; null restores the device's own rate
+  frameRate: number | null;
+  // Power drawn relative to ACTIVE, used to estimate runtime when the browser cannot
+  relativeDraw: number;
+}
+
+export const POWER_PROFILES: Record<PowerMode, PowerProfile> = {
+  ACTIVE: { minSamplingInterval: 0, maxAnalysisWidth: Infinity, frameRate: null, relativeDraw: 1 },
+  ECO: { minSamplingInterval: 500, maxAnalysisWidth: 320, frameRate: 10, relativeDraw: 0.5 },
+  // Just enough sampling to notice motion and wake up
+  SLEEP: { minSamplingInterval: 2000, maxAnalysisWidth: 160, frameRate: 2, relativeDraw: 0.2 }
+};
+
+export interface PowerSettings {
+  // AUTO picks the mode from the battery level
+  mode: 'AUTO' | PowerMode;
+  // AUTO switches to ECO at or below this percentage, and to SLEEP at or below sleepBelow
+  ecoBelow: number;
+  sleepBelow: number;
+  // How long a detection keeps a sleeping system in ACTIVE
+  wakeMinutes: number;
+  // Entered by hand where the Battery Status API is missing
+  manualLevel: number;
+  // Hours a full battery lasts in ACTIVE; the runtime estimate scales it by level and mode
+  fullRuntimeHours: number;
+}
+
+export const DEFAULT_POWER_SETTINGS: PowerSettings = {
+  mode: 'AUTO',
+  ecoBelow: 50,
+  sleepBelow: 20,
+  wakeMinutes: 2,
+  manualLevel: 100,
+  fullRuntimeHours: 12
+};
+
+export interface BatteryState {
+  // 0..100
+  level: number;
+  charging: boolean;
+  // Seconds until empty as reported by the browser; null when it does not know
+  dischargingTime: number | null;
+  // 'manual' when the level is the one entered in the power settings
+  source: 'api' | 'manual';
+}
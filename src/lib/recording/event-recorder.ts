@@ -0,0 +1,116 @@
+import type { Detection } from '@/lib/detection';
+import type { RecordedClip } from './types';
+
+// How often recorders hand over their data, and so how often an open clip checks its post-roll
+const CHUNK_INTERVAL = 500;
+
+// One MediaRecorder run from its own start, so its output is a whole file that decodes from the
+// first frame and is timed from zero
+interface Take {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+}
+
+export interface EventRecorderOptions {
+  preRollSeconds: number;
+  postRollSeconds: number;
+  onClip: (clip: RecordedClip) => void;
+}
+
+export interface EventRecorder {
+  // Starts a clip if none is open, otherwise extends the current one
+  trigger: (detection: Detection, timestamp: number) => void;
+  // Any motion keeps an open clip alive for another post-roll
+  noteMotion: (timestamp: number) => void;
+  isCapturing: () => boolean;
+  // Stops the recorder, closing any open clip
+  stop: () => void;
+}
+
+// MediaRecorder writes the container header and a keyframe only when it starts, so clips cannot be
+// cut from one long recording. Instead a standby take is started every pre-roll and the two newest
+// are kept running. A trigger claims the older one, which began one to two pre-rolls earlier, and
+// the clip is that take stopped once the post-roll runs out.
+export const createEventRecorder = (
+  stream: MediaStream,
+  { preRollSeconds, postRollSeconds, onClip }: EventRecorderOptions
+): EventRecorder => {
+  let standby: Take[] = [];
+  let clip: { take: Take; trigger: Detection } | null = null;
+  let lastMotion = 0;
+
+  const startTake = () => {
+    const take: Take = { recorder: new MediaRecorder(stream), chunks: [], startedAt: Date.now() };
+    take.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) take.chunks.push(event.data);
+      if (clip?.take === take && Date.now() - lastMotion > postRollSeconds * 1000) {
+        finishClip();
+      }
+    };
+    take.recorder.start(CHUNK_INTERVAL);
+    return take;
+  };
+
+  const discard = (take: Take) => {
+    take.recorder.ondataavailable = null;
+    if (take.recorder.state !== 'inactive') take.recorder.stop();
+  };
+
+  const rotate = () => {
+    standby.push(startTake());
+    standby.slice(0, -2).forEach(discard);
+    standby = standby.slice(-2);
+  };
+
+  // The clip is put together once the recorder has handed over its last chunk
+  const finishClip = () => {
+    if (!clip) return;
+    const { take, trigger } = clip;
+    const endedAt = Date.now();
+    clip = null;
+    take.recorder.onstop = () => {
+      const mimeType = take.recorder.mimeType || 'video/webm';
+      const blob = new Blob(take.chunks, { type: mimeType });
+      onClip({
+        id: `clip-${take.startedAt}`,
+        url: URL.createObjectURL(blob),
+        blob,
+        mimeType,
+        startedAt: take.startedAt,
+        endedAt,
+        trigger,
+        flagged: false,
+        // The recorder knows nothing of the camera; onClip fills this in
+        context: null
+      });
+    };
+    if (take.recorder.state !== 'inactive') take.recorder.stop();
+  };
+
+  // Without a pre-roll there is nothing to keep on standby; each clip starts its own take
+  let rotation: ReturnType<typeof setInterval> | null = null;
+  if (preRollSeconds > 0) {
+    rotate();
+    rotation = setInterval(rotate, preRollSeconds * 1000);
+  }
+
+  const trigger = (detection: Detection, timestamp: number) => {
+    lastMotion = timestamp;
+    if (clip) return;
+    clip = { take: standby.shift() ?? startTake(), trigger: detection };
+  };
+
+  const noteMotion = (timestamp: number) => {
+    lastMotion = Math.max(lastMotion, timestamp);
+  };
+
+  const stop = () => {
+    if (rotation) clearInterval(rotation);
+    standby.forEach(discard);
+    standby = [];
+    finishClip();
+  };
+
+  return { trigger, noteMotion, isCapturing: () => clip !== null, stop };
+};
@@ -0,0 +1,66 @@
+// Draws on top of a captured frame before it is encoded, e.g. a burned-in overlay
+export type FrameDecorator = (ctx: CanvasRenderingContext2D) => void;
+
+// Grabs the video's current frame at its native resolution; null before the first frame has arrived
+export const captureFrame = (video: HTMLVideoElement, mimeType = 'image/png', quality?: number, decorate?: FrameDecorator) =>
+  new Promise<Blob | null>((resolve) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || !canvas.width || !canvas.height) {
+      resolve(null);
+      return;
+    }
+    ctx.drawImage(video, 0, 0);
+    decorate?.(ctx);
+    canvas.toBlob(resolve, mimeType, quality);
+  });
+
+// Scaled-down JPEG of the current frame for lists; null before the first frame has arrived
+export const captureThumbnail = (video: HTMLVideoElement, width = 320, quality = 0.8) =>
+  new Promise<Blob | null>((resolve) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.min(width, video.videoWidth);
+    canvas.height = video.videoWidth ? Math.round(video.videoHeight * (canvas.width / video.videoWidth)) : 0;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || !canvas.width || !canvas.height) {
+      resolve(null);
+      return;
+    }
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(resolve, 'image/jpeg', quality);
+  });
+
+const STREAM_FRAME_TIMEOUT = 5000;
+
+// For when the stream is not on screen: plays it in a detached element just long enough for one frame
+export const captureStreamFrame = async (
+  stream: MediaStream,
+  mimeType = 'image/png',
+  quality?: number,
+  decorate?: FrameDecorator
+) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timed out waiting for a frame')), STREAM_FRAME_TIMEOUT);
+      video.onloadeddata = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      video.onerror = () => {
+        clearTimeout(timer);
+        reject(new Error('The stream could not be played'));
+      };
+    });
+    await video.play();
+    return await captureFrame(video, mimeType, quality, decorate);
+  } finally {
+    video.pause();
+    video.srcObject = null;
+  }
+};
@@ -0,0 +1,7 @@
+export * from './types';
+export { createEventRecorder } from './event-recorder';
+export type { EventRecorder, EventRecorderOptions } from './event-recorder';
+export { captureFrame, captureStreamFrame, captureThumbnail } from './frame';
+export type { FrameDecorator } from './frame';
+export { createOverlayCompositor, drawOverlay, formatCaptureTime } from './overlay';
+export type { OverlayCompositor } from './overlay';
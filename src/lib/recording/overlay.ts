@@ -0,0 +1,99 @@
+import type { FrameDecorator } from './frame';
+import type { CaptureContext } from './types';
+
+const BOX_COLOR = '#ef4444';
+// Used when the stream does not report its own size or rate
+const FALLBACK_SIZE = { width: 1280, height: 720 };
+const FALLBACK_FRAME_RATE = 15;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Local time to the second, the way trail cameras print it
+export const formatCaptureTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+// Draws onto a canvas that already holds the frame; boxes are scaled up from the analysis frame
+export const drawOverlay = (ctx: CanvasRenderingContext2D, context: CaptureContext, timestamp: number) => {
+  const { overlay, detection, battery } = context;
+  if (!overlay) return;
+  const { width, height } = ctx.canvas;
+
+  if (overlay.boxes && detection) {
+    const scaleX = width / detection.frameWidth;
+    const scaleY = height / detection.frameHeight;
+    ctx.strokeStyle = BOX_COLOR;
+    ctx.lineWidth = Math.max(2, Math.round(width / 400));
+    detection.boxes.forEach(box => ctx.strokeRect(box.x * scaleX, box.y * scaleY, box.width * scaleX, box.height * scaleY));
+  }
+
+  const left = [
+    overlay.timestamp ? formatCaptureTime(timestamp) : null,
+    overlay.cameraName ? context.cameraName : null
+  ].filter(Boolean);
+  const right = [
+    overlay.battery && battery ? `Battery ${Math.round(battery.level)}%${battery.charging ? ' (charging)' : ''}` : null,
+    overlay.type && detection ? detection.label.replace('_', ' ') : null,
+    overlay.confidence && detection ? `${Math.round(detection.confidence * 100)}%` : null
+  ].filter(Boolean);
+  if (left.length === 0 && right.length === 0) return;
+
+  // A strip along the bottom, sized to the frame so it reads the same at any resolution
+  const fontSize = Math.max(12, Math.round(height / 36));
+  const padding = Math.round(fontSize / 2);
+  const strip = fontSize + padding * 2;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(0, height - strip, width, strip);
+  ctx.font = `bold ${fontSize}px monospace`;
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'left';
+  ctx.fillText(left.join('  '), padding, height - strip / 2);
+  ctx.textAlign = 'right';
+  ctx.fillText(right.join('  '), width - padding, height - strip / 2);
+};
+
+export interface OverlayCompositor {
+  // The source redrawn with the overlay, for MediaRecorder to record instead of the source
+  stream: MediaStream;
+  stop: () => void;
+}
+
+// Redraws every frame of the stream through a canvas. A timer drives it because requestAnimationFrame
+// stops in background tabs, where unattended cameras usually are.
+export const createOverlayCompositor = (source: MediaStream, decorate: FrameDecorator): OverlayCompositor => {
+  const settings = source.getVideoTracks()[0]?.getSettings() ?? {};
+  const frameRate = settings.frameRate || FALLBACK_FRAME_RATE;
+  const canvas = document.createElement('canvas');
+  canvas.width = settings.width || FALLBACK_SIZE.width;
+  canvas.height = settings.height || FALLBACK_SIZE.height;
+  const ctx = canvas.getContext('2d');
+
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = source;
+  video.play().catch(error => console.error('Overlay source could not be played:', error));
+
+  const timer = setInterval(() => {
+    if (!ctx || !video.videoWidth) return;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    decorate(ctx);
+  }, 1000 / frameRate);
+
+  const stream = canvas.captureStream(frameRate);
+  source.getAudioTracks().forEach(track => stream.addTrack(track));
+
+  return {
+    stream,
+    // Only the canvas track is stopped; audio tracks belong to the source
+    stop: () => {
+      clearInterval(timer);
+      stream.getVideoTracks().forEach(track => track.stop());
+      video.pause();
+      video.srcObject = null;
+    }
+  };
+};
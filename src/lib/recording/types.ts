@@ -0,0 +1,78 @@
+import type { Detection } from '@/lib/detection';
+import type { BatteryState } from '@/lib/power';
+
+// What is burned into snapshots and recordings; each item can be left out
+export interface OverlaySettings {
+  enabled: boolean;
+  timestamp: boolean;
+  cameraName: boolean;
+  // Browsers report no temperature, so the battery level is the one reading there is
+  battery: boolean;
+  type: boolean;
+  confidence: boolean;
+  boxes: boolean;
+}
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+  enabled: false,
+  timestamp: true,
+  cameraName: true,
+  battery: true,
+  type: true,
+  confidence: true,
+  boxes: true
+};
+
+// What was known when a clip or snapshot was captured; drawn by the overlay and written to the download sidecar
+export interface CaptureContext {
+  cameraId: string;
+  cameraName: string;
+  deploymentId?: string;
+  battery: Pick<BatteryState, 'level' | 'charging'> | null;
+  // The latest confident detection, or for an automatic clip the one that triggered it
+  detection: Detection | null;
+  // What was burned into the picture; null when overlays were off
+  overlay: OverlaySettings | null;
+}
+
+export interface RecordedClip {
+  id: string;
+  url: string;
+  blob: Blob;
+  mimeType: string;
+  // Milliseconds since epoch, including pre-roll
+  startedAt: number;
+  endedAt: number;
+  // Detection that started an automatic clip; null for clips recorded by hand
+  trigger: Detection | null;
+  // Flagged media is exempt from retention clean-up
+  flagged: boolean;
+  // Null on media captured before capture contexts were kept
+  context: CaptureContext | null;
+}
+
+export interface Snapshot {
+  id: string;
+  url: string;
+  blob: Blob;
+  mimeType: string;
+  createdAt: number;
+  flagged: boolean;
+  context: CaptureContext | null;
+}
+
+export interface AutoRecordSettings {
+  enabled: boolean;
+  // Minimum detection confidence that starts a clip
+  confidenceThreshold: number;
+  preRollSeconds: number;
+  // Clip ends once no motion has been seen for this long
+  postRollSeconds: number;
+}
+
+export const DEFAULT_AUTO_RECORD_SETTINGS: AutoRecordSettings = {
+  enabled: false,
+  confidenceThreshold: 0.7,
+  preRollSeconds: 5,
+  postRollSeconds: 10
+};
@@ -0,0 +1,13 @@
+export * from './types';
+export {
+  CONFIDENCE_SWEEP,
+  CUTOFF_SCALES,
+  createReview,
+  evaluateReviews,
+  predictReview,
+  reviewTruth,
+  scaleClassThresholds,
+  sweepClassCutoffs,
+  sweepConfidence
+} from './metrics';
+export { REVIEW_CLIP_LOOKBACK, REVIEW_SNAPSHOT_SLACK, findReviewMedia } from './media';
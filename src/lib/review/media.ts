@@ -0,0 +1,20 @@
+import type { StoredMedia, StoredTrack } from '@/lib/storage';
+
+// Snapshots taken this close to an event are shown when no clip covers it
+export const REVIEW_SNAPSHOT_SLACK = 30 * 1000;
+// Clips start with their pre-roll, and manual recordings can run long, so the media query reaches back this far
+export const REVIEW_CLIP_LOOKBACK = 10 * 60 * 1000;
+
+// A clip from the track's camera that overlaps it wins; otherwise the snapshot taken closest to its first sighting
+export const findReviewMedia = (track: StoredTrack, media: StoredMedia[]): StoredMedia | null => {
+  const own = media.filter(item => item.cameraId === track.cameraId);
+  const clip = own.find(item =>
+    item.kind === 'clip' && item.createdAt <= track.lastSeen && (item.endedAt ?? item.createdAt) >= track.firstSeen);
+  if (clip) return clip;
+
+  const distance = (item: StoredMedia) => Math.abs(item.createdAt - track.firstSeen);
+  return own
+    .filter(item => item.kind === 'snapshot' && item.createdAt >= track.firstSeen - REVIEW_SNAPSHOT_SLACK &&
+      item.createdAt <= track.lastSeen + REVIEW_SNAPSHOT_SLACK)
+    .reduce<StoredMedia | null>((best, item) => (best === null || distance(item) < distance(best) ? item : best), null);
+};
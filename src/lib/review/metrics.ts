@@ -0,0 +1,158 @@
+import { classifyMotion, dominant, type DetectionType, type MotionClassThresholds } from '@/lib/detection';
+import type { StoredDetection, StoredTrack } from '@/lib/storage';
+import type {
+  AccuracyMetrics,
+  DetectionReview,
+  ReviewMetrics,
+  ReviewSample,
+  ReviewThresholds,
+  SweepPoint
+} from './types';
+
+type Counts = Pick<AccuracyMetrics, 'truePositives' | 'falsePositives' | 'falseNegatives'>;
+
+// Confidence thresholds the sweep replays, 0.05 apart
+export const CONFIDENCE_SWEEP = Array.from({ length: 19 }, (_, index) => (index + 1) * 5 / 100);
+// Factors every class cutoff is multiplied by in the cutoff sweep
+export const CUTOFF_SCALES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+const toSample = (detection: StoredDetection): ReviewSample => ({
+  confidence: detection.confidence,
+  intensity: detection.intensity,
+  coverage: detection.coverage ?? null,
+  type: detection.type
+});
+
+// `detections` may span more than the track; only its camera's frames while it was seen are kept
+export const createReview = (track: StoredTrack, detections: StoredDetection[], now = Date.now()): DetectionReview => ({
+  key: track.key,
+  cameraId: track.cameraId,
+  deploymentId: track.deploymentId,
+  firstSeen: track.firstSeen,
+  lastSeen: track.lastSeen,
+  type: track.type,
+  label: track.label,
+  peakConfidence: track.peakConfidence,
+  verdict: null,
+  correctedType: null,
+  correctedLabel: null,
+  notes: '',
+  samples: detections
+    .filter(detection =>
+      detection.cameraId === track.cameraId &&
+      detection.timestamp >= track.firstSeen &&
+      detection.timestamp <= track.lastSeen)
+    .map(toSample),
+  reviewedAt: now
+});
+
+// What was really there: nothing for a false positive, otherwise the corrected or detected type
+export const reviewTruth = (review: DetectionReview): DetectionType | null =>
+  (review.verdict === 'fp' ? null : review.correctedType ?? review.type);
+
+export const scaleClassThresholds = (thresholds: MotionClassThresholds, scale: number): MotionClassThresholds => ({
+  LARGE_ANIMAL: {
+    intensity: thresholds.LARGE_ANIMAL.intensity * scale,
+    coverage: Math.min(thresholds.LARGE_ANIMAL.coverage * scale, 1)
+  },
+  MEDIUM_ANIMAL: {
+    intensity: thresholds.MEDIUM_ANIMAL.intensity * scale,
+    coverage: Math.min(thresholds.MEDIUM_ANIMAL.coverage * scale, 1)
+  },
+  SMALL_ANIMAL: {
+    intensity: thresholds.SMALL_ANIMAL.intensity * scale,
+    coverage: Math.min(thresholds.SMALL_ANIMAL.coverage * scale, 1)
+  }
+});
+
+// Replays the event's frames through the thresholds; null when too few pass for the tracker to confirm it
+export const predictReview = (review: DetectionReview, thresholds: ReviewThresholds): DetectionType | null => {
+  // Events reviewed after retention removed their frames fall back to the track's own summary
+  const samples: ReviewSample[] = review.samples.length > 0
+    ? review.samples
+    : [{ confidence: review.peakConfidence, intensity: 0, coverage: null, type: review.type }];
+  const passing = samples.filter(sample => sample.confidence > thresholds.confidenceThreshold);
+  if (passing.length === 0 || passing.length < Math.min(thresholds.minHits, samples.length)) return null;
+
+  const counts: Partial<Record<DetectionType, number>> = {};
+  passing.forEach(sample => {
+    // Samples saved while cutoffs were sample counts have no coverage either
+    const type = typeof sample.coverage !== 'number'
+      ? sample.type
+      : classifyMotion(sample.intensity, sample.coverage, thresholds.classThresholds);
+    counts[type] = (counts[type] ?? 0) + 1;
+  });
+
+  return dominant(counts);
+};
+
+const emptyCounts = (): Counts => ({ truePositives: 0, falsePositives: 0, falseNegatives: 0 });
+
+const toMetrics = (counts: Counts): AccuracyMetrics => {
+  const predicted = counts.truePositives + counts.falsePositives;
+  const actual = counts.truePositives + counts.falseNegatives;
+  return {
+    ...counts,
+    precision: predicted > 0 ? counts.truePositives / predicted : null,
+    recall: actual > 0 ? counts.truePositives / actual : null
+  };
+};
+
+// A wrong type counts against both the type predicted and the type that was there
+export const evaluateReviews = (reviews: DetectionReview[], thresholds: ReviewThresholds): ReviewMetrics => {
+  const overall = emptyCounts();
+  const byType: Partial<Record<DetectionType, Counts>> = {};
+  const byCamera: Record<string, Counts> = {};
+  const reviewed = reviews.filter(review => review.verdict !== null);
+
+  reviewed.forEach(review => {
+    const truth = reviewTruth(review);
+    const predicted = predictReview(review, thresholds);
+    byCamera[review.cameraId] = byCamera[review.cameraId] ?? emptyCounts();
+    const camera = byCamera[review.cameraId];
+    const countFor = (type: DetectionType) => {
+      const counts = byType[type] ?? emptyCounts();
+      byType[type] = counts;
+      return counts;
+    };
+
+    if (predicted !== null && predicted === truth) {
+      [overall, camera, countFor(predicted)].forEach(counts => counts.truePositives++);
+      return;
+    }
+    if (predicted !== null) {
+      [overall, camera, countFor(predicted)].forEach(counts => counts.falsePositives++);
+    }
+    if (truth !== null) {
+      [overall, camera, countFor(truth)].forEach(counts => counts.falseNegatives++);
+    }
+  });
+
+  return {
+    reviewed: reviewed.length,
+    overall: toMetrics(overall),
+    byType: Object.keys(byType).reduce(
+      (result, type) => ({ ...result, [type]: toMetrics(byType[type as DetectionType] ?? emptyCounts()) }),
+      {} as Partial<Record<DetectionType, AccuracyMetrics>>
+    ),
+    byCamera: Object.keys(byCamera).reduce(
+      (result, id) => ({ ...result, [id]: toMetrics(byCamera[id]) }),
+      {} as Record<string, AccuracyMetrics>
+    )
+  };
+};
+
+const toSweepPoint = (value: number, { overall }: ReviewMetrics): SweepPoint => ({
+  value,
+  precision: overall.precision,
+  recall: overall.recall
+});
+
+export const sweepConfidence = (reviews: DetectionReview[], thresholds: ReviewThresholds, values = CONFIDENCE_SWEEP) =>
+  values.map(value => toSweepPoint(value, evaluateReviews(reviews, { ...thresholds, confidenceThreshold: value })));
+
+export const sweepClassCutoffs = (reviews: DetectionReview[], thresholds: ReviewThresholds, scales = CUTOFF_SCALES) =>
+  scales.map(scale => toSweepPoint(scale, evaluateReviews(reviews, {
+    ...thresholds,
+    classThresholds: scaleClassThresholds(thresholds.classThresholds, scale)
+  })));
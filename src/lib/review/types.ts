@@ -0,0 +1,68 @@
+import type { DetectionType, MotionClassThresholds } from '@/lib/detection';
+
+// True positive: an animal (or the motion class reported) was really there; false positive: it was not
+export type ReviewVerdict = 'tp' | 'fp';
+
+// What the detector measured on one frame of the event, enough to re-run the thresholds over it
+export interface ReviewSample {
+  confidence: number;
+  intensity: number;
+  // Share of sampled pixels moving; null on detections stored before it was kept, whose stored type is used instead
+  coverage: number | null;
+  type: DetectionType;
+}
+
+// A reviewer's verdict on one stored track, keyed like the track itself
+export interface DetectionReview {
+  key: string;
+  cameraId: string;
+  deploymentId?: string;
+  firstSeen: number;
+  lastSeen: number;
+  // As detected
+  type: DetectionType;
+  label: string;
+  peakConfidence: number;
+  verdict: ReviewVerdict | null;
+  // Null keeps the detected type or label
+  correctedType: DetectionType | null;
+  correctedLabel: string | null;
+  notes: string;
+  // Frames matched into the track, copied in so metrics survive retention removing the detections
+  samples: ReviewSample[];
+  reviewedAt: number;
+}
+
+export type ReviewChanges = Partial<Pick<DetectionReview, 'verdict' | 'correctedType' | 'correctedLabel' | 'notes'>>;
+
+// The settings a review is replayed against
+export interface ReviewThresholds {
+  // See DetectionSettings.confidenceThreshold
+  confidenceThreshold: number;
+  classThresholds: MotionClassThresholds;
+  // Frames that must pass before the tracker confirms an animal
+  minHits: number;
+}
+
+export interface AccuracyMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  // Null while nothing was predicted, or nothing was there, to divide by
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface ReviewMetrics {
+  // Only reviews with a verdict count
+  reviewed: number;
+  overall: AccuracyMetrics;
+  byType: Partial<Record<DetectionType, AccuracyMetrics>>;
+  byCamera: Record<string, AccuracyMetrics>;
+}
+
+export interface SweepPoint {
+  value: number;
+  precision: number | null;
+  recall: number | null;
+}
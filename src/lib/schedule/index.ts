@@ -0,0 +1,3 @@
+export * from './types';
+export { civilTwilight, isDark } from './sun';
+export { createWeeklyWindow, isScheduledActive, nextTransition } from './schedule';
@@ -0,0 +1,62 @@
+import { addDays, startOfDay } from '@/lib/analytics';
+import { civilTwilight, isDark } from './sun';
+import type { ScheduleSettings, ScheduleTransition, WeeklyWindow } from './types';
+
+const MINUTE = 60 * 1000;
+// How far ahead the next transition is looked for
+const LOOKAHEAD_DAYS = 8;
+
+export const createWeeklyWindow = (): WeeklyWindow => ({
+  id: `window-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+  days: [0, 1, 2, 3, 4, 5, 6],
+  start: 20 * 60,
+  end: 6 * 60
+});
+
+// Start and end of a window on the given local day; one running past midnight ends on the next
+const occurrence = (slot: WeeklyWindow, day: number) => ({
+  start: day + slot.start * MINUTE,
+  end: slot.end > slot.start ? day + slot.end * MINUTE : addDays(day, 1) + slot.end * MINUTE
+});
+
+const inWindow = (slot: WeeklyWindow, timestamp: number) => {
+  const today = startOfDay(timestamp);
+  // Yesterday's occurrence may still be running after midnight
+  return [addDays(today, -1), today].some(day => {
+    if (!slot.days.includes(new Date(day).getDay())) return false;
+    const { start, end } = occurrence(slot, day);
+    return timestamp >= start && timestamp < end;
+  });
+};
+
+// Whether the schedule wants the system on; a schedule with nothing set never does
+export const isScheduledActive = (settings: ScheduleSettings, timestamp: number) =>
+  (settings.duskToDawn && isDark(timestamp, settings.latitude, settings.longitude)) ||
+  settings.windows.some(slot => inWindow(slot, timestamp));
+
+// The next time the scheduled state flips, found among the dawns, dusks and window edges ahead
+export const nextTransition = (settings: ScheduleSettings, now: number): ScheduleTransition | null => {
+  const today = startOfDay(now);
+  const edges: number[] = [];
+  for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+    const day = addDays(today, offset);
+    if (settings.duskToDawn) {
+      const { dawn, dusk } = civilTwilight(day, settings.latitude, settings.longitude);
+      if (dawn !== null) edges.push(dawn);
+      if (dusk !== null) edges.push(dusk);
+    }
+    settings.windows
+      .filter(slot => slot.days.includes(new Date(day).getDay()))
+      .forEach(slot => {
+        const { start, end } = occurrence(slot, day);
+        edges.push(start, end);
+      });
+  }
+
+  const current = isScheduledActive(settings, now);
+  const at = edges
+    .filter(edge => edge > now)
+    .sort((a, b) => a - b)
+    .find(edge => isScheduledActive(settings, edge) !== current);
+  return at === undefined ? null : { at, active: !current };
+};
@@ -0,0 +1,69 @@
+import type { Twilight } from './types';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+// The sun's centre 6° below the horizon
+const CIVIL_ZENITH = 96;
+
+const rad = (degrees: number) => (degrees * Math.PI) / 180;
+const deg = (radians: number) => (radians * 180) / Math.PI;
+const wrap = (value: number, period: number) => ((value % period) + period) % period;
+
+// Hours after UTC midnight when the sun crosses the zenith on the given UTC day, after the almanac algorithm
+// (good to a minute or two); null hours when it never does, with `up` telling which side it stays on
+const crossing = (dayOfYear: number, latitude: number, longitude: number, rising: boolean) => {
+  const lngHour = longitude / 15;
+  const t = dayOfYear + ((rising ? 6 : 18) - lngHour) / 24;
+  const meanAnomaly = 0.9856 * t - 3.289;
+  const trueLongitude = wrap(
+    meanAnomaly + 1.916 * Math.sin(rad(meanAnomaly)) + 0.02 * Math.sin(rad(2 * meanAnomaly)) + 282.634,
+    360
+  );
+  let rightAscension = wrap(deg(Math.atan(0.91764 * Math.tan(rad(trueLongitude)))), 360);
+  rightAscension += Math.floor(trueLongitude / 90) * 90 - Math.floor(rightAscension / 90) * 90;
+  rightAscension /= 15;
+
+  const sinDeclination = 0.39782 * Math.sin(rad(trueLongitude));
+  const cosDeclination = Math.cos(Math.asin(sinDeclination));
+  const cosHourAngle = (Math.cos(rad(CIVIL_ZENITH)) - sinDeclination * Math.sin(rad(latitude))) /
+    (cosDeclination * Math.cos(rad(latitude)));
+  if (cosHourAngle > 1) return { hours: null, up: false };
+  if (cosHourAngle < -1) return { hours: null, up: true };
+
+  const hourAngle = (rising ? 360 - deg(Math.acos(cosHourAngle)) : deg(Math.acos(cosHourAngle))) / 15;
+  const localMean = hourAngle + rightAscension - 0.06571 * t - 6.622;
+  return { hours: wrap(localMean - lngHour, 24), up: false };
+};
+
+// Computed offline from the coordinates, for the site's solar day holding `timestamp`: the one whose
+// solar noon (12:00 UTC less longitude / 15 hours) is nearest. The browser's timezone plays no part.
+export const civilTwilight = (timestamp: number, latitude: number, longitude: number): Twilight => {
+  const noonOffset = 12 * HOUR - (longitude / 15) * HOUR;
+  const utcMidnight = Math.round((timestamp - noonOffset) / DAY) * DAY;
+  const noon = utcMidnight + noonOffset;
+  const date = new Date(utcMidnight);
+  const dayOfYear = Math.round((utcMidnight - Date.UTC(date.getUTCFullYear(), 0, 0)) / DAY);
+
+  // Crossings come as hours after UTC midnight, so each is moved by whole days to the right side of
+  // solar noon: dawn within the day before it, dusk within the day after
+  const place = (hours: number, before: boolean) => {
+    const time = utcMidnight + hours * HOUR;
+    const days = before ? Math.ceil((time - noon) / DAY) : Math.floor((time - noon) / DAY);
+    return time - days * DAY;
+  };
+
+  const dawn = crossing(dayOfYear, latitude, longitude, true);
+  const dusk = crossing(dayOfYear, latitude, longitude, false);
+  return {
+    dawn: dawn.hours === null ? null : place(dawn.hours, true),
+    dusk: dusk.hours === null ? null : place(dusk.hours, false),
+    polarNight: dawn.hours === null && !dawn.up
+  };
+};
+
+// Between civil dusk and the next civil dawn, or the whole day in a polar night
+export const isDark = (timestamp: number, latitude: number, longitude: number) => {
+  const { dawn, dusk, polarNight } = civilTwilight(timestamp, latitude, longitude);
+  if (dawn === null || dusk === null) return polarNight;
+  return timestamp < dawn || timestamp >= dusk;
+};
@@ -0,0 +1,44 @@
+// Recurring active period, in minutes after local midnight; one that ends before it starts runs past midnight
+export interface WeeklyWindow {
+  id: string;
+  // 0 is Sunday, as Date.getDay(); a window running past midnight belongs to the day it starts on
+  days: number[];
+  start: number;
+  end: number;
+}
+
+export interface ScheduleSettings {
+  // Off leaves the header toggle as the only switch
+  enabled: boolean;
+  // Active from civil dusk to civil dawn at the coordinates below
+  duskToDawn: boolean;
+  latitude: number;
+  longitude: number;
+  // Active during any of these as well
+  windows: WeeklyWindow[];
+  // A snapshot every this many minutes while the camera is on, motion or not; 0 turns them off
+  snapshotMinutes: number;
+}
+
+export const DEFAULT_SCHEDULE_SETTINGS: ScheduleSettings = {
+  enabled: false,
+  duskToDawn: true,
+  latitude: 51.5,
+  longitude: 0,
+  windows: [],
+  snapshotMinutes: 0
+};
+
+// Civil twilight begins and ends for one local day; null where the sun never crosses 6° below the horizon
+export interface Twilight {
+  dawn: number | null;
+  dusk: number | null;
+  // Set when there is no dawn or dusk: true when the sun stays below the twilight line all day
+  polarNight: boolean;
+}
+
+export interface ScheduleTransition {
+  at: number;
+  // What the system switches to at `at`
+  active: boolean;
+}
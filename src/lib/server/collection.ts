@@ -0,0 +1,113 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface Collection<T extends { id: string }> {
+  get: (id: string) => Promise<T | undefined>;
+  // Records with from <= time <= to, oldest first; either bound may be left out
+  range: (from?: number, to?: number) => Promise<T[]>;
+  // Inserts records whose id is new and returns how many were inserted; known ids are left untouched
+  insert: (records: T[]) => Promise<number>;
+}
+
+interface Loaded<T> {
+  byId: Map<string, T>;
+  // Every record, ordered by `timeOf`
+  byTime: T[];
+}
+
+// First index whose time is at least `time` (or above it, with `after`)
+const bound = <T>(sorted: T[], timeOf: (record: T) => number, time: number, after: boolean) => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    const value = timeOf(sorted[middle]);
+    if (value < time || (after && value === time)) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+// Append-only JSON Lines file with in-memory indexes by id and by time. The file is read once per
+// process and rewritten then if it holds truncated lines or repeated ids, and writes are serialised
+// so concurrent requests cannot interleave partial lines.
+export const createCollection = <T extends { id: string }>(
+  file: string,
+  timeOf: (record: T) => number
+): Collection<T> => {
+  let loading: Promise<Loaded<T>> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Written beside the file and renamed over it, so a crash leaves either the old file or the new one
+  const compact = async (records: T[]) => {
+    const temporary = `${file}.compact`;
+    await fs.writeFile(temporary, records.map(record => JSON.stringify(record)).join('\n') + '\n', 'utf8');
+    await fs.rename(temporary, file);
+  };
+
+  const read = async (): Promise<Loaded<T>> => {
+    const byId = new Map<string, T>();
+    let lines = 0;
+    try {
+      const content = await fs.readFile(file, 'utf8');
+      content.split('\n').forEach(line => {
+        if (!line.trim()) return;
+        lines++;
+        try {
+          const record = JSON.parse(line) as T;
+          byId.set(record.id, record);
+        } catch {
+          // A crash mid-write can leave a truncated last line; skip it
+        }
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const byTime = Array.from(byId.values()).sort((a, b) => timeOf(a) - timeOf(b));
+    if (lines > byId.size) {
+      await compact(byTime).catch(error => console.error(`Failed to compact ${file}:`, error));
+    }
+    return { byId, byTime };
+  };
+
+  const load = () => {
+    loading = loading ?? read().catch(error => {
+      loading = null;
+      throw error;
+    });
+    return loading;
+  };
+
+  const serialise = <R>(task: () => Promise<R>) => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const get = async (id: string) => (await load()).byId.get(id);
+
+  const range = async (from?: number, to?: number) => {
+    const { byTime } = await load();
+    const start = from === undefined ? 0 : bound(byTime, timeOf, from, false);
+    const end = to === undefined ? byTime.length : bound(byTime, timeOf, to, true);
+    return byTime.slice(start, end);
+  };
+
+  const insert = (incoming: T[]) => serialise(async () => {
+    const current = await load();
+    const fresh = incoming.filter(record => !current.byId.has(record.id));
+    if (fresh.length === 0) return 0;
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.appendFile(file, fresh.map(record => JSON.stringify(record)).join('\n') + '\n', 'utf8');
+    // Uploads mostly arrive in time order, so each lands at or near the end
+    fresh.forEach(record => {
+      current.byId.set(record.id, record);
+      current.byTime.splice(bound(current.byTime, timeOf, timeOf(record), true), 0, record);
+    });
+    return fresh.length;
+  });
+
+  return { get, range, insert };
+};
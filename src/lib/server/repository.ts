@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DetectionFilter, MediaMetadata, ServerDetection, ServerMedia } from '@/lib/api/types';
+import type { StoredDetection } from '@/lib/storage';
+import { createCollection, type Collection } from './collection';
+
+export const DATA_DIR = process.env.WILDLIFE_DATA_DIR || path.join(process.cwd(), 'data');
+const MEDIA_DIR = path.join(DATA_DIR, 'media');
+const DEFAULT_LIMIT = 1000;
+
+interface ServerCollections {
+  detections: Collection<ServerDetection>;
+  media: Collection<ServerMedia>;
+}
+
+// Cached on globalThis so dev-server hot reloads do not load the files a second time
+const globalStore = globalThis as typeof globalThis & { wildlifeCollections?: ServerCollections };
+
+const collections = (): ServerCollections => {
+  if (!globalStore.wildlifeCollections) {
+    globalStore.wildlifeCollections = {
+      detections: createCollection<ServerDetection>(path.join(DATA_DIR, 'detections.jsonl'), record => record.timestamp),
+      media: createCollection<ServerMedia>(path.join(DATA_DIR, 'media.jsonl'), record => record.createdAt)
+    };
+  }
+  return globalStore.wildlifeCollections;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+  'image/png': 'png',
+  'image/jpeg': 'jpg'
+};
+
+// Ids come from clients, so only a conservative character set reaches the filesystem
+const safeId = (id: string) => id.replace(/[^a-zA-Z0-9_.-]/g, '_');
+
+export const insertDetections = async (detections: StoredDetection[]) => {
+  const receivedAt = Date.now();
+  return collections().detections.insert(detections.map(detection => ({
+    ...detection,
+    label: detection.label ?? detection.type,
+    labels: detection.labels ?? [],
+    receivedAt
+  })));
+};
+
+export const queryDetections = async ({ from, to, type, cameraId, limit = DEFAULT_LIMIT }: DetectionFilter) => {
+  const matches = (await collections().detections.range(from, to))
+    .filter(detection =>
+      (type === undefined || detection.type === type) &&
+      (cameraId === undefined || detection.cameraId === cameraId));
+  // Newest records win when the range holds more than the limit
+  return matches.slice(Math.max(0, matches.length - limit));
+};
+
+export const insertMedia = async (metadata: MediaMetadata, file: Blob) => {
+  const existing = await collections().media.get(metadata.id);
+  if (existing) return { media: existing, created: false };
+
+  const fileName = `${safeId(metadata.id)}.${EXTENSIONS[metadata.mimeType.split(';')[0]] ?? 'bin'}`;
+  await fs.mkdir(MEDIA_DIR, { recursive: true });
+  await fs.writeFile(path.join(MEDIA_DIR, fileName), Buffer.from(await file.arrayBuffer()));
+
+  const media: ServerMedia = {
+    ...metadata,
+    size: file.size,
+    fileName,
+    url: `/api/media/${encodeURIComponent(metadata.id)}`,
+    receivedAt: Date.now()
+  };
+  await collections().media.insert([media]);
+  return { media, created: true };
+};
+
+export const queryMedia = async ({ from, to, cameraId, limit = DEFAULT_LIMIT }: DetectionFilter) => {
+  const matches = (await collections().media.range(from, to))
+    .filter(media => cameraId === undefined || media.cameraId === cameraId);
+  return matches.slice(Math.max(0, matches.length - limit));
+};
+
+export const readMediaFile = async (id: string) => {
+  const media = await collections().media.get(id);
+  if (!media) return null;
+  return { media, data: await fs.readFile(path.join(MEDIA_DIR, media.fileName)) };
+};
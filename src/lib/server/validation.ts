@@ -0,0 +1,95 @@
+import type { DetectionFilter, MediaMetadata, WebhookRelayRequest } from '@/lib/api/types';
+import type { DetectionType } from '@/lib/detection';
+import type { StoredDetection } from '@/lib/storage';
+
+const DETECTION_TYPES: DetectionType[] = ['LARGE_ANIMAL', 'MEDIUM_ANIMAL', 'SMALL_ANIMAL', 'AMBIENT_MOTION'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+export const isDetectionType = (value: unknown): value is DetectionType =>
+  typeof value === 'string' && (DETECTION_TYPES as string[]).includes(value);
+
+export const isStoredDetection = (value: unknown): value is StoredDetection =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.cameraId === 'string' &&
+  (value.deploymentId === undefined || typeof value.deploymentId === 'string') &&
+  typeof value.timestamp === 'number' &&
+  typeof value.intensity === 'number' &&
+  (value.motionPoints === undefined || typeof value.motionPoints === 'number') &&
+  (value.coverage === undefined || typeof value.coverage === 'number') &&
+  typeof value.confidence === 'number' &&
+  isDetectionType(value.type) &&
+  // Clients from before classifier labels send neither field
+  (value.label === undefined || typeof value.label === 'string') &&
+  (value.labels === undefined || Array.isArray(value.labels)) &&
+  Array.isArray(value.boxes) &&
+  Array.isArray(value.zoneIds);
+
+export const isMediaMetadata = (value: unknown): value is MediaMetadata =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  (value.kind === 'clip' || value.kind === 'snapshot') &&
+  typeof value.cameraId === 'string' &&
+  (value.deploymentId === undefined || typeof value.deploymentId === 'string') &&
+  typeof value.mimeType === 'string' &&
+  typeof value.createdAt === 'number';
+
+const isHttpUrl = (value: unknown) => {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// The payload is passed on as it is; the target's address is checked by the relay as it connects
+export const isWebhookRelayRequest = (value: unknown): value is WebhookRelayRequest =>
+  isRecord(value) &&
+  isHttpUrl(value.url) &&
+  isRecord(value.payload);
+
+// Largest page a single query returns
+const MAX_QUERY_LIMIT = 10000;
+
+// Accepts epoch milliseconds or anything Date.parse understands
+const parseTime = (name: string, value: string | null) => {
+  if (value === null || value === '') return undefined;
+  const numeric = Number(value);
+  const time = Number.isFinite(numeric) ? numeric : Date.parse(value);
+  if (Number.isNaN(time) || time < 0) throw new Error(`Invalid ${name} time: ${value}`);
+  return time;
+};
+
+const parseLimit = (value: string | null) => {
+  if (value === null || value === '') return undefined;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_QUERY_LIMIT) {
+    throw new Error(`limit must be a whole number from 1 to ${MAX_QUERY_LIMIT}: ${value}`);
+  }
+  return limit;
+};
+
+// Throws on any malformed parameter; the routes answer 400 with its message
+export const parseDetectionFilter = (params: URLSearchParams): DetectionFilter => {
+  const type = params.get('type');
+  if (type !== null && !isDetectionType(type)) {
+    throw new Error(`Unknown detection type: ${type}`);
+  }
+  const from = parseTime('from', params.get('from'));
+  const to = parseTime('to', params.get('to'));
+  if (from !== undefined && to !== undefined && from > to) {
+    throw new Error('from must not be after to');
+  }
+
+  return {
+    from,
+    to,
+    type: type ?? undefined,
+    cameraId: params.get('camera') ?? undefined,
+    limit: parseLimit(params.get('limit'))
+  };
+};
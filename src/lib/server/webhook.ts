@@ -0,0 +1,85 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import type { WebhookRelayRequest, WebhookRelayResult } from '@/lib/api/types';
+
+const WEBHOOK_TIMEOUT = 10 * 1000;
+
+// The relay is open to any page visitor, so it must not reach this machine, its network or the
+// cloud metadata service. IPv4-mapped IPv6 addresses are matched against the IPv4 ranges.
+const BLOCKED = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3]
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address as string, prefix as number, 'ipv6'));
+
+// The target resolved to, or was, an address the relay refuses
+export class BlockedWebhookError extends Error {}
+
+const checkAddress = (address: string) => {
+  const family = net.isIP(address);
+  if (family === 0 || BLOCKED.check(address, family === 6 ? 'ipv6' : 'ipv4')) {
+    throw new BlockedWebhookError(`Webhook address ${address} is not allowed`);
+  }
+};
+
+// Checks every address at connect time, so a name cannot pass here and then rebind to a private one
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    try {
+      addresses.forEach(({ address }) => checkAddress(address));
+    } catch (blocked) {
+      callback(blocked as NodeJS.ErrnoException, '', 0);
+      return;
+    }
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Posts the alert payload to the configured endpoint and reports its status, whatever it was.
+// Redirects are not followed, since they could point anywhere.
+export const relayWebhook = ({ url, payload }: WebhookRelayRequest) =>
+  new Promise<WebhookRelayResult>((resolve, reject) => {
+    const target = new URL(url);
+    // Literal addresses never go through the lookup
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host)) checkAddress(host);
+
+    const body = JSON.stringify(payload);
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+      lookup: safeLookup,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT)
+    }, response => {
+      const status = response.statusCode ?? 0;
+      response.resume();
+      resolve({ status, ok: status >= 200 && status < 300 });
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
@@ -0,0 +1,18 @@
+export * from './types';
+export {
+  activeProfileSettings,
+  createProfile,
+  exportProfiles,
+  mergeProfiles,
+  parseProfileExport
+} from './profiles';
+export {
+  ANALYSIS_WIDTH_RULE,
+  CLASS_INTENSITY_RULE,
+  CLASS_COVERAGE_RULE,
+  CONFIDENCE_RULE,
+  DETECTOR_RULES,
+  MOTION_CLASSES,
+  normalizeSettings,
+  validateSettings
+} from './validation';
@@ -0,0 +1,57 @@
+import {
+  DEFAULT_DETECTION_SETTINGS,
+  type CameraProfiles,
+  type DetectionSettings,
+  type ProfileExport,
+  type SettingsProfile
+} from './types';
+import { normalizeSettings, validateSettings } from './validation';
+
+export const createProfile = (name: string, settings: DetectionSettings): SettingsProfile => ({
+  id: `profile-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  settings,
+  updatedAt: Date.now()
+});
+
+// Settings a camera runs with: its active profile, or the defaults when none is active
+export const activeProfileSettings = ({ activeId, profiles }: CameraProfiles): DetectionSettings =>
+  profiles.find(profile => profile.id === activeId)?.settings ?? DEFAULT_DETECTION_SETTINGS;
+
+export const exportProfiles = (cameraId: string, profiles: SettingsProfile[]): ProfileExport => ({
+  version: 1,
+  cameraId,
+  exportedAt: new Date().toISOString(),
+  profiles: profiles.map(({ name, settings }) => ({ name, settings }))
+});
+
+// Accepts an export file or a bare array of profiles; throws on the first profile that fails validation
+export const parseProfileExport = (text: string): ProfileExport['profiles'] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as Partial<ProfileExport> | null)?.profiles;
+  if (!Array.isArray(list)) throw new Error('No profiles found in file');
+
+  return list.map((entry: Partial<SettingsProfile>, index) => {
+    const name = typeof entry?.name === 'string' && entry.name.trim() ? entry.name.trim() : `Imported ${index + 1}`;
+    const settings = normalizeSettings(entry?.settings);
+    const [field, message] = Object.entries(validateSettings(settings))[0] ?? [];
+    if (field) throw new Error(`Profile "${name}": ${field} ${message.toLowerCase()}`);
+    return { name, settings };
+  });
+};
+
+// Imported profiles replace same-named ones, keeping their ids so the active profile stays selected
+export const mergeProfiles = (
+  existing: SettingsProfile[],
+  imported: ProfileExport['profiles']
+): SettingsProfile[] => imported.reduce((profiles, { name, settings }) => {
+  const match = profiles.find(profile => profile.name === name);
+  return match
+    ? profiles.map(profile => (profile === match ? { ...profile, settings, updatedAt: Date.now() } : profile))
+    : [...profiles, createProfile(name, settings)];
+}, existing);
@@ -0,0 +1,51 @@
+import { DEFAULT_ANALYSIS_SETTINGS, type AnalysisSettings } from '@/lib/analysis';
+import { DEFAULT_DETECTOR_CONFIG, type DetectorConfig } from '@/lib/detection';
+
+// Everything that tunes live detection for one camera
+export interface DetectionSettings {
+  detector: DetectorConfig;
+  analysis: AnalysisSettings;
+  // Detections must beat this confidence to be stored, tracked or start a recording
+  confidenceThreshold: number;
+  // Detections must beat this confidence to be outlined on the live video
+  overlayThreshold: number;
+}
+
+export const DEFAULT_DETECTION_SETTINGS: DetectionSettings = {
+  detector: DEFAULT_DETECTOR_CONFIG,
+  analysis: DEFAULT_ANALYSIS_SETTINGS,
+  confidenceThreshold: 0.4,
+  overlayThreshold: 0.6
+};
+
+// Named settings for one camera, e.g. "day meadow" or "night feeder"
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  settings: DetectionSettings;
+  updatedAt: number;
+}
+
+export interface CameraProfiles {
+  // Profile applied when the camera is selected; null runs on the defaults
+  activeId: string | null;
+  profiles: SettingsProfile[];
+}
+
+// JSON file written by profile export and read back by import
+export interface ProfileExport {
+  version: 1;
+  cameraId: string;
+  exportedAt: string;
+  profiles: Pick<SettingsProfile, 'name' | 'settings'>[];
+}
+
+// Messages keyed by the dotted path of the offending field, e.g. 'detector.gridSize'
+export type SettingsErrors = Record<string, string>;
+
+// Accepted range of a numeric setting
+export interface NumberRule {
+  min: number;
+  max: number;
+  integer?: boolean;
+}
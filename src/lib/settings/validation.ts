@@ -0,0 +1,104 @@
+import type { DetectorConfig, MotionClassThresholds } from '@/lib/detection';
+import {
+  DEFAULT_DETECTION_SETTINGS,
+  type DetectionSettings,
+  type NumberRule,
+  type SettingsErrors
+} from './types';
+
+type NumericDetectorField = {
+  [K in keyof DetectorConfig]: DetectorConfig[K] extends number ? K : never;
+}[keyof DetectorConfig];
+
+export const DETECTOR_RULES: Record<NumericDetectorField, NumberRule> = {
+  sensitivity: { min: 1, max: 100, integer: true },
+  minimumPixelDifference: { min: 0, max: 765 },
+  samplingInterval: { min: 10, max: 10000, integer: true },
+  gridSize: { min: 4, max: 256, integer: true },
+  skipFactor: { min: 1, max: 64, integer: true },
+  cellActivationRatio: { min: 0, max: 1 },
+  minBlobCells: { min: 1, max: 1000, integer: true },
+  learningRate: { min: 0.001, max: 1 },
+  varianceThreshold: { min: 0.5, max: 10 }
+};
+
+export const ANALYSIS_WIDTH_RULE: NumberRule = { min: 160, max: 3840, integer: true };
+export const CONFIDENCE_RULE: NumberRule = { min: 0, max: 1 };
+export const CLASS_INTENSITY_RULE: NumberRule = { min: 0, max: 1 };
+export const CLASS_COVERAGE_RULE: NumberRule = { min: 0, max: 1 };
+
+// Largest first, the order classifyMotion checks them in
+export const MOTION_CLASSES: (keyof MotionClassThresholds)[] = ['LARGE_ANIMAL', 'MEDIUM_ANIMAL', 'SMALL_ANIMAL'];
+
+const checkNumber = (value: unknown, { min, max, integer }: NumberRule): string | null => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 'Must be a number';
+  if (integer && !Number.isInteger(value)) return 'Must be a whole number';
+  if (value < min || value > max) return `Must be between ${min} and ${max}`;
+  return null;
+};
+
+export const validateSettings = (settings: DetectionSettings): SettingsErrors => {
+  const errors: SettingsErrors = {};
+  const check = (path: string, value: unknown, rule: NumberRule) => {
+    const error = checkNumber(value, rule);
+    if (error) errors[path] = error;
+  };
+  const { detector } = settings;
+
+  if (detector.method !== 'frame-diff' && detector.method !== 'background') {
+    errors['detector.method'] = 'Unknown detection method';
+  }
+  (Object.keys(DETECTOR_RULES) as NumericDetectorField[]).forEach(field => {
+    check(`detector.${field}`, detector[field], DETECTOR_RULES[field]);
+  });
+  if (typeof detector.illuminationCompensation !== 'boolean') {
+    errors['detector.illuminationCompensation'] = 'Must be on or off';
+  }
+  // Every cell of the motion mask needs at least one sampled pixel
+  if (!errors['detector.gridSize'] && !errors['detector.skipFactor'] && detector.gridSize < detector.skipFactor) {
+    errors['detector.gridSize'] = 'Must be at least the pixel step';
+  }
+
+  MOTION_CLASSES.forEach((type, index) => {
+    const threshold = detector.classThresholds[type];
+    check(`detector.classThresholds.${type}.intensity`, threshold?.intensity, CLASS_INTENSITY_RULE);
+    check(`detector.classThresholds.${type}.coverage`, threshold?.coverage, CLASS_COVERAGE_RULE);
+    // A class whose cutoffs sit above the larger class's would never be assigned
+    const larger = index > 0 ? detector.classThresholds[MOTION_CLASSES[index - 1]] : null;
+    if (larger && threshold) {
+      if (!errors[`detector.classThresholds.${type}.intensity`] && threshold.intensity > larger.intensity) {
+        errors[`detector.classThresholds.${type}.intensity`] = 'Must not exceed the larger class';
+      }
+      if (!errors[`detector.classThresholds.${type}.coverage`] && threshold.coverage > larger.coverage) {
+        errors[`detector.classThresholds.${type}.coverage`] = 'Must not exceed the larger class';
+      }
+    }
+  });
+
+  check('analysis.analysisWidth', settings.analysis.analysisWidth, ANALYSIS_WIDTH_RULE);
+  check('confidenceThreshold', settings.confidenceThreshold, CONFIDENCE_RULE);
+  check('overlayThreshold', settings.overlayThreshold, CONFIDENCE_RULE);
+  return errors;
+};
+
+// Fills fields missing from older or hand-written settings with the defaults
+export const normalizeSettings = (value: unknown): DetectionSettings => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Partial<DetectionSettings>;
+  const defaults = DEFAULT_DETECTION_SETTINGS;
+  const classThresholds = { ...defaults.detector.classThresholds };
+  // Cutoffs saved as sample counts, from before they were coverage, meant different things at each
+  // analysis width and are replaced by the default coverage
+  MOTION_CLASSES.forEach(type => {
+    const stored = raw.detector?.classThresholds?.[type];
+    classThresholds[type] = {
+      intensity: stored?.intensity ?? classThresholds[type].intensity,
+      coverage: stored?.coverage ?? classThresholds[type].coverage
+    };
+  });
+  return {
+    ...defaults,
+    ...raw,
+    detector: { ...defaults.detector, ...raw.detector, classThresholds },
+    analysis: { ...defaults.analysis, ...raw.analysis }
+  };
+};
@@ -0,0 +1,72 @@
+import { uniqueSourceId } from './specs';
+import type { DeviceCapabilities, DeviceSource, VideoSource } from './types';
+
+export const summarizeCapabilities = (capabilities: MediaTrackCapabilities): DeviceCapabilities => ({
+  maxWidth: capabilities.width?.max ?? null,
+  maxHeight: capabilities.height?.max ?? null,
+  maxFrameRate: capabilities.frameRate?.max ?? null,
+  facingModes: capabilities.facingMode ?? []
+});
+
+export const describeCapabilities = (capabilities: DeviceCapabilities | null) => {
+  if (!capabilities) return 'Capabilities unknown';
+  const parts: string[] = [];
+  if (capabilities.maxWidth && capabilities.maxHeight) {
+    parts.push(`up to ${capabilities.maxWidth}×${capabilities.maxHeight}`);
+  }
+  if (capabilities.maxFrameRate) parts.push(`${Math.round(capabilities.maxFrameRate)} fps`);
+  if (capabilities.facingModes.length > 0) parts.push(capabilities.facingModes.join('/'));
+  return parts.length > 0 ? parts.join(' · ') : 'Capabilities unknown';
+};
+
+// The best the device offers, capped at 4K and 60 fps; 1080p at 30 fps when it does not say
+export const deviceConstraints = ({ deviceId, capabilities }: DeviceSource): MediaTrackConstraints => ({
+  deviceId: { exact: deviceId },
+  width: { ideal: Math.min(capabilities?.maxWidth ?? 1920, 3840) },
+  height: { ideal: Math.min(capabilities?.maxHeight ?? 1080, 2160) },
+  frameRate: { ideal: Math.min(capabilities?.maxFrameRate ?? 30, 60) }
+});
+
+// Caps a device's frame rate, or restores the rate it was opened with when frameRate is null. Streams
+// copied from network and file sources are left alone, since their rate is set by the source.
+export const setFrameRate = async (source: VideoSource, frameRate: number | null) => {
+  if (source.spec.kind !== 'device') return;
+  const [track] = source.stream.getVideoTracks();
+  if (!track) return;
+  try {
+    await track.applyConstraints({
+      ...track.getConstraints(),
+      frameRate: frameRate === null ? deviceConstraints(source.spec).frameRate : { ideal: frameRate, max: frameRate }
+    });
+  } catch (error) {
+    console.error('Could not change the camera frame rate:', error);
+  }
+};
+
+// Every video input by its real label. Browsers only fill in labels once the page may use a camera,
+// so a short-lived stream is opened first.
+export const listVideoDevices = async (): Promise<DeviceSource[]> => {
+  try {
+    const permission = await navigator.mediaDevices.getUserMedia({ video: true });
+    permission.getTracks().forEach(track => track.stop());
+  } catch (error) {
+    console.error('Camera permission unavailable:', error);
+  }
+
+  const inputs = (await navigator.mediaDevices.enumerateDevices()).filter(device => device.kind === 'videoinput');
+  const taken: string[] = [];
+  return inputs.map((device, index): DeviceSource => {
+    const label = device.label || `Camera ${index + 1}`;
+    const id = uniqueSourceId(label, taken);
+    taken.push(id);
+    // Firefox does not expose capabilities before a device is opened
+    const info = device as InputDeviceInfo;
+    return {
+      kind: 'device',
+      id,
+      label,
+      deviceId: device.deviceId,
+      capabilities: typeof info.getCapabilities === 'function' ? summarizeCapabilities(info.getCapabilities()) : null
+    };
+  });
+};
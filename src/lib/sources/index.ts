@@ -0,0 +1,10 @@
+export * from './types';
+export {
+  deviceConstraints,
+  describeCapabilities,
+  listVideoDevices,
+  setFrameRate,
+  summarizeCapabilities
+} from './devices';
+export { openVideoSource } from './open';
+export { createFileSource, createNetworkSource, uniqueSourceId } from './specs';
@@ -0,0 +1,188 @@
+import { deviceConstraints, summarizeCapabilities } from './devices';
+import type { DeviceSource, FileSource, NetworkSource, VideoSource, VideoSourceSpec } from './types';
+
+const NETWORK_TIMEOUT = 15 * 1000;
+// Frame rate of the canvas copy used where a source cannot be captured directly
+const CANVAS_FPS = 15;
+
+// captureStream on media elements is missing from the DOM typings and prefixed in Firefox
+type CapturableVideo = HTMLVideoElement & {
+  captureStream?: () => MediaStream;
+  mozCaptureStream?: () => MediaStream;
+};
+
+// Repaints a canvas from an element that has no stream of its own and streams the canvas
+const canvasStream = (element: CanvasImageSource, size: () => { width: number; height: number }) => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  const stream = canvas.captureStream(CANVAS_FPS);
+  const timer = setInterval(() => {
+    const { width, height } = size();
+    if (!context || !width || !height) return;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    context.drawImage(element, 0, 0, width, height);
+  }, 1000 / CANVAS_FPS);
+  return { stream, stop: () => clearInterval(timer) };
+};
+
+const createMediaVideo = (loop: boolean) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.loop = loop;
+  // Without CORS the frames could not be read back for analysis, so fail early instead
+  video.crossOrigin = 'anonymous';
+  return video;
+};
+
+// Resolves once the element is playing; must be called before the element is given its source
+const startPlayback = (video: HTMLVideoElement) => new Promise<void>((resolve, reject) => {
+  const finish = () => {
+    clearTimeout(timer);
+    video.onloadeddata = null;
+    video.onerror = null;
+  };
+  const timer = setTimeout(() => {
+    finish();
+    reject(new Error('Timed out waiting for video'));
+  }, NETWORK_TIMEOUT);
+  video.onloadeddata = () => {
+    finish();
+    video.play().then(resolve, reject);
+  };
+  video.onerror = () => {
+    finish();
+    reject(new Error(video.error?.message || 'The video could not be loaded'));
+  };
+});
+
+const captureVideo = (video: HTMLVideoElement) => {
+  const capturable = video as CapturableVideo;
+  const captured = capturable.captureStream?.() ?? capturable.mozCaptureStream?.() ?? null;
+  if (captured) return { stream: captured, stop: () => undefined };
+  return canvasStream(video, () => ({ width: video.videoWidth, height: video.videoHeight }));
+};
+
+const fromMediaVideo = (spec: VideoSourceSpec, video: HTMLVideoElement, release: () => void): VideoSource => {
+  const { stream, stop } = captureVideo(video);
+  return {
+    spec,
+    stream,
+    capabilities: null,
+    close: () => {
+      stop();
+      stream.getTracks().forEach(track => track.stop());
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+      release();
+    }
+  };
+};
+
+const openDevice = async (spec: DeviceSource): Promise<VideoSource> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ video: deviceConstraints(spec) });
+  const [track] = stream.getVideoTracks();
+  return {
+    spec,
+    stream,
+    capabilities: spec.capabilities ?? (track?.getCapabilities ? summarizeCapabilities(track.getCapabilities()) : null),
+    close: () => stream.getTracks().forEach(item => item.stop())
+  };
+};
+
+const openFile = async (spec: FileSource): Promise<VideoSource> => {
+  const url = URL.createObjectURL(spec.file);
+  const video = createMediaVideo(true);
+  try {
+    const ready = startPlayback(video);
+    video.src = url;
+    await ready;
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+  return fromMediaVideo(spec, video, () => URL.revokeObjectURL(url));
+};
+
+// Safari plays HLS natively; elsewhere hls.js feeds the element through Media Source Extensions
+const openHls = async (spec: NetworkSource): Promise<VideoSource> => {
+  const video = createMediaVideo(false);
+  if (video.canPlayType('application/vnd.apple.mpegurl')) {
+    const ready = startPlayback(video);
+    video.src = spec.url;
+    await ready;
+    return fromMediaVideo(spec, video, () => undefined);
+  }
+
+  const { default: Hls } = await import('hls.js');
+  if (!Hls.isSupported()) throw new Error('HLS playback is not supported in this browser');
+  const hls = new Hls();
+  const ready = startPlayback(video);
+  const failed = new Promise<never>((_, reject) => {
+    hls.on(Hls.Events.ERROR, (_event, data) => {
+      if (data.fatal) reject(new Error(`HLS stream failed: ${data.details}`));
+    });
+  });
+  hls.loadSource(spec.url);
+  hls.attachMedia(video);
+  try {
+    await Promise.race([ready, failed]);
+  } catch (error) {
+    hls.destroy();
+    throw error;
+  }
+  return fromMediaVideo(spec, video, () => hls.destroy());
+};
+
+// Browsers render multipart MJPEG in an <img>, so frames are copied onto a canvas to get a stream
+const openMjpeg = async (spec: NetworkSource): Promise<VideoSource> => {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  await new Promise<void>((resolve, reject) => {
+    // Not every browser fires load for a never-ending multipart response, so also watch for the first frame
+    const poll = setInterval(() => {
+      if (image.naturalWidth > 0) done(resolve);
+    }, 100);
+    const timer = setTimeout(() => done(() => reject(new Error('Timed out waiting for the MJPEG stream'))), NETWORK_TIMEOUT);
+    const done = (settle: () => void) => {
+      clearInterval(poll);
+      clearTimeout(timer);
+      image.onload = null;
+      image.onerror = null;
+      settle();
+    };
+    image.onload = () => done(resolve);
+    image.onerror = () => done(() => reject(new Error('Could not load the MJPEG stream; the camera must allow cross-origin requests')));
+    image.src = spec.url;
+  });
+
+  const copy = canvasStream(image, () => ({ width: image.naturalWidth, height: image.naturalHeight }));
+  return {
+    spec,
+    stream: copy.stream,
+    capabilities: null,
+    close: () => {
+      copy.stop();
+      copy.stream.getTracks().forEach(track => track.stop());
+      // Dropping the src closes the HTTP connection
+      image.src = '';
+    }
+  };
+};
+
+export const openVideoSource = (spec: VideoSourceSpec): Promise<VideoSource> => {
+  switch (spec.kind) {
+    case 'device':
+      return openDevice(spec);
+    case 'file':
+      return openFile(spec);
+    case 'hls':
+      return openHls(spec);
+    case 'mjpeg':
+      return openMjpeg(spec);
+  }
+};
@@ -0,0 +1,34 @@
+import type { FileSource, NetworkSource } from './types';
+
+const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'camera';
+
+// Readable ids keep exports meaningful; a suffix separates sources with the same name
+export const uniqueSourceId = (name: string, taken: Iterable<string>) => {
+  const used = new Set(taken);
+  const base = slugify(name);
+  let id = base;
+  for (let suffix = 2; used.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+};
+
+export const createNetworkSource = (
+  kind: NetworkSource['kind'],
+  url: string,
+  label: string,
+  taken: Iterable<string>
+): NetworkSource => ({
+  kind,
+  id: uniqueSourceId(label, taken),
+  label,
+  url
+});
+
+export const createFileSource = (file: File, taken: Iterable<string>): FileSource => ({
+  kind: 'file',
+  id: uniqueSourceId(file.name.replace(/\.[^.]+$/, ''), taken),
+  label: file.name,
+  file
+});
@@ -0,0 +1,52 @@
+// What a camera reports it can do; null fields are not reported by the browser
+export interface DeviceCapabilities {
+  maxWidth: number | null;
+  maxHeight: number | null;
+  maxFrameRate: number | null;
+  facingModes: string[];
+}
+
+interface BaseSource {
+  // Doubles as the camera id stored with detections, zones and settings profiles
+  id: string;
+  label: string;
+}
+
+export interface DeviceSource extends BaseSource {
+  kind: 'device';
+  deviceId: string;
+  capabilities: DeviceCapabilities | null;
+}
+
+// IP cameras: a multipart MJPEG stream or an HLS playlist
+export interface NetworkSource extends BaseSource {
+  kind: 'mjpeg' | 'hls';
+  url: string;
+}
+
+// A local recording played on a loop, e.g. to tune settings against known footage
+export interface FileSource extends BaseSource {
+  kind: 'file';
+  file: File;
+}
+
+export type VideoSourceSpec = DeviceSource | NetworkSource | FileSource;
+
+export type VideoSourceKind = VideoSourceSpec['kind'];
+
+export interface VideoSource {
+  spec: VideoSourceSpec;
+  // Every kind ends up as a MediaStream, so the live view, analysis and recording treat them alike
+  stream: MediaStream;
+  // Read from the running track; fills in devices whose capabilities could not be listed up front
+  capabilities: DeviceCapabilities | null;
+  close: () => void;
+}
+
+// Persisted choice of source and the network cameras added by hand
+export interface SourceSettings {
+  selectedId: string | null;
+  network: NetworkSource[];
+  // Sources shown side by side in the multi-view tab
+  gridIds: string[];
+}
@@ -0,0 +1,47 @@
+import type { AlertEvent, AlertRule } from '@/lib/alerts';
+
+const RULES_KEY = 'wildlife-detection:alert-rules';
+const HISTORY_KEY = 'wildlife-detection:alert-history';
+// Oldest firings are dropped beyond this
+export const ALERT_HISTORY_LIMIT = 200;
+
+export const loadAlertRules = (): AlertRule[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(RULES_KEY);
+    return raw ? (JSON.parse(raw) as AlertRule[]) : [];
+  } catch (error) {
+    console.error('Failed to load alert rules:', error);
+    return [];
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.error('Failed to save alert rules:', error);
+  }
+};
+
+// Newest first
+export const loadAlertHistory = (): AlertEvent[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(HISTORY_KEY);
+    return raw ? (JSON.parse(raw) as AlertEvent[]) : [];
+  } catch (error) {
+    console.error('Failed to load alert history:', error);
+    return [];
+  }
+};
+
+export const saveAlertHistory = (history: AlertEvent[]) => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(HISTORY_KEY, JSON.stringify(history.slice(0, ALERT_HISTORY_LIMIT)));
+  } catch (error) {
+    console.error('Failed to save alert history:', error);
+  }
+};
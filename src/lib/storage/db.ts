@@ -0,0 +1,107 @@
+const DATABASE_NAME = 'wildlife-detection';
+const DATABASE_VERSION = 5;
+
+export const STORES = {
+  detections: 'detections',
+  tracks: 'tracks',
+  media: 'media',
+  analytics: 'analytics',
+  // Pending uploads to the ingestion API
+  outbox: 'outbox',
+  // Reviewer verdicts on tracks, keyed like the tracks
+  reviews: 'reviews',
+  events: 'events',
+  // Heatmap time slices, keyed by camera id
+  heatmaps: 'heatmaps'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.detections)) {
+        db.createObjectStore(STORES.detections, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(STORES.tracks)) {
+        db.createObjectStore(STORES.tracks, { keyPath: 'key' }).createIndex('firstSeen', 'firstSeen');
+      }
+      if (!db.objectStoreNames.contains(STORES.media)) {
+        db.createObjectStore(STORES.media, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+      }
+      if (!db.objectStoreNames.contains(STORES.analytics)) {
+        db.createObjectStore(STORES.analytics);
+      }
+      if (!db.objectStoreNames.contains(STORES.outbox)) {
+        db.createObjectStore(STORES.outbox, { keyPath: 'id' }).createIndex('nextAttemptAt', 'nextAttemptAt');
+      }
+      if (!db.objectStoreNames.contains(STORES.reviews)) {
+        db.createObjectStore(STORES.reviews, { keyPath: 'key' }).createIndex('firstSeen', 'firstSeen');
+      }
+      if (!db.objectStoreNames.contains(STORES.events)) {
+        db.createObjectStore(STORES.events, { keyPath: 'id' }).createIndex('start', 'start');
+      }
+      if (!db.objectStoreNames.contains(STORES.heatmaps)) {
+        db.createObjectStore(STORES.heatmaps);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Walks an index from newest to oldest (or the reverse) within an optional key range
+export const readIndex = async <T>(
+  db: IDBDatabase,
+  store: StoreName,
+  index: string,
+  { from, to, limit, newestFirst = true }: { from?: number; to?: number; limit?: number; newestFirst?: boolean }
+) => {
+  const range = from !== undefined && to !== undefined
+    ? IDBKeyRange.bound(from, to)
+    : from !== undefined
+      ? IDBKeyRange.lowerBound(from)
+      : to !== undefined
+        ? IDBKeyRange.upperBound(to)
+        : undefined;
+
+  const transaction = db.transaction(store, 'readonly');
+  const cursorRequest = transaction.objectStore(store).index(index).openCursor(range, newestFirst ? 'prev' : 'next');
+  const results: T[] = [];
+
+  await new Promise<void>((resolve, reject) => {
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || (limit !== undefined && results.length >= limit)) {
+        resolve();
+        return;
+      }
+      results.push(cursor.value as T);
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+
+  return results;
+};
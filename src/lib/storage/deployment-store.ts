@@ -0,0 +1,7 @@
+import { DEFAULT_DEPLOYMENT_SETTINGS, type DeploymentSettings } from '@/lib/deployments';
+import { createJsonSetting } from './json-setting';
+
+const setting = createJsonSetting<DeploymentSettings>('wildlife-detection:deployments', DEFAULT_DEPLOYMENT_SETTINGS, 'deployments');
+
+export const loadDeploymentSettings = setting.load;
+export const saveDeploymentSettings = setting.save;
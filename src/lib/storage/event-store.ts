@@ -0,0 +1,7 @@
+import { DEFAULT_EVENT_SETTINGS, type EventSettings } from '@/lib/events';
+import { createJsonSetting } from './json-setting';
+
+const setting = createJsonSetting<EventSettings>('wildlife-detection:events', DEFAULT_EVENT_SETTINGS, 'event settings');
+
+export const loadEventSettings = setting.load;
+export const saveEventSettings = setting.save;
@@ -0,0 +1,24 @@
+export * from './types';
+export { STORES, openDatabase, readIndex, requestToPromise, transactionDone } from './db';
+export { clipToMedia, mediaToClip, mediaToSnapshot, snapshotToMedia } from './media';
+export { LEGACY_CAMERA_ID, createDetectionStore, openDetectionStore, trackKey } from './repository';
+export {
+  DEFAULT_RETENTION_POLICY,
+  loadRetentionPolicy,
+  saveRetentionPolicy
+} from './retention-store';
+export { loadZones, saveZones } from './zone-store';
+export { loadProfiles, saveProfiles } from './profile-store';
+export { DEFAULT_SOURCE_SETTINGS, loadSourceSettings, saveSourceSettings } from './source-store';
+export { loadPowerSettings, savePowerSettings } from './power-store';
+export { loadEventSettings, saveEventSettings } from './event-store';
+export { loadScheduleSettings, saveScheduleSettings } from './schedule-store';
+export { loadDeploymentSettings, saveDeploymentSettings } from './deployment-store';
+export { loadOverlaySettings, saveOverlaySettings } from './overlay-store';
+export {
+  ALERT_HISTORY_LIMIT,
+  loadAlertHistory,
+  loadAlertRules,
+  saveAlertHistory,
+  saveAlertRules
+} from './alert-store';
@@ -0,0 +1,27 @@
+export interface JsonSetting<T> {
+  load: () => T;
+  save: (value: T) => void;
+}
+
+// One settings object in localStorage under `key`. Saved values are laid over the defaults, so fields
+// added since they were written take their default. `label` names the setting in console errors.
+export const createJsonSetting = <T extends object>(key: string, defaults: T, label: string): JsonSetting<T> => ({
+  load: () => {
+    if (typeof window === 'undefined') return defaults;
+    try {
+      const raw = window.localStorage.getItem(key);
+      return raw ? { ...defaults, ...JSON.parse(raw) } : defaults;
+    } catch (error) {
+      console.error(`Failed to load ${label}:`, error);
+      return defaults;
+    }
+  },
+  save: (value) => {
+    if (typeof window === 'undefined') return;
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.error(`Failed to save ${label}:`, error);
+    }
+  }
+});
@@ -0,0 +1,55 @@
+import type { RecordedClip, Snapshot } from '@/lib/recording';
+import type { StoredMedia } from './types';
+
+export const clipToMedia = (clip: RecordedClip, cameraId: string, deploymentId?: string): StoredMedia => ({
+  id: clip.id,
+  kind: 'clip',
+  cameraId,
+  deploymentId,
+  blob: clip.blob,
+  mimeType: clip.mimeType,
+  size: clip.blob.size,
+  createdAt: clip.startedAt,
+  endedAt: clip.endedAt,
+  trigger: clip.trigger,
+  flagged: clip.flagged,
+  context: clip.context ?? undefined
+});
+
+export const snapshotToMedia = (snapshot: Snapshot, cameraId: string, deploymentId?: string): StoredMedia => ({
+  id: snapshot.id,
+  kind: 'snapshot',
+  cameraId,
+  deploymentId,
+  blob: snapshot.blob,
+  mimeType: snapshot.mimeType,
+  size: snapshot.blob.size,
+  createdAt: snapshot.createdAt,
+  endedAt: null,
+  trigger: null,
+  flagged: snapshot.flagged,
+  context: snapshot.context ?? undefined
+});
+
+// Object URLs do not survive a reload, so rehydrated media gets fresh ones
+export const mediaToClip = (media: StoredMedia): RecordedClip => ({
+  id: media.id,
+  url: URL.createObjectURL(media.blob),
+  blob: media.blob,
+  mimeType: media.mimeType,
+  startedAt: media.createdAt,
+  endedAt: media.endedAt ?? media.createdAt,
+  trigger: media.trigger,
+  flagged: media.flagged,
+  context: media.context ?? null
+});
+
+export const mediaToSnapshot = (media: StoredMedia): Snapshot => ({
+  id: media.id,
+  url: URL.createObjectURL(media.blob),
+  blob: media.blob,
+  mimeType: media.mimeType,
+  createdAt: media.createdAt,
+  flagged: media.flagged,
+  context: media.context ?? null
+});
@@ -0,0 +1,7 @@
+import { DEFAULT_OVERLAY_SETTINGS, type OverlaySettings } from '@/lib/recording';
+import { createJsonSetting } from './json-setting';
+
+const setting = createJsonSetting<OverlaySettings>('wildlife-detection:overlay', DEFAULT_OVERLAY_SETTINGS, 'overlay settings');
+
+export const loadOverlaySettings = setting.load;
+export const saveOverlaySettings = setting.save;
@@ -0,0 +1,7 @@
+import { DEFAULT_POWER_SETTINGS, type PowerSettings } from '@/lib/power';
+import { createJsonSetting } from './json-setting';
+
+const setting = createJsonSetting<PowerSettings>('wildlife-detection:power', DEFAULT_POWER_SETTINGS, 'power settings');
+
+export const loadPowerSettings = setting.load;
+export const savePowerSettings = setting.save;
@@ -0,0 +1,31 @@
+import { normalizeSettings, type CameraProfiles } from '@/lib/settings';
+
+const STORAGE_PREFIX = 'wildlife-detection:profiles:';
+
+const EMPTY_PROFILES: CameraProfiles = { activeId: null, profiles: [] };
+
+export const loadProfiles = (cameraId: string): CameraProfiles => {
+  if (typeof window === 'undefined') return EMPTY_PROFILES;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + cameraId);
+    if (!raw) return EMPTY_PROFILES;
+    const stored = JSON.parse(raw) as CameraProfiles;
+    // Profiles saved before a setting existed pick up its default
+    return {
+      activeId: stored.activeId ?? null,
+      profiles: stored.profiles.map(profile => ({ ...profile, settings: normalizeSettings(profile.settings) }))
+    };
+  } catch (error) {
+    console.error('Failed to load settings profiles:', error);
+    return EMPTY_PROFILES;
+  }
+};
+
+export const saveProfiles = (cameraId: string, profiles: CameraProfiles) => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + cameraId, JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Failed to save settings profiles:', error);
+  }
+};
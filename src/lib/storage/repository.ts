@@ -0,0 +1,222 @@
+import type { AnalyticsData, CameraAnalytics } from '@/lib/analytics';
+import type { Track } from '@/lib/detection';
+import type { DetectionEvent } from '@/lib/events';
+import type { HeatmapSlices } from '@/lib/heatmap';
+import type { DetectionReview } from '@/lib/review';
+import { STORES, openDatabase, readIndex, requestToPromise, transactionDone, type StoreName } from './db';
+import type {
+  DetectionQuery,
+  DetectionStore,
+  RetentionPolicy,
+  RetentionReport,
+  StorageUsage,
+  StoredDetection,
+  StoredMedia,
+  StoredTrack
+} from './types';
+
+const ANALYTICS_KEY = 'by-camera';
+// Single summary written before analytics were split by camera
+const LEGACY_ANALYTICS_KEY = 'summary';
+export const LEGACY_CAMERA_ID = 'unknown';
+const DAY = 24 * 60 * 60 * 1000;
+
+export const trackKey = (track: Pick<Track, 'id' | 'firstSeen'>) => `${track.firstSeen}-${track.id}`;
+
+export const createDetectionStore = (db: IDBDatabase): DetectionStore => {
+  const put = async (store: StoreName, values: unknown[], key?: IDBValidKey) => {
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    values.forEach(value => objectStore.put(value, key));
+    await transactionDone(transaction);
+  };
+
+  // Results come back in chronological order, the newest `limit` of them when a limit is set
+  const list = async <T>(store: StoreName, index: string, query: DetectionQuery = {}) =>
+    (await readIndex<T>(db, store, index, { ...query, newestFirst: true })).reverse();
+
+  const count = (store: StoreName) =>
+    requestToPromise(db.transaction(store, 'readonly').objectStore(store).count());
+
+  // Deletes records older than the cutoff; flagged ones survive when the policy says so
+  const expire = async (store: StoreName, index: string, cutoff: number, keepFlagged: boolean) => {
+    const transaction = db.transaction(store, 'readwrite');
+    const request = transaction.objectStore(store).index(index).openCursor(IDBKeyRange.upperBound(cutoff, true));
+    let removed = 0;
+    let bytes = 0;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const value = cursor.value as { flagged?: boolean; size?: number };
+      if (!(keepFlagged && value.flagged)) {
+        cursor.delete();
+        removed++;
+        bytes += value.size ?? 0;
+      }
+      cursor.continue();
+    };
+
+    await transactionDone(transaction);
+    return { removed, bytes };
+  };
+
+  // Removes the oldest media until the blobs fit within the quota
+  const enforceQuota = async (maxBytes: number, keepFlagged: boolean) => {
+    const media = await readIndex<StoredMedia>(db, STORES.media, 'createdAt', { newestFirst: false });
+    let total = media.reduce((sum, item) => sum + item.size, 0);
+    const doomed: StoredMedia[] = [];
+
+    for (const item of media) {
+      if (total <= maxBytes) break;
+      if (keepFlagged && item.flagged) continue;
+      doomed.push(item);
+      total -= item.size;
+    }
+
+    if (doomed.length > 0) {
+      const transaction = db.transaction(STORES.media, 'readwrite');
+      doomed.forEach(item => transaction.objectStore(STORES.media).delete(item.id));
+      await transactionDone(transaction);
+    }
+    return { removed: doomed.length, bytes: doomed.reduce((sum, item) => sum + item.size, 0) };
+  };
+
+  const saveDetections = (records: StoredDetection[]) => put(STORES.detections, records);
+
+  // Records written before classifier labels existed are reported under their heuristic type
+  const listDetections = async (query?: DetectionQuery) =>
+    (await list<StoredDetection>(STORES.detections, 'timestamp', query))
+      .map(detection => (detection.label ? detection : { ...detection, label: detection.type, labels: [] }));
+
+  const saveTrack = (track: Track, cameraId: string, deploymentId?: string) =>
+    put(STORES.tracks, [{ ...track, key: trackKey(track), cameraId, deploymentId, flagged: false } satisfies StoredTrack]);
+
+  const listTracks = async (query?: DetectionQuery) =>
+    (await list<StoredTrack>(STORES.tracks, 'firstSeen', query))
+      .map(track => (track.label ? track : { ...track, label: track.type, labelCounts: { ...track.typeCounts } }));
+
+  const saveEvent = (event: DetectionEvent) => put(STORES.events, [event]);
+
+  const listEvents = (query?: DetectionQuery) => list<DetectionEvent>(STORES.events, 'start', query);
+
+  const saveMedia = (media: StoredMedia) => put(STORES.media, [media]);
+
+  const listMedia = (query?: DetectionQuery) => list<StoredMedia>(STORES.media, 'createdAt', query);
+
+  const getMedia = async (id: string) => {
+    const transaction = db.transaction(STORES.media, 'readonly');
+    const media = await requestToPromise<StoredMedia | undefined>(transaction.objectStore(STORES.media).get(id));
+    return media ?? null;
+  };
+
+  const setMediaFlagged = async (id: string, flagged: boolean) => {
+    const transaction = db.transaction(STORES.media, 'readwrite');
+    const store = transaction.objectStore(STORES.media);
+    const media = await requestToPromise<StoredMedia | undefined>(store.get(id));
+    if (media) {
+      store.put({ ...media, flagged });
+    }
+    await transactionDone(transaction);
+  };
+
+  const deleteMedia = async (id: string) => {
+    const transaction = db.transaction(STORES.media, 'readwrite');
+    transaction.objectStore(STORES.media).delete(id);
+    await transactionDone(transaction);
+  };
+
+  const saveReview = (review: DetectionReview) => put(STORES.reviews, [review]);
+
+  const listReviews = (query?: DetectionQuery) => list<DetectionReview>(STORES.reviews, 'firstSeen', query);
+
+  const loadAnalytics = async (): Promise<CameraAnalytics | null> => {
+    const store = db.transaction(STORES.analytics, 'readonly').objectStore(STORES.analytics);
+    const [analytics, legacy] = await Promise.all([
+      requestToPromise<CameraAnalytics | undefined>(store.get(ANALYTICS_KEY)),
+      requestToPromise<AnalyticsData | undefined>(store.get(LEGACY_ANALYTICS_KEY))
+    ]);
+    if (analytics) return analytics;
+    return legacy ? { [LEGACY_CAMERA_ID]: legacy } : null;
+  };
+
+  const saveAnalytics = (analytics: CameraAnalytics) => put(STORES.analytics, [analytics], ANALYTICS_KEY);
+
+  const loadHeatmaps = async () => {
+    const store = db.transaction(STORES.heatmaps, 'readonly').objectStore(STORES.heatmaps);
+    const [ids, slices] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise<HeatmapSlices[]>(store.getAll())
+    ]);
+    const heatmaps: Record<string, HeatmapSlices> = {};
+    ids.forEach((id, index) => {
+      heatmaps[String(id)] = slices[index];
+    });
+    return heatmaps;
+  };
+
+  const saveHeatmap = (cameraId: string, slices: HeatmapSlices) => put(STORES.heatmaps, [slices], cameraId);
+
+  const applyRetention = async (policy: RetentionPolicy, now = Date.now()): Promise<RetentionReport> => {
+    const report: RetentionReport = {
+      detectionsRemoved: 0,
+      tracksRemoved: 0,
+      eventsRemoved: 0,
+      mediaRemoved: 0,
+      bytesFreed: 0
+    };
+
+    if (policy.maxAgeDays > 0) {
+      const cutoff = now - policy.maxAgeDays * DAY;
+      report.detectionsRemoved = (await expire(STORES.detections, 'timestamp', cutoff, policy.keepFlagged)).removed;
+      report.tracksRemoved = (await expire(STORES.tracks, 'firstSeen', cutoff, policy.keepFlagged)).removed;
+      report.eventsRemoved = (await expire(STORES.events, 'start', cutoff, policy.keepFlagged)).removed;
+      const media = await expire(STORES.media, 'createdAt', cutoff, policy.keepFlagged);
+      report.mediaRemoved += media.removed;
+      report.bytesFreed += media.bytes;
+    }
+
+    if (policy.maxStorageMB > 0) {
+      const media = await enforceQuota(policy.maxStorageMB * 1024 * 1024, policy.keepFlagged);
+      report.mediaRemoved += media.removed;
+      report.bytesFreed += media.bytes;
+    }
+
+    return report;
+  };
+
+  const getUsage = async (): Promise<StorageUsage> => {
+    const media = await readIndex<StoredMedia>(db, STORES.media, 'createdAt', {});
+    return {
+      detections: await count(STORES.detections),
+      tracks: await count(STORES.tracks),
+      events: await count(STORES.events),
+      media: media.length,
+      mediaBytes: media.reduce((sum, item) => sum + item.size, 0)
+    };
+  };
+
+  return {
+    saveDetections,
+    listDetections,
+    saveTrack,
+    listTracks,
+    saveEvent,
+    listEvents,
+    saveMedia,
+    listMedia,
+    getMedia,
+    setMediaFlagged,
+    deleteMedia,
+    saveReview,
+    listReviews,
+    loadAnalytics,
+    saveAnalytics,
+    loadHeatmaps,
+    saveHeatmap,
+    applyRetention,
+    getUsage
+  };
+};
+
+export const openDetectionStore = async () => createDetectionStore(await openDatabase());
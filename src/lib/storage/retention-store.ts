@@ -0,0 +1,13 @@
+import { createJsonSetting } from './json-setting';
+import type { RetentionPolicy } from './types';
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  maxAgeDays: 30,
+  maxStorageMB: 2048,
+  keepFlagged: true
+};
+
+const setting = createJsonSetting<RetentionPolicy>('wildlife-detection:retention', DEFAULT_RETENTION_POLICY, 'retention policy');
+
+export const loadRetentionPolicy = setting.load;
+export const saveRetentionPolicy = setting.save;
@@ -0,0 +1,7 @@
+import { DEFAULT_SCHEDULE_SETTINGS, type ScheduleSettings } from '@/lib/schedule';
+import { createJsonSetting } from './json-setting';
+
+const setting = createJsonSetting<ScheduleSettings>('wildlife-detection:schedule', DEFAULT_SCHEDULE_SETTINGS, 'schedule settings');
+
+export const loadScheduleSettings = setting.load;
+export const saveScheduleSettings = setting.save;
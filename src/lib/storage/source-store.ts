@@ -0,0 +1,13 @@
+import type { SourceSettings } from '@/lib/sources';
+import { createJsonSetting } from './json-setting';
+
+export const DEFAULT_SOURCE_SETTINGS: SourceSettings = {
+  selectedId: null,
+  network: [],
+  gridIds: []
+};
+
+const setting = createJsonSetting<SourceSettings>('wildlife-detection:sources', DEFAULT_SOURCE_SETTINGS, 'video sources');
+
+export const loadSourceSettings = setting.load;
+export const saveSourceSettings = setting.save;
@@ -0,0 +1,110 @@
+import type { CameraAnalytics } from '@/lib/analytics';
+import type { BoundingBox, ClassificationLabel, Detection, DetectionType, Track } from '@/lib/detection';
+import type { DetectionEvent } from '@/lib/events';
+import type { HeatmapSlices } from '@/lib/heatmap';
+import type { CaptureContext } from '@/lib/recording';
+import type { DetectionReview } from '@/lib/review';
+
+export interface StoredDetection {
+  id: string;
+  cameraId: string;
+  // Missing when the source was not assigned to a deployment, and on records from before deployments
+  deploymentId?: string;
+  // Milliseconds since epoch
+  timestamp: number;
+  intensity: number;
+  // Missing on detections stored before reviews needed it to replay classifyMotion
+  motionPoints?: number;
+  // Missing on detections stored before class cutoffs were a share of the frame
+  coverage?: number;
+  confidence: number;
+  type: DetectionType;
+  label: string;
+  labels: ClassificationLabel[];
+  boxes: BoundingBox[];
+  zoneIds: string[];
+  flagged: boolean;
+}
+
+// Track ids restart with every session, so the store keys them by first sighting as well
+export interface StoredTrack extends Track {
+  key: string;
+  cameraId: string;
+  deploymentId?: string;
+  flagged: boolean;
+}
+
+export type MediaKind = 'clip' | 'snapshot';
+
+export interface StoredMedia {
+  id: string;
+  kind: MediaKind;
+  cameraId: string;
+  deploymentId?: string;
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+  // Clips only
+  endedAt: number | null;
+  trigger: Detection | null;
+  flagged: boolean;
+  // Missing on media stored before capture contexts were kept
+  context?: CaptureContext;
+}
+
+export interface DetectionQuery {
+  from?: number;
+  to?: number;
+  // Newest records are returned when the range holds more than this
+  limit?: number;
+}
+
+export interface RetentionPolicy {
+  // Records older than this are removed; 0 keeps everything
+  maxAgeDays: number;
+  // Oldest media is removed once blobs exceed this; 0 means no limit
+  maxStorageMB: number;
+  keepFlagged: boolean;
+}
+
+export interface RetentionReport {
+  detectionsRemoved: number;
+  tracksRemoved: number;
+  eventsRemoved: number;
+  mediaRemoved: number;
+  bytesFreed: number;
+}
+
+export interface StorageUsage {
+  detections: number;
+  tracks: number;
+  events: number;
+  media: number;
+  mediaBytes: number;
+}
+
+export interface DetectionStore {
+  saveDetections: (records: StoredDetection[]) => Promise<void>;
+  listDetections: (query?: DetectionQuery) => Promise<StoredDetection[]>;
+  saveTrack: (track: Track, cameraId: string, deploymentId?: string) => Promise<void>;
+  listTracks: (query?: DetectionQuery) => Promise<StoredTrack[]>;
+  saveEvent: (event: DetectionEvent) => Promise<void>;
+  // Queried by the event's start
+  listEvents: (query?: DetectionQuery) => Promise<DetectionEvent[]>;
+  saveMedia: (media: StoredMedia) => Promise<void>;
+  listMedia: (query?: DetectionQuery) => Promise<StoredMedia[]>;
+  getMedia: (id: string) => Promise<StoredMedia | null>;
+  setMediaFlagged: (id: string, flagged: boolean) => Promise<void>;
+  deleteMedia: (id: string) => Promise<void>;
+  saveReview: (review: DetectionReview) => Promise<void>;
+  // Queried by the reviewed track's first sighting
+  listReviews: (query?: DetectionQuery) => Promise<DetectionReview[]>;
+  loadAnalytics: () => Promise<CameraAnalytics | null>;
+  saveAnalytics: (analytics: CameraAnalytics) => Promise<void>;
+  // By camera id
+  loadHeatmaps: () => Promise<Record<string, HeatmapSlices>>;
+  saveHeatmap: (cameraId: string, slices: HeatmapSlices) => Promise<void>;
+  applyRetention: (policy: RetentionPolicy, now?: number) => Promise<RetentionReport>;
+  getUsage: () => Promise<StorageUsage>;
+}
@@ -0,0 +1,23 @@
+import type { DetectionZone } from '@/lib/detection';
+
+const STORAGE_PREFIX = 'wildlife-detection:zones:';
+
+export const loadZones = (cameraId: string): DetectionZone[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + cameraId);
+    return raw ? (JSON.parse(raw) as DetectionZone[]) : [];
+  } catch (error) {
+    console.error('Failed to load detection zones:', error);
+    return [];
+  }
+};
+
+export const saveZones = (cameraId: string, zones: DetectionZone[]) => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + cameraId, JSON.stringify(zones));
+  } catch (error) {
+    console.error('Failed to save detection zones:', error);
+  }
+};
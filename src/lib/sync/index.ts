@@ -0,0 +1,3 @@
+export * from './types';
+export { createSyncClient } from './sync-client';
+export type { SyncClient, SyncClientOptions } from './sync-client';
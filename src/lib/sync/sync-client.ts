@@ -0,0 +1,178 @@
+import type { ApiError } from '@/lib/api/types';
+import {
+  STORES,
+  openDatabase,
+  readIndex,
+  requestToPromise,
+  transactionDone,
+  type StoredDetection,
+  type StoredMedia
+} from '@/lib/storage';
+import type { OutboxEntry, SyncStatus } from './types';
+
+const SYNC_INTERVAL = 10 * 1000;
+const RETRY_BASE_DELAY = 5 * 1000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+export interface SyncClientOptions {
+  // Prefix for the /api routes; empty for the same origin
+  baseUrl?: string;
+  // Media blobs stay in the local store and are read back when their upload comes up
+  getMedia: (id: string) => Promise<StoredMedia | null>;
+  onStatus?: (status: SyncStatus) => void;
+}
+
+export interface SyncClient {
+  enqueueDetections: (detections: StoredDetection[]) => Promise<void>;
+  enqueueMedia: (mediaId: string) => Promise<void>;
+  // Sends everything that is due; `ignoreBackoff` also retries entries still waiting out a failure
+  flush: (ignoreBackoff?: boolean) => Promise<void>;
+  stop: () => void;
+}
+
+// The server rejected the payload itself, so sending it again cannot help
+class PermanentSyncError extends Error {}
+
+const retryDelay = (attempts: number) => Math.min(RETRY_BASE_DELAY * 2 ** attempts, RETRY_MAX_DELAY);
+
+const checkResponse = async (response: Response) => {
+  if (response.ok) return;
+  const body = await response.json().catch(() => null) as ApiError | null;
+  const message = body?.error ?? `HTTP ${response.status}`;
+  if (response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429) {
+    throw new PermanentSyncError(message);
+  }
+  throw new Error(message);
+};
+
+// Queues uploads in IndexedDB so they survive reloads and retries them with exponential backoff
+export const createSyncClient = async ({
+  baseUrl = '',
+  getMedia,
+  onStatus
+}: SyncClientOptions): Promise<SyncClient> => {
+  const db = await openDatabase();
+  let flushing = false;
+  let lastSyncAt: number | null = null;
+  let lastError: string | null = null;
+
+  const write = async (apply: (store: IDBObjectStore) => void) => {
+    const transaction = db.transaction(STORES.outbox, 'readwrite');
+    apply(transaction.objectStore(STORES.outbox));
+    await transactionDone(transaction);
+  };
+
+  const reportStatus = async () => {
+    if (!onStatus) return;
+    const pending = await requestToPromise(db.transaction(STORES.outbox, 'readonly').objectStore(STORES.outbox).count());
+    onStatus({ pending, online: navigator.onLine, lastSyncAt, lastError });
+  };
+
+  const send = async (entry: OutboxEntry) => {
+    if (entry.kind === 'detections') {
+      await checkResponse(await fetch(`${baseUrl}/api/detections`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ detections: entry.detections })
+      }));
+      return;
+    }
+
+    const media = await getMedia(entry.mediaId);
+    // Retention removed it before it could be uploaded
+    if (!media) return;
+    const { blob, ...metadata } = media;
+    const form = new FormData();
+    form.append('metadata', JSON.stringify(metadata));
+    form.append('file', blob, media.id);
+    await checkResponse(await fetch(`${baseUrl}/api/media`, { method: 'POST', body: form }));
+  };
+
+  const flush = async (ignoreBackoff = false) => {
+    if (flushing || !navigator.onLine) {
+      await reportStatus();
+      return;
+    }
+    flushing = true;
+
+    try {
+      const due = await readIndex<OutboxEntry>(db, STORES.outbox, 'nextAttemptAt', {
+        to: ignoreBackoff ? undefined : Date.now(),
+        newestFirst: false
+      });
+
+      for (const entry of due) {
+        try {
+          await send(entry);
+          await write(store => store.delete(entry.id));
+          lastSyncAt = Date.now();
+          lastError = null;
+        } catch (error) {
+          lastError = (error as Error).message;
+          if (error instanceof PermanentSyncError) {
+            console.error(`Dropping rejected upload ${entry.id}:`, error);
+            await write(store => store.delete(entry.id));
+            continue;
+          }
+          await write(store => store.put({
+            ...entry,
+            attempts: entry.attempts + 1,
+            nextAttemptAt: Date.now() + retryDelay(entry.attempts),
+            lastError
+          }));
+          // The server or network is down; the rest of the queue would fail the same way
+          break;
+        }
+      }
+    } finally {
+      flushing = false;
+      await reportStatus();
+    }
+  };
+
+  const enqueue = async (entry: OutboxEntry) => {
+    await write(store => store.put(entry));
+    flush().catch(error => console.error('Sync failed:', error));
+  };
+
+  const enqueueDetections = (detections: StoredDetection[]) => enqueue({
+    id: `detections-${detections[0]?.id ?? Date.now()}`,
+    kind: 'detections',
+    detections,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: null
+  });
+
+  const enqueueMedia = (mediaId: string) => enqueue({
+    id: `media-${mediaId}`,
+    kind: 'media',
+    mediaId,
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: null
+  });
+
+  const tick = () => {
+    flush().catch(error => console.error('Sync failed:', error));
+  };
+
+  // Coming back online is the moment to retry, whatever the backoff says
+  const handleOnline = () => {
+    flush(true).catch(error => console.error('Sync failed:', error));
+  };
+
+  const interval = setInterval(tick, SYNC_INTERVAL);
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', reportStatus);
+  await reportStatus();
+
+  const stop = () => {
+    clearInterval(interval);
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', reportStatus);
+    db.close();
+  };
+
+  return { enqueueDetections, enqueueMedia, flush, stop };
+};
@@ -0,0 +1,12 @@
+import type { StoredDetection } from '@/lib/storage';
+
+export type OutboxEntry =
+  | { id: string; kind: 'detections'; detections: StoredDetection[]; attempts: number; nextAttemptAt: number; lastError: string | null }
+  | { id: string; kind: 'media'; mediaId: string; attempts: number; nextAttemptAt: number; lastError: string | null };
+
+export interface SyncStatus {
+  pending: number;
+  online: boolean;
+  lastSyncAt: number | null;
+  lastError: string | null;
+}